@@ -1,6 +1,59 @@
-import { App, LogLevel } from '@slack/bolt';
+import { App, LogLevel, MessageChangedEvent, SayFn } from '@slack/bolt';
 import { appConfig } from './config';
 import { LLMService } from './services/ollama';
+import { ThreadTracker } from './services/threads';
+import { StreamingMessage } from './services/streaming';
+import { EventDeduplicator } from './services/dedup';
+import { ResponseFormatter } from './services/formatter';
+import { ParticipationEngine } from './services/participation';
+import { NameMatcher } from './services/names';
+import { SlackMarkup } from './services/markup';
+import { MemoryIntentParser } from './services/intents';
+import { InFlightRequests } from './services/inflight';
+import { SlackChannelLookupTool, SlackUserLookupTool } from './tools';
+import { AidanCommand } from './commands/aidan';
+import { HomeView } from './views/home';
+import { MemoryIntentHandler } from './commands/intents';
+import { ChatMessage, ConversationSurface, DeliveredReply, FormattedMessage, InFlightRequest, RequestPriority, SurfacePolicy } from './types';
+
+/**
+ * Minimal shape of a message returned by conversations.replies / conversations.history
+ */
+interface SlackHistoryMessage {
+  user?: string;
+  bot_id?: string;
+  subtype?: string;
+  text?: string;
+  ts?: string;
+  thread_ts?: string;
+}
+
+/**
+ * Reactions counted as feedback on Aidan's replies, mapped to their vote value
+ */
+const FEEDBACK_REACTIONS: Record<string, number> = {
+  '+1': 1,
+  'thumbsup': 1,
+  '-1': -1,
+  'thumbsdown': -1,
+};
+
+/**
+ * Reactions that stop a reply while it is being generated (✋)
+ */
+const STOP_REACTIONS = new Set(['raised_hand', 'hand']);
+
+/**
+ * How Aidan takes part on each kind of conversation
+ * Group DMs behave like a small channel: Aidan listens for its name, but answers
+ * inline since threads are rarely used there
+ */
+const SURFACE_POLICIES: Record<ConversationSurface, SurfacePolicy> = {
+  channel: { respondToAll: false, followThreads: true, detectName: true, replyInThread: true },
+  group: { respondToAll: false, followThreads: true, detectName: true, replyInThread: true },
+  mpim: { respondToAll: false, followThreads: true, detectName: true, replyInThread: false },
+  im: { respondToAll: true, followThreads: false, detectName: false, replyInThread: false },
+};
 
 /**
  * Main Slack bot application class
@@ -9,8 +62,18 @@ import { LLMService } from './services/ollama';
 class AidanSlackBot {
   private app: App;
   private llmService: LLMService;
-  private activeThreads: Set<string> = new Set(); // Track threads Aidan is participating in
-  private userCache: Map<string, string> = new Map(); // Cache user display names
+  private threadTracker: ThreadTracker; // Track threads Aidan is participating in
+  private participation: ParticipationEngine; // Decide when to join conversations unprompted
+  private deduplicator: EventDeduplicator = new EventDeduplicator(); // Skip redelivered events and overlapping handlers
+  private formatter: ResponseFormatter = new ResponseFormatter(); // Markdown to Slack mrkdwn and blocks
+  private surfaces: Map<string, ConversationSurface> = new Map(); // Channel ID -> kind of conversation
+  private nameMatcher: NameMatcher = new NameMatcher(); // Recognise the bot's name, aliases and @mentions
+  private markup: SlackMarkup; // Slack mentions and links <-> readable text, with cached user names
+  private intentParser: MemoryIntentParser; // Recognise "remember that …", "forget …" and "what do you remember about …"
+  private intentHandler: MemoryIntentHandler; // Carry those requests out without the LLM
+  private inFlight: InFlightRequests = new InFlightRequests(); // Replies being generated, so they can be stopped
+  private botUserId: string | undefined; // Aidan's own Slack user ID, resolved at startup
+  private botId: string | undefined; // Aidan's own Slack bot ID, resolved at startup
 
   /**
    * Creates a new AidanSlackBot instance
@@ -27,95 +90,215 @@ class AidanSlackBot {
       logLevel: LogLevel.INFO,
     });
 
+    // Initialize Slack markup translation
+    this.markup = new SlackMarkup(this.app.client);
+
     // Initialize LLM service
     this.llmService = new LLMService();
+    this.llmService.getTools().register(new SlackUserLookupTool(this.app.client));
+    this.llmService.getTools().register(new SlackChannelLookupTool(this.app.client));
+    this.llmService.setChannelNameResolver(async (channelId) => channelId.startsWith('D') ? undefined : this.markup.getChannelName(channelId));
+
+    // Initialize explicit memory requests
+    this.intentParser = new MemoryIntentParser(this.nameMatcher);
+    this.intentHandler = new MemoryIntentHandler(this.llmService.getMemoryService());
+
+    // Initialize thread tracking, persisted alongside memories
+    this.threadTracker = new ThreadTracker(this.llmService.getMemoryService().getVectorStore());
+
+    // Initialize unprompted participation decisions
+    this.participation = new ParticipationEngine(this.llmService);
 
     // Set up event handlers
     this.setupEventHandlers();
   }
 
   /**
-   * Fetches user display name from Slack API with caching
-   * @param userId - Slack user ID
-   * @returns Promise resolving to user display name
+   * Fetches earlier messages of a thread (or recent DM history) as chat history
+   * Aidan's own messages become assistant turns, everyone else's become user turns
+   * @param channelId - Slack channel ID
+   * @param threadTs - Thread timestamp, or undefined to read the channel history (DMs)
+   * @param currentTs - Timestamp of the message being answered, excluded from the history
+   * @returns Promise resolving to chronologically ordered chat messages
    */
-  private async getUserDisplayName(userId: string): Promise<string> {
-    // Check cache first
-    if (this.userCache.has(userId)) {
-      return this.userCache.get(userId)!;
+  private async getConversationHistory(
+    channelId: string,
+    threadTs: string | undefined,
+    currentTs: string
+  ): Promise<ChatMessage[]> {
+    const limit = appConfig.maxHistoryMessages;
+    if (limit <= 0) {
+      return [];
     }
 
     try {
-      const userInfo = await this.app.client.users.info({
-        user: userId
-      });
+      let messages: SlackHistoryMessage[] = [];
+      if (threadTs) {
+        // Replies come back oldest first, so page through to the current message keeping the tail
+        const seen = new Set<string>();
+        let cursor: string | undefined;
+        do {
+          const result = await this.app.client.conversations.replies({
+            channel: channelId,
+            ts: threadTs,
+            latest: currentTs,
+            inclusive: false,
+            limit: 200,
+            ...(cursor && { cursor }),
+          });
+          // Pages may repeat the thread parent
+          const page = ((result.messages || []) as SlackHistoryMessage[]).filter(msg => msg.ts && !seen.has(msg.ts));
+          page.forEach(msg => seen.add(msg.ts!));
+          messages = [...messages, ...page].slice(-limit);
+          cursor = result.response_metadata?.next_cursor || undefined;
+        } while (cursor);
+      } else {
+        // History comes back newest first
+        const result = await this.app.client.conversations.history({
+          channel: channelId,
+          latest: currentTs,
+          inclusive: false,
+          limit,
+        });
+        messages = ((result.messages || []) as SlackHistoryMessage[]).reverse();
+      }
 
-      const user = userInfo.user as any; // Slack user object has these properties
-      const userName = user?.profile?.display_name || 
-                      user?.real_name || 
-                      user?.name || 
-                      'Unknown User';
+      const previousMessages = messages
+        .filter(msg => msg.ts && Number(msg.ts) < Number(currentTs))
+        .slice(-limit);
 
-      // Cache the result
-      this.userCache.set(userId, userName);
-      console.log(`[Bot] Fetched display name for ${userId}: ${userName}`);
-      
-      return userName;
+      const history: ChatMessage[] = [];
+      for (const msg of previousMessages) {
+        const chatMessage = await this.toChatMessage(msg);
+        if (chatMessage) {
+          history.push(chatMessage);
+        }
+      }
+
+      console.log(`[Bot] Loaded ${history.length} history messages for ${channelId}${threadTs ? `-${threadTs}` : ''}`);
+      return history;
     } catch (error) {
-      console.error(`[Bot] Error fetching user info for ${userId}:`, error);
-      return 'Unknown User';
+      console.error(`[Bot] Error fetching conversation history for ${channelId}:`, error);
+      return [];
     }
   }
 
+  /**
+   * Maps a Slack message to a chat message with the appropriate role
+   * @param message - Slack message from the conversations API
+   * @returns Promise resolving to a chat message, or null if the message should be skipped
+   */
+  private async toChatMessage(message: SlackHistoryMessage): Promise<ChatMessage | null> {
+    const text = message.text ? await this.markup.toPlainText(message.text) : '';
+    if (!text) {
+      return null;
+    }
+
+    const isOwnMessage = (this.botUserId !== undefined && message.user === this.botUserId) ||
+                         (this.botId !== undefined && message.bot_id === this.botId);
+    if (isOwnMessage) {
+      return { role: 'assistant', content: text };
+    }
+
+    // Skip joins, other bots and similar system messages
+    if (!message.user || (message.subtype && message.subtype !== 'thread_broadcast')) {
+      return null;
+    }
+
+    const userName = await this.markup.getUserName(message.user);
+    return { role: 'user', content: `${userName}: ${text}` };
+  }
+
   /**
    * Sets up all Slack event handlers
    * Configures mention detection and message processing
    */
   private setupEventHandlers(): void {
+    // Drop Socket Mode redeliveries of events that were already handled
+    this.app.use(async ({ body, next }) => {
+      const eventId = 'event_id' in body && typeof body.event_id === 'string' ? body.event_id : undefined;
+      if (eventId && !this.deduplicator.claim(`event:${eventId}`)) {
+        return;
+      }
+      await next();
+    });
+
     // Add generic message listener for debugging
     this.app.event('message', async ({ event }) => {
       console.log(`[Debug] Message event received:`, event);
     });
 
     // Handle app mentions (when @aidan is used)
-    this.app.event('app_mention', async ({ event, say }) => {
+    this.app.event('app_mention', async ({ event, say, client }) => {
+      // Everything Aidan says here goes in a thread, or inline in group DMs
+      const surface = await this.getSurface(event.channel);
+      const policy = SURFACE_POLICIES[surface];
+      const threadTs = event.thread_ts || (policy.replyInThread ? event.ts : undefined);
+
       try {
         console.log(`[Bot] Received mention from user ${event.user} in channel ${event.channel}`);
+
+        if (!this.deduplicator.claimMessage(event.channel, event.ts)) {
+          return;
+        }
         
-        // Extract the message text and remove the bot mention
-        const messageText = this.extractMessageFromMention(event.text);
+        // Resolve mentions and links into readable text, dropping the leading bot mention
+        const messageText = await this.markup.toPlainText(event.text);
         
         if (!messageText.trim()) {
           await say({
             text: `Hi there! 👋 You mentioned me but didn't ask anything. How can I help you today?`,
-            thread_ts: event.ts,
+            ...(threadTs && { thread_ts: threadTs }),
           });
           return;
         }
 
+        // "@aidan leave" inside a thread stops Aidan from following it
+        if (event.thread_ts && this.isLeaveRequest(messageText, false)) {
+          await this.leaveThread(event.channel, event.thread_ts, say);
+          return;
+        }
+
         // Get user display name
         const userId = event.user || 'unknown';
-        const userName = await this.getUserDisplayName(userId);
 
-        // Get response from LLM with user context
-        const response = await this.llmService.chat(
+        // "@aidan stop" stops the replies the user is waiting for here
+        if (this.stopRequested(messageText, event.channel, event.thread_ts, userId)) {
+          return;
+        }
+
+        const userName = await this.markup.getUserName(userId);
+
+        // "@aidan remember that …" and other memory requests skip the LLM
+        const intent = this.intentParser.parse(messageText);
+        if (intent) {
+          await this.intentHandler.handle(intent, { channelId: event.channel, ts: event.ts, threadTs, userId, userName, surface }, say, client);
+          return;
+        }
+
+        // Mentions inside an existing thread carry the thread's history
+        const conversationHistory = event.thread_ts
+          ? await this.getConversationHistory(event.channel, event.thread_ts, event.ts)
+          : [];
+
+        // Get response from LLM with user context and send it in thread (inline in group DMs)
+        await this.postReply(
           messageText,
-          [], // conversation history
+          conversationHistory,
           event.channel, // channelId
+          threadTs,      // threadTs
+          event.ts,      // sourceTs
           userId,        // userId
-          userName       // userName
+          userName,      // userName
+          say
         );
 
-        // Send the response in thread
-        await say({
-          text: response,
-          thread_ts: event.ts,
-        });
-
         // Track this thread as active
-        const threadKey = `${event.channel}-${event.ts}`;
-        this.activeThreads.add(threadKey);
-        console.log(`[Bot] Added thread to active threads: ${threadKey}`);
+        if (threadTs && policy.followThreads) {
+          this.threadTracker.track(event.channel, threadTs);
+          console.log(`[Bot] Added thread to active threads: ${event.channel}-${threadTs}`);
+        }
+        this.participation.recordReply(event.channel, threadTs, true);
 
         console.log(`[Bot] Responded to mention successfully`);
       } catch (error) {
@@ -135,46 +318,74 @@ class AidanSlackBot {
             case 'MODEL_NOT_FOUND':
               errorMessage = 'My AI model seems to be unavailable. Please contact an administrator.';
               break;
+            case 'QUEUE_FULL':
+              errorMessage = 'I\'m swamped with requests right now. Please try again in a few minutes.';
+              break;
           }
         }
 
         await say({
           text: `❌ ${errorMessage}`,
-          thread_ts: event.ts,
+          ...(threadTs && { thread_ts: threadTs }),
         });
       }
     });
 
     // Handle direct messages to the bot
-    this.app.message(async ({ message, say }) => {
-      // Only respond to direct messages (DMs) and regular messages (not edited/deleted)
-      if (message.channel_type === 'im' && message.subtype === undefined && 'user' in message) {
+    this.app.message(async ({ message, say, client }) => {
+      // Only respond where every message is for Aidan (1:1 DMs) and to regular messages (not edited/deleted)
+      if (this.getSurfacePolicy(message.channel_type)?.respondToAll && message.subtype === undefined && 'user' in message) {
         try {
           console.log(`[Bot] Received DM from user ${message.user}`);
+
+          if (!this.deduplicator.claimMessage(message.channel, message.ts)) {
+            return;
+          }
           
-          const messageText = message.text;
+          const messageText = message.text ? await this.markup.toPlainText(message.text) : '';
           
-          if (!messageText?.trim()) {
+          if (!messageText) {
             await say('Hi! How can I help you today?');
             return;
           }
 
           // Get user display name
           const userId = message.user || 'unknown';
-          const userName = await this.getUserDisplayName(userId);
 
-          // Get response from LLM with user context
-          const response = await this.llmService.chat(
+          // "stop" while Aidan is still answering stops the reply
+          if (this.stopRequested(messageText, message.channel, undefined, userId)) {
+            return;
+          }
+
+          const userName = await this.markup.getUserName(userId);
+
+          // Memory requests skip the LLM
+          const intent = this.intentParser.parse(messageText);
+          if (intent) {
+            const threadTs = 'thread_ts' in message ? message.thread_ts : undefined;
+            await this.intentHandler.handle(intent, { channelId: message.channel, ts: message.ts, threadTs, userId, userName, surface: 'im' }, say, client);
+            return;
+          }
+
+          // Threaded DMs use the thread, otherwise recent DM history
+          const conversationHistory = await this.getConversationHistory(
+            message.channel,
+            'thread_ts' in message ? message.thread_ts : undefined,
+            message.ts
+          );
+
+          // Get response from LLM with user context and send it
+          await this.postReply(
             messageText,
-            [], // conversation history
+            conversationHistory,
             message.channel, // channelId
+            undefined,       // threadTs
+            message.ts,      // sourceTs
             userId,          // userId
-            userName         // userName
+            userName,        // userName
+            say
           );
 
-          // Send the response
-          await say(response);
-
           console.log(`[Bot] Responded to DM successfully`);
         } catch (error) {
           console.error('[Bot] Error handling DM:', error);
@@ -184,9 +395,9 @@ class AidanSlackBot {
     });
 
     // Handle messages in active threads (where Aidan is participating)
-    this.app.message(async ({ message, say }) => {
-      // Only respond to channel messages in threads and regular messages (not edited/deleted)
-      if (message.channel_type === 'channel' && 
+    this.app.message(async ({ message, say, client }) => {
+      // Only respond to thread messages where Aidan follows threads, and regular messages (not edited/deleted)
+      if (this.getSurfacePolicy(message.channel_type)?.followThreads && 
           message.subtype === undefined && 
           'user' in message && 
           'thread_ts' in message && 
@@ -195,38 +406,83 @@ class AidanSlackBot {
         const threadKey = `${message.channel}-${message.thread_ts}`;
         
         // Check if this is a thread Aidan is participating in
-        if (this.activeThreads.has(threadKey)) {
+        if (this.threadTracker.isActive(message.channel, message.thread_ts)) {
           try {
             console.log(`[Bot] Received message in active thread ${threadKey} from user ${message.user}`);
             
-            const messageText = message.text;
-            
-            if (!messageText?.trim()) {
+            if (!message.text?.trim()) {
               return; // Don't respond to empty messages in threads
             }
 
-            // Decide whether to respond (you can add logic here for when Aidan should respond)
-            const shouldRespond = this.shouldRespondInThread(messageText);
-            
-            if (shouldRespond) {
-              // Get user display name
-              const userId = message.user || 'unknown';
-              const userName = await this.getUserDisplayName(userId);
+            // @mentions are answered by the app_mention handler
+            if (this.nameMatcher.isMentioned(message.text)) {
+              return;
+            }
+
+            const messageText = await this.markup.toPlainText(message.text);
+
+            // "aidan, leave" stops Aidan from following the thread
+            if (this.isLeaveRequest(messageText, true)) {
+              if (this.deduplicator.claimMessage(message.channel, message.ts)) {
+                await this.leaveThread(message.channel, message.thread_ts, say);
+              }
+              return;
+            }
+
+            // Any message keeps the thread alive
+            this.threadTracker.track(message.channel, message.thread_ts);
 
-              // Get response from LLM with user context
-              const response = await this.llmService.chat(
+            // Get user display name
+            const userId = message.user || 'unknown';
+
+            // "stop" from someone Aidan is still answering in this thread stops the reply
+            if (this.stopRequested(messageText, message.channel, message.thread_ts, userId, message.ts)) {
+              return;
+            }
+
+            const userName = await this.markup.getUserName(userId);
+
+            // "aidan, remember that …" is handled without the LLM; without the name it's meant for the thread
+            const intent = this.intentParser.parse(messageText, true);
+            if (intent) {
+              if (this.deduplicator.claimMessage(message.channel, message.ts)) {
+                const surface = await this.getSurface(message.channel);
+                await this.intentHandler.handle(intent, { channelId: message.channel, ts: message.ts, threadTs: message.thread_ts, userId, userName, surface }, say, client);
+              }
+              return;
+            }
+
+            const conversationHistory = await this.getConversationHistory(
+              message.channel,
+              message.thread_ts,
+              message.ts
+            );
+
+            // Decide from the thread's context whether the message is meant for Aidan
+            const decision = await this.participation.decide(
+              'thread',
+              message.channel,
+              message.thread_ts,
+              userId,
+              userName,
+              messageText,
+              conversationHistory
+            );
+            
+            if (decision.respond && this.deduplicator.claimMessage(message.channel, message.ts)) {
+              // Get response from LLM with user context and send it in thread
+              await this.postReply(
                 messageText,
-                [], // conversation history
-                message.channel, // channelId
-                userId,          // userId
-                userName         // userName
+                conversationHistory,
+                message.channel,    // channelId
+                message.thread_ts,  // threadTs
+                message.ts,         // sourceTs
+                userId,             // userId
+                userName,           // userName
+                say,
+                'low'               // unprompted thread replies yield to mentions and DMs
               );
-
-              // Send the response in thread
-              await say({
-                text: response,
-                thread_ts: message.thread_ts,
-              });
+              this.participation.recordReply(message.channel, message.thread_ts, false);
 
               console.log(`[Bot] Responded in thread ${threadKey} successfully`);
             }
@@ -242,62 +498,94 @@ class AidanSlackBot {
     });
 
     // Handle name mentions in channel messages (not @mentions)
-    this.app.message(async ({ message, say }) => {
-      // Only respond to channel messages that are not @mentions, not in threads we're already in, and regular messages
-      if (message.channel_type === 'channel' && 
+    this.app.message(async ({ message, say, client }) => {
+      // Only respond where Aidan listens for its name, to messages that are not @mentions,
+      // not in threads we're already in, and regular messages
+      const policy = this.getSurfacePolicy(message.channel_type);
+      if (policy?.detectName && 
           message.subtype === undefined && 
           'user' in message &&
           message.text) {
         
         // Skip if this is a thread message we're already handling
         if ('thread_ts' in message && message.thread_ts) {
-          const threadKey = `${message.channel}-${message.thread_ts}`;
-          if (this.activeThreads.has(threadKey)) {
+          if (this.threadTracker.isActive(message.channel, message.thread_ts)) {
             return; // Already handled by thread handler
           }
         }
 
-        // Check if the message contains "Aidan" or "aidan" (case insensitive)
-        const containsName = /\b(aidan)\b/i.test(message.text);
+        // @mentions are answered by the app_mention handler
+        if (this.nameMatcher.isMentioned(message.text)) {
+          return;
+        }
+
+        // Check if the message contains the bot's name or an alias (case insensitive)
+        const containsName = this.nameMatcher.containsName(message.text);
         
         if (containsName) {
           try {
             console.log(`[Bot] Name mentioned in channel ${message.channel} by user ${message.user}`);
             
+            // Get user display name
+            const userId = message.user || 'unknown';
+            const userName = await this.markup.getUserName(userId);
+            const messageText = await this.markup.toPlainText(message.text);
+
+            // Respond in thread to avoid cluttering the channel
+            const messageThreadTs = 'thread_ts' in message ? message.thread_ts : undefined;
+            const threadTs = messageThreadTs || (policy.replyInThread ? message.ts : undefined);
+
+            // "aidan, stop" stops the replies the user is waiting for here
+            if (this.stopRequested(messageText, message.channel, messageThreadTs, userId, message.ts)) {
+              return;
+            }
+
+            // "aidan, remember that …" is handled without the LLM
+            const intent = this.intentParser.parse(messageText, true);
+            if (intent) {
+              if (this.deduplicator.claimMessage(message.channel, message.ts)) {
+                const surface = await this.getSurface(message.channel);
+                await this.intentHandler.handle(intent, { channelId: message.channel, ts: message.ts, threadTs, userId, userName, surface }, say, client);
+              }
+              return;
+            }
+
+            // Threads carry their history; so do group DMs, where Aidan answers inline
+            const conversationHistory = messageThreadTs || !policy.replyInThread
+              ? await this.getConversationHistory(message.channel, messageThreadTs, message.ts)
+              : [];
+
             // Ask LLM if Aidan should respond based on context
-            const shouldRespond = await this.shouldRespondToNameMention(message.text);
+            const decision = await this.participation.decide(
+              'name',
+              message.channel,
+              threadTs,
+              userId,
+              userName,
+              messageText,
+              conversationHistory
+            );
             
-            if (shouldRespond) {
-              // Get user display name
-              const userId = message.user || 'unknown';
-              const userName = await this.getUserDisplayName(userId);
-
-              // Get response from LLM with user context
-              const response = await this.llmService.chat(
-                message.text,
-                [], // conversation history
+            if (decision.respond && this.deduplicator.claimMessage(message.channel, message.ts)) {
+              await this.postReply(
+                messageText,
+                conversationHistory,
                 message.channel, // channelId
+                threadTs,        // threadTs
+                message.ts,      // sourceTs
                 userId,          // userId
-                userName         // userName
+                userName,        // userName
+                say
               );
+              this.participation.recordReply(message.channel, threadTs, false);
 
-              // Respond in thread to avoid cluttering the channel
-              const threadTs = 'thread_ts' in message && message.thread_ts ? message.thread_ts : message.ts;
-              await say({
-                text: response,
-                thread_ts: threadTs,
-              });
-
-              // Track this thread as active if it's a new thread
-              if (!('thread_ts' in message && message.thread_ts)) {
-                const threadKey = `${message.channel}-${message.ts}`;
-                this.activeThreads.add(threadKey);
-                console.log(`[Bot] Added new thread to active threads: ${threadKey}`);
+              // Track this thread as active
+              if (threadTs && policy.followThreads) {
+                this.threadTracker.track(message.channel, threadTs);
+                console.log(`[Bot] Added thread to active threads: ${message.channel}-${threadTs}`);
               }
 
               console.log(`[Bot] Responded to name mention successfully`);
-            } else {
-              console.log(`[Bot] Decided not to respond to name mention based on context`);
             }
           } catch (error) {
             console.error('[Bot] Error handling name mention:', error);
@@ -307,46 +595,41 @@ class AidanSlackBot {
       }
     });
 
-    // Handle app_home_opened event (when user opens the bot's home tab)
-    this.app.event('app_home_opened', async ({ event, client }) => {
-      try {
-        await client.views.publish({
-          user_id: event.user,
-          view: {
-            type: 'home',
-            blocks: [
-              {
-                type: 'section',
-                text: {
-                  type: 'mrkdwn',
-                  text: `*Welcome to Aidan! 🤖*\n\nI'm your AI assistant powered by Ollama. Here's how to interact with me:`,
-                },
-              },
-              {
-                type: 'section',
-                text: {
-                  type: 'mrkdwn',
-                  text: `• *Mention me* in any channel: \`@${appConfig.botName} your question\` (I'll respond in a thread)\n• *Say my name* in conversation: I'll decide if I should join in based on context\n• *Continue the conversation* in threads - I might participate!\n• *Send me a DM* for private conversations\n• I can help with questions, provide information, and have conversations!`,
-                },
-              },
-              {
-                type: 'divider',
-              },
-              {
-                type: 'section',
-                text: {
-                  type: 'mrkdwn',
-                  text: `*Current Model:* \`${appConfig.llmModel}\`\n*Current Provider:* \`${appConfig.llmProvider}\`\n*Status:* 🟢 Online and ready to help!`,
-                },
-              },
-            ],
-          },
-        });
-      } catch (error) {
-        console.error('[Bot] Error updating home tab:', error);
+    // Handle 👍/👎 feedback on Aidan's replies, and ✋ on a question or reply still being generated
+    this.app.event('reaction_added', async ({ event }) => {
+      if (STOP_REACTIONS.has(event.reaction.split('::')[0]!) && event.item.type === 'message') {
+        this.inFlight.cancelMessage(event.item.channel, event.item.ts, event.user);
+        return;
+      }
+      await this.handleFeedbackReaction(event.reaction, event.user, event.item, event.item_user, true);
+    });
+
+    this.app.event('reaction_removed', async ({ event }) => {
+      await this.handleFeedbackReaction(event.reaction, event.user, event.item, event.item_user, false);
+    });
+
+    // Re-answer edited questions, and stop and forget deleted ones
+    this.app.event('message', async ({ event }) => {
+      if (event.subtype === 'message_deleted') {
+        await this.forgetDeletedMessage(event.channel, event.deleted_ts);
+      } else if (event.subtype === 'message_changed') {
+        await this.handleMessageEdit(event);
       }
     });
 
+    // Set up the App Home dashboard
+    new HomeView(this.llmService).register(this.app);
+
+    // Register the confirm buttons of "forget …" requests
+    this.intentHandler.register(this.app);
+
+    // Register the /aidan slash command for memory and bot administration
+    new AidanCommand(
+      this.llmService.getMemoryService(),
+      this.llmService.getPersonaService(),
+      this.llmService.getUsageService()
+    ).register(this.app);
+
     // Global error handler
     this.app.error(async (error) => {
       console.error('[Bot] Global error:', error);
@@ -354,68 +637,541 @@ class AidanSlackBot {
   }
 
   /**
-   * Extracts the actual message content from a mention event
-   * Removes the bot mention tag and cleans up the text
-   * @param text - The raw text from the mention event
-   * @returns Cleaned message text
+   * Records a 👍 or 👎 reaction on one of Aidan's replies as feedback on its memory
+   * @param reaction - Reaction name (e.g. "+1" or "thumbsdown::skin-tone-2")
+   * @param userId - Slack user ID of the reacting user
+   * @param item - Item the reaction was added to or removed from
+   * @param itemUser - Slack user ID of the item's author
+   * @param added - Whether the reaction was added or removed
+   */
+  private async handleFeedbackReaction(
+    reaction: string,
+    userId: string,
+    item: { type: string; channel?: string; ts?: string },
+    itemUser: string | undefined,
+    added: boolean
+  ): Promise<void> {
+    if (item.type !== 'message' || !item.channel || !item.ts) return;
+    if (!this.botUserId || itemUser !== this.botUserId) return;
+
+    const baseReaction = reaction.split('::')[0];
+    const value = FEEDBACK_REACTIONS[baseReaction];
+    if (value === undefined) return;
+
+    try {
+      const memoryId = await this.llmService.getMemoryService().recordFeedback(item.channel, item.ts, userId, value, added);
+      if (memoryId === null) {
+        console.log(`[Bot] No memory linked to reply ${item.channel}-${item.ts}, ignoring :${baseReaction}:`);
+      }
+    } catch (error) {
+      console.error('[Bot] Error recording reaction feedback:', error);
+    }
+  }
+
+  /**
+   * Gets a response from the LLM and posts it
+   * When streaming is enabled, a placeholder is posted right away and edited as the reply is generated
+   * The reply is converted from Markdown to Slack formatting before it is posted
+   * Until it is posted, the asker can stop it; the placeholder then says so, or goes away if the question was deleted
+   * @param messageText - The user's message
+   * @param conversationHistory - Previous messages in the thread or DM
+   * @param channelId - Slack channel ID to reply in
+   * @param threadTs - Thread to reply in, or undefined to reply in the channel itself
+   * @param sourceTs - Timestamp of the message being answered, stored so edits and deletions can find the memory
+   * @param userId - Slack user ID of the asker
+   * @param userName - Display name of the asker
+   * @param say - Bolt say function for the current event
+   * @param priority - Scheduling priority of the request
+   * @returns Promise resolving to the reply text, or an empty string if the reply was stopped
+   */
+  private async postReply(
+    messageText: string,
+    conversationHistory: ChatMessage[],
+    channelId: string,
+    threadTs: string | undefined,
+    sourceTs: string,
+    userId: string,
+    userName: string,
+    say: SayFn,
+    priority: RequestPriority = 'high'
+  ): Promise<string> {
+    const surface = await this.getSurface(channelId);
+    const request = this.inFlight.start(channelId, sourceTs, threadTs, userId);
+    try {
+      return await this.generateReply(messageText, conversationHistory, channelId, threadTs, sourceTs, userId, userName, say, priority, surface, request);
+    } finally {
+      this.inFlight.finish(request);
+    }
+  }
+
+  /**
+   * Generates and posts a reply for postReply, which keeps track of the request while it runs
+   * @param surface - Kind of conversation the reply goes to
+   * @param request - The request, which stops generating when its controller aborts
+   * @returns Promise resolving to the reply text, or an empty string if the reply was stopped
    */
-  private extractMessageFromMention(text: string): string {
-    // Remove the mention pattern (e.g., "<@U1234567890>")
-    const mentionPattern = /<@[A-Z0-9]+>/g;
-    return text.replace(mentionPattern, '').trim();
+  private async generateReply(
+    messageText: string,
+    conversationHistory: ChatMessage[],
+    channelId: string,
+    threadTs: string | undefined,
+    sourceTs: string,
+    userId: string,
+    userName: string,
+    say: SayFn,
+    priority: RequestPriority,
+    surface: ConversationSurface,
+    request: InFlightRequest
+  ): Promise<string> {
+    const { signal } = request.controller;
+
+    if (!appConfig.streamingEnabled) {
+      // The reply's ts is only known once posted, so the memory waits for it to link reactions back
+      let resolveMetadata: (metadata: Record<string, any>) => void = () => {};
+      const memoryMetadata = new Promise<Record<string, any>>(resolve => { resolveMetadata = resolve; });
+
+      // Without a placeholder to edit, tell the user once that they are waiting in line
+      let queueNoticeSent = false;
+      const onQueued = (position: number) => {
+        if (queueNoticeSent) return;
+        queueNoticeSent = true;
+        this.app.client.chat.postEphemeral({
+          channel: channelId,
+          user: userId,
+          text: `⏳ You're #${position} in line, I'll get to you shortly.`,
+          ...(threadTs && { thread_ts: threadTs }),
+        }).catch((error) => console.warn('[Bot] Failed to post queue position:', error));
+      };
+
+      try {
+        const response = await this.llmService.chat(
+          messageText,
+          conversationHistory,
+          channelId,
+          userId,
+          userName,
+          { onQueued },
+          memoryMetadata,
+          priority,
+          signal
+        );
+        const delivered = await this.deliverReply(response, channelId, threadTs, async (message) => {
+          const result = await say({
+            text: message.text,
+            blocks: message.blocks,
+            ...(threadTs && { thread_ts: threadTs }),
+          });
+          return result.ts;
+        });
+        resolveMetadata(this.getReplyMetadata(sourceTs, surface, delivered));
+        return response;
+      } catch (error) {
+        resolveMetadata({ sourceTs, surface });
+        if (!signal.aborted) {
+          throw error;
+        }
+        if (!request.questionDeleted) {
+          await say({ text: '✋ Stopped.', ...(threadTs && { thread_ts: threadTs }) });
+        }
+        return '';
+      }
+    }
+
+    const reply = new StreamingMessage(this.app.client, channelId, threadTs);
+    await reply.start('🤔 Thinking...');
+    request.replyTs = reply.ts;
+
+    // Follow-up messages and files are only known once delivered, so the memory waits for them
+    let resolveMetadata: (metadata: Record<string, any>) => void = () => {};
+    const memoryMetadata = new Promise<Record<string, any>>(resolve => { resolveMetadata = resolve; });
+
+    try {
+      const response = await this.llmService.chat(
+        messageText,
+        conversationHistory,
+        channelId,
+        userId,
+        userName,
+        {
+          onQueued: (position) => reply.setStatus(`⏳ You're #${position} in line...`),
+          onPhase: (phaseName) => reply.setStatus(`🤔 ${phaseName}...`),
+          onToken: (token) => reply.append(token),
+        },
+        memoryMetadata,
+        priority,
+        signal
+      );
+
+      const delivered = await this.deliverReply(response, channelId, threadTs, (message) => reply.finish(message));
+      resolveMetadata(this.getReplyMetadata(sourceTs, surface, delivered));
+      return response;
+    } catch (error) {
+      resolveMetadata(this.getReplyMetadata(sourceTs, surface, { replyTs: reply.ts, followUpTs: [], fileIds: [] }));
+      if (signal.aborted && !request.questionDeleted) {
+        await reply.finish(this.formatter.format('✋ Stopped.')[0]!);
+        return '';
+      }
+
+      // Drop the placeholder so the handler's error message replaces it
+      await reply.discard();
+      if (signal.aborted) {
+        return '';
+      }
+      throw error;
+    }
   }
 
   /**
-   * Determines whether Aidan should respond to a message in a thread
-   * @param messageText - The message text to analyze
-   * @returns Whether Aidan should respond
+   * Determines what kind of conversation a channel is
+   * Message events carry their channel type; other events fall back to conversations.info
+   * @param channelId - Slack channel ID
+   * @param channelType - Channel type from the event, if it has one
+   * @returns Promise resolving to the conversation's surface
    */
-  private shouldRespondInThread(messageText: string): boolean {
-    // Simple logic: respond to questions or if the message is interesting
-    const hasQuestionWords = /\b(what|how|why|when|where|who|can|could|would|should|is|are|will|do|does|did)\b/i.test(messageText);
-    const hasQuestionMark = messageText.includes('?');
-    const isQuestion = hasQuestionWords || hasQuestionMark;
-    
-    // Also respond if the message is longer (indicates engagement)
-    const isSubstantial = messageText.trim().length > 20;
-    
-    // Respond to questions or substantial messages (about 50% of the time for substantial non-questions)
-    if (isQuestion) {
-      return true;
-    } else if (isSubstantial) {
-      return Math.random() < 0.5; // 50% chance for substantial messages
+  private async getSurface(channelId: string, channelType?: string): Promise<ConversationSurface> {
+    if (channelType && channelType in SURFACE_POLICIES) {
+      const surface = channelType as ConversationSurface;
+      this.surfaces.set(channelId, surface);
+      return surface;
+    }
+
+    const cached = this.surfaces.get(channelId);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const { channel } = await this.app.client.conversations.info({ channel: channelId });
+      const surface: ConversationSurface = channel?.is_im ? 'im'
+        : channel?.is_mpim ? 'mpim'
+        : channel?.is_private ? 'group'
+        : 'channel';
+      this.surfaces.set(channelId, surface);
+      return surface;
+    } catch (error) {
+      // Treat unknown conversations as private so nothing said there surfaces elsewhere
+      console.warn(`[Bot] Could not determine conversation type of ${channelId}:`, error);
+      return 'group';
     }
-    
-    return false; // Don't respond to short non-questions
   }
 
   /**
-   * Uses LLM to determine if Aidan should respond to a name mention based on context
-   * @param messageText - The message text to analyze
-   * @returns Promise<boolean> - Whether Aidan should respond
+   * Gets the participation policy for a message event's channel type
+   * @param channelType - Channel type from the message event
+   * @returns The policy, or undefined where Aidan doesn't take part (e.g. app_home)
    */
-  private async shouldRespondToNameMention(messageText: string): Promise<boolean> {
+  private getSurfacePolicy(channelType: string): SurfacePolicy | undefined {
+    return channelType in SURFACE_POLICIES ? SURFACE_POLICIES[channelType as ConversationSurface] : undefined;
+  }
+
+  /**
+   * Handles an edited message
+   * When the message is a question Aidan answered, the answer is regenerated and
+   * the earlier reply is updated in place; its follow-up messages and files are replaced
+   * @param event - message_changed event
+   */
+  private async handleMessageEdit(event: MessageChangedEvent): Promise<void> {
+    const message = event.message as SlackHistoryMessage;
+    const previousMessage = event.previous_message as SlackHistoryMessage;
+    if (!message.ts) return;
+
+    // Deleting a thread parent that has replies leaves a tombstone instead of a deletion event
+    if (message.subtype === 'tombstone') {
+      await this.forgetDeletedMessage(event.channel, message.ts);
+      return;
+    }
+
+    // Link unfurls and Aidan's own reply updates also arrive as edits
+    if (!appConfig.regenerateOnEdit || !message.user || message.bot_id || message.text === previousMessage.text) {
+      return;
+    }
+
+    const memoryService = this.llmService.getMemoryService();
+    let request: InFlightRequest | undefined;
     try {
-      const contextPrompt = `You are Aidan, a helpful AI assistant in a Slack channel. Someone just mentioned your name "Aidan" in this message: "${messageText}"
+      const memories = await memoryService.getMemoriesForMessage(event.channel, message.ts);
+      const replyTs = memories.map(memory => memory.metadata?.replyTs).find(ts => typeof ts === 'string');
+      const messageText = await this.markup.toPlainText(message.text || '');
+      if (!replyTs || !messageText) {
+        return;
+      }
 
-Based on the context, should you respond? Consider:
-- Are they asking you a question or seeking your input?
-- Are they talking TO you vs ABOUT you?
-- Is it a casual mention that doesn't need a response?
-- Would responding add value to the conversation?
+      console.log(`[Bot] Regenerating reply ${replyTs} after ${message.user} edited ${event.channel}-${message.ts}`);
 
-Respond with only "YES" if you should respond, or "NO" if you should stay quiet.`;
+      const surface = await this.getSurface(event.channel, event.channel_type);
+      const userName = await this.markup.getUserName(message.user);
+      const conversationHistory = await this.getConversationHistory(event.channel, message.thread_ts, message.ts);
 
-      const decision = await this.llmService.chat(contextPrompt);
-      const shouldRespond = decision.trim().toUpperCase().startsWith('YES');
-      
-      console.log(`[Bot] LLM decision for "${messageText.substring(0, 50)}...": ${shouldRespond ? 'RESPOND' : 'STAY_QUIET'}`);
-      return shouldRespond;
+      // Follow-ups go where the original reply went
+      const threadTs = message.thread_ts || (SURFACE_POLICIES[surface].replyInThread ? message.ts : undefined);
+
+      // The new answer can be stopped like any other, from the question or the earlier reply
+      request = this.inFlight.start(event.channel, message.ts, threadTs, message.user);
+      request.replyTs = replyTs;
+      let resolveMetadata: (metadata: Record<string, any>) => void = () => {};
+      const memoryMetadata = new Promise<Record<string, any>>(resolve => { resolveMetadata = resolve; });
+      try {
+        const response = await this.llmService.chat(
+          messageText,
+          conversationHistory,
+          event.channel,
+          message.user,
+          userName,
+          {},
+          memoryMetadata,
+          'high',
+          request.controller.signal
+        );
+
+        // The new answer may have fewer parts, so the old ones go before it is posted
+        await this.deleteReplyExtras(event.channel, memories.map(memory => memory.metadata));
+        const delivered = await this.deliverReply(response, event.channel, threadTs, async (formatted) => {
+          await this.app.client.chat.update({
+            channel: event.channel,
+            ts: replyTs,
+            text: formatted.text,
+            blocks: formatted.blocks,
+          });
+          return replyTs;
+        });
+        resolveMetadata(this.getReplyMetadata(message.ts, surface, delivered));
+      } catch (error) {
+        resolveMetadata(this.getReplyMetadata(message.ts, surface, { replyTs, followUpTs: [], fileIds: [] }));
+        throw error;
+      }
+
+      // The new answer is remembered on its own; the old question and answer are stale
+      for (const memory of memories) {
+        if (memory.id !== undefined) {
+          await memoryService.deleteMemory(memory.id);
+        }
+      }
+    } catch (error) {
+      if (request?.controller.signal.aborted) {
+        console.log(`[Bot] Stopped regenerating reply for edited message ${event.channel}-${message.ts}`);
+        return;
+      }
+      console.error(`[Bot] Error regenerating reply for edited message ${event.channel}-${message.ts}:`, error);
+    } finally {
+      if (request) {
+        this.inFlight.finish(request);
+      }
+    }
+  }
+
+  /**
+   * Deletes the follow-up messages and files of earlier replies, leaving their first messages
+   * @param channelId - Channel containing the replies
+   * @param metadata - Memory metadata of the replies, which lists what they were posted as
+   */
+  private async deleteReplyExtras(channelId: string, metadata: Array<Record<string, any> | undefined>): Promise<void> {
+    for (const ts of metadata.flatMap(entry => entry?.followUpTs ?? []) as string[]) {
+      try {
+        await this.app.client.chat.delete({ channel: channelId, ts });
+      } catch (error) {
+        console.warn(`[Bot] Failed to delete follow-up message ${channelId}-${ts}:`, error);
+      }
+    }
+    for (const fileId of metadata.flatMap(entry => entry?.fileIds ?? []) as string[]) {
+      try {
+        await this.app.client.files.delete({ file: fileId });
+      } catch (error) {
+        console.warn(`[Bot] Failed to delete reply file ${fileId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Builds the memory metadata that links a reply's messages back to its question
+   * @param sourceTs - Timestamp of the message being answered
+   * @param surface - Kind of conversation the reply went to
+   * @param delivered - Where the reply ended up
+   * @returns Metadata to store with the memory
+   */
+  private getReplyMetadata(sourceTs: string, surface: ConversationSurface, delivered: DeliveredReply): Record<string, any> {
+    return {
+      sourceTs,
+      surface,
+      ...(delivered.replyTs && { replyTs: delivered.replyTs }),
+      ...(delivered.followUpTs.length > 0 && { followUpTs: delivered.followUpTs }),
+      ...(delivered.fileIds.length > 0 && { fileIds: delivered.fileIds }),
+    };
+  }
+
+  /**
+   * Stops the reply still being generated for a deleted message, and forgets the memories created from it
+   * @param channelId - Channel containing the message
+   * @param sourceTs - Timestamp of the deleted message
+   */
+  private async forgetDeletedMessage(channelId: string, sourceTs: string): Promise<void> {
+    this.inFlight.cancelMessage(channelId, sourceTs, null);
+    try {
+      await this.llmService.getMemoryService().forgetMessage(channelId, sourceTs);
     } catch (error) {
-      console.error('[Bot] Error getting LLM decision for name mention:', error);
-      // Default to not responding if there's an error
+      console.error(`[Bot] Error forgetting deleted message ${channelId}-${sourceTs}:`, error);
+    }
+  }
+
+  /**
+   * Posts a reply formatted for Slack
+   * Replies over Slack's size limits continue in follow-up messages, and replies over
+   * RESPONSE_FILE_THRESHOLD are uploaded as a Markdown file with a short preview, posted once
+   * the upload succeeds; if it fails, the reply is posted in pieces instead
+   * Names the LLM wrote as "@Name" or "#channel" are posted as real Slack mentions
+   * @param response - Markdown reply from the LLM
+   * @param channelId - Slack channel ID to reply in
+   * @param threadTs - Thread to reply in, or undefined to reply in the channel itself
+   * @param postFirst - Posts the first message (or fills in the streaming placeholder) and returns its timestamp
+   * @returns Promise resolving to the messages and files the reply was posted as
+   */
+  private async deliverReply(
+    response: string,
+    channelId: string,
+    threadTs: string | undefined,
+    postFirst: (message: FormattedMessage) => Promise<string | undefined>
+  ): Promise<DeliveredReply> {
+    const slackText = this.markup.toSlack(response);
+
+    if (this.formatter.shouldUploadAsFile(response)) {
+      const fileIds = await this.uploadReply(response, channelId, threadTs);
+      if (fileIds) {
+        const replyTs = await postFirst(this.formatter.formatFileNotice(slackText));
+        return { replyTs, followUpTs: [], fileIds };
+      }
+    }
+
+    const [first, ...followUps] = this.formatter.format(slackText);
+    const replyTs = first ? await postFirst(first) : undefined;
+    const followUpTs = await this.postMessages(followUps, channelId, threadTs);
+    return { replyTs, followUpTs, fileIds: [] };
+  }
+
+  /**
+   * Uploads a reply as a Markdown file
+   * @param response - Markdown reply from the LLM
+   * @param channelId - Slack channel ID to upload to
+   * @param threadTs - Thread to upload to, or undefined to upload to the channel itself
+   * @returns Promise resolving to the uploaded file IDs, or null if the upload failed
+   */
+  private async uploadReply(response: string, channelId: string, threadTs: string | undefined): Promise<string[] | null> {
+    try {
+      // uploadV2 isn't typed beyond a generic result; it lists each completed upload's files
+      const result = await this.app.client.files.uploadV2({
+        channel_id: channelId,
+        content: response,
+        filename: `${appConfig.botName.toLowerCase().replace(/\s+/g, '-')}-response.md`,
+        title: `${appConfig.botName}'s full answer`,
+        snippet_type: 'markdown',
+        ...(threadTs && { thread_ts: threadTs }),
+      }) as { files?: Array<{ files?: Array<{ id?: string }> }> };
+      return (result.files ?? []).flatMap(upload => upload.files ?? []).flatMap(file => file.id ? [file.id] : []);
+    } catch (error) {
+      // Without files:write the reply can still be posted in pieces
+      console.warn('[Bot] Failed to upload reply as a file, posting it instead:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Posts formatted messages one after another
+   * @param messages - Messages to post
+   * @param channelId - Slack channel ID
+   * @param threadTs - Thread to post in, or undefined to post in the channel itself
+   * @returns Promise resolving to the timestamps of the posted messages
+   */
+  private async postMessages(
+    messages: FormattedMessage[],
+    channelId: string,
+    threadTs: string | undefined
+  ): Promise<string[]> {
+    const timestamps: string[] = [];
+    for (const message of messages) {
+      const result = await this.app.client.chat.postMessage({
+        channel: channelId,
+        text: message.text,
+        blocks: message.blocks,
+        ...(threadTs && { thread_ts: threadTs }),
+      });
+      if (result.ts) {
+        timestamps.push(result.ts);
+      }
+    }
+    return timestamps;
+  }
+
+  /**
+   * Checks whether a message asks Aidan to stop following a thread
+   * @param text - The message text to analyze
+   * @param requireName - Whether the bot name (or an alias) must prefix the request (e.g. "aidan, leave")
+   * @returns Whether the message is a leave request
+   */
+  private isLeaveRequest(text: string, requireName: boolean): boolean {
+    const names = this.nameMatcher.alternation();
+    const namePrefix = requireName ? `${names}[\\s,:!-]+` : `(?:${names}[\\s,:!-]+)?`;
+    const leavePattern = new RegExp(
+      `^\\s*${namePrefix}(?:please\\s+)?(?:leave|go away|unfollow|stop following)(?:\\s+(?:this\\s+)?thread)?(?:\\s+please)?[\\s.!]*$`,
+      'i'
+    );
+    return leavePattern.test(text);
+  }
+
+  /**
+   * Checks whether a message asks Aidan to stop the reply it is working on
+   * @param text - The message text to analyze
+   * @returns Whether the message is a stop request
+   */
+  private isStopRequest(text: string): boolean {
+    const stopPattern = new RegExp(
+      `^\\s*(?:${this.nameMatcher.alternation()}[\\s,:!-]+)?(?:please\\s+)?(?:stop|cancel|abort|never\\s*mind|nvm)(?:\\s+(?:it|that|this|now))?(?:\\s+please)?[\\s.!]*$`,
+      'i'
+    );
+    return stopPattern.test(text);
+  }
+
+  /**
+   * Stops the replies a user is waiting for in a conversation, if their message asks for it
+   * A stop request with nothing to stop is left to the usual handling
+   * @param text - The message text
+   * @param channelId - Slack channel ID
+   * @param threadTs - Thread the message was posted in, or undefined for the whole conversation
+   * @param userId - Slack user ID of the sender
+   * @param ts - Timestamp of the message, claimed so no other handler answers it
+   * @returns Whether replies were stopped
+   */
+  private stopRequested(text: string, channelId: string, threadTs: string | undefined, userId: string, ts?: string): boolean {
+    if (!this.isStopRequest(text)) {
+      return false;
+    }
+
+    const stopped = this.inFlight.cancelConversation(channelId, threadTs, userId);
+    if (stopped === 0) {
       return false;
     }
+    if (ts) {
+      this.deduplicator.claimMessage(channelId, ts);
+    }
+    console.log(`[Bot] ${userId} stopped ${stopped} repl${stopped === 1 ? 'y' : 'ies'} in ${channelId}${threadTs ? `-${threadTs}` : ''}`);
+    return true;
+  }
+
+  /**
+   * Stops following a thread and lets the participants know
+   * @param channelId - Slack channel ID
+   * @param threadTs - Thread timestamp
+   * @param say - Bolt say function for the current event
+   */
+  private async leaveThread(
+    channelId: string,
+    threadTs: string,
+    say: SayFn
+  ): Promise<void> {
+    const wasActive = this.threadTracker.leave(channelId, threadTs);
+    await say({
+      text: wasActive
+        ? `👋 Got it, I'll stay out of this thread. Mention me if you need me again.`
+        : `I wasn't following this thread, but noted. Mention me if you need me.`,
+      thread_ts: threadTs,
+    });
   }
 
   /**
@@ -424,11 +1180,12 @@ Respond with only "YES" if you should respond, or "NO" if you should stay quiet.
    */
   async start(): Promise<void> {
     try {
-      console.log('[Bot] Starting Aidan Slack Bot...');
+      console.log(`[Bot] Starting ${appConfig.botName} Slack Bot...`);
       
-      // Test LLM connection
+      // Test LLM connection, then keep checking every endpoint in the background
       console.log(`[Bot] Testing ${appConfig.llmProvider} connection...`);
       await this.llmService.testConnection();
+      this.llmService.startHealthChecks();
       
       // Get available models for logging
       try {
@@ -438,13 +1195,30 @@ Respond with only "YES" if you should respond, or "NO" if you should stay quiet.
         console.warn('[Bot] Could not retrieve available models:', error);
       }
 
+      // Restore threads Aidan was following before the restart
+      await this.threadTracker.load();
+
       // Start the Slack app
       await this.app.start();
+
+      // Resolve Aidan's own identity so its messages can be told apart in history
+      try {
+        const auth = await this.app.client.auth.test();
+        this.botUserId = auth.user_id;
+        this.botId = auth.bot_id;
+        this.nameMatcher.setBotUserId(auth.user_id);
+        this.markup.setBotUserId(auth.user_id);
+        console.log(`[Bot] Resolved bot identity: user ${this.botUserId}, bot ${this.botId}`);
+      } catch (error) {
+        console.warn('[Bot] Could not resolve bot identity:', error);
+      }
       
-      console.log(`🚀 Aidan Slack Bot is running!`);
-      console.log(`📡 Bot name: ${appConfig.botName}`);
-      console.log(`🧠 ${appConfig.llmProvider} model: ${appConfig.llmModel}`);
-      console.log(`🔗 ${appConfig.llmProvider} URL: ${appConfig.llmBaseUrl}`);
+      console.log(`🚀 ${appConfig.botName} Slack Bot is running!`);
+      console.log(`📡 Bot name: ${appConfig.botName}${appConfig.botAliases.length > 0 ? ` (aliases: ${appConfig.botAliases.join(', ')})` : ''}`);
+      console.log(`🧠 ${appConfig.llmProvider} model: ${appConfig.llmModel} (classifier: ${appConfig.models.classifier.model}${appConfig.models.code ? `, code: ${appConfig.models.code.model}` : ''})`);
+      console.log(`🔗 ${appConfig.llmProvider} URL${appConfig.llmBaseUrls.length > 1 ? 's' : ''}: ${appConfig.llmBaseUrls.join(', ')}`);
+      console.log(`🎭 Personas: ${Object.keys(appConfig.personas).join(', ')} (default: ${appConfig.defaultPersona})`);
+      console.log(`📝 Prompts: ${this.llmService.getPrompts().getTemplates().map(({ name, version }) => `${name}@${version}`).join(', ')}${appConfig.promptsHotReload ? ' (hot reload on)' : ''}`);
       console.log(`⚡ Ready to respond to mentions and DMs!`);
     } catch (error) {
       console.error('[Bot] Failed to start:', error);
@@ -457,6 +1231,9 @@ Respond with only "YES" if you should respond, or "NO" if you should stay quiet.
    */
   async stop(): Promise<void> {
     try {
+      this.llmService.stopHealthChecks();
+      this.llmService.getPrompts().close();
+      await this.llmService.getUsageService().close();
       await this.app.stop();
       console.log('[Bot] Stopped successfully');
     } catch (error) {
@@ -0,0 +1,495 @@
+import { App, KnownBlock, RespondFn, SlashCommand } from '@slack/bolt';
+import { MemoryService } from '../services/memory';
+import { PersonaService } from '../services/personas';
+import { UsageService } from '../services/usage';
+import { MemoryEntry, PersonaProfile, UsageDimension, UsageSummaryRow } from '../types';
+import { appConfig } from '../config';
+
+/**
+ * Number of memories listed by the recent subcommand
+ */
+const RECENT_LIMIT = 10;
+
+/**
+ * Maximum characters of a memory's input or response shown in a listing
+ */
+const PREVIEW_LENGTH = 200;
+
+/**
+ * Period covered by usage reports unless another number of days is given, and the longest allowed
+ */
+const USAGE_DEFAULT_DAYS = 7;
+const USAGE_MAX_DAYS = 365;
+
+/**
+ * Number of rows in a usage report
+ */
+const USAGE_REPORT_LIMIT = 15;
+
+/**
+ * What usage reports can be grouped by, as typed after the subcommand
+ */
+const USAGE_DIMENSIONS: UsageDimension[] = ['user', 'channel', 'model', 'phase', 'day'];
+
+/**
+ * Handler for the /aidan slash command
+ * Exposes memory inspection and bot administration as ephemeral Block Kit messages
+ */
+export class AidanCommand {
+  private memoryService: MemoryService;
+  private personaService: PersonaService;
+  private usageService: UsageService;
+
+  /**
+   * Creates a new AidanCommand instance
+   * @param memoryService - Memory service to inspect and manage
+   * @param personaService - Persona service to assign personas with
+   * @param usageService - Usage accounting service to report from
+   */
+  constructor(memoryService: MemoryService, personaService: PersonaService, usageService: UsageService) {
+    this.memoryService = memoryService;
+    this.personaService = personaService;
+    this.usageService = usageService;
+  }
+
+  /**
+   * Registers the slash command (/aidan by default) with the Slack app
+   * @param app - Bolt app instance
+   */
+  register(app: App): void {
+    app.command(appConfig.slashCommand, async ({ command, ack, respond, client }) => {
+      await ack();
+
+      const [subcommand = 'help', ...rest] = command.text.trim().split(/\s+/);
+      const args = rest.join(' ');
+      console.log(`[AidanCommand] ${command.user_id} ran "${appConfig.slashCommand} ${subcommand}"`);
+
+      try {
+        const blocks = await this.runSubcommand(subcommand.toLowerCase(), args, command, client);
+        await this.reply(respond, blocks);
+      } catch (error) {
+        console.error(`[AidanCommand] Error running "${subcommand}":`, error);
+        await this.reply(respond, [this.section(`❌ Something went wrong: ${error instanceof Error ? error.message : error}`)]);
+      }
+    });
+  }
+
+  /**
+   * Dispatches a subcommand to its handler
+   * @param subcommand - Lowercased subcommand name
+   * @param args - Remaining command text
+   * @param command - Slash command payload
+   * @param client - Slack Web API client, for permission checks
+   * @returns Promise resolving to the blocks to show
+   */
+  private async runSubcommand(subcommand: string, args: string, command: SlashCommand, client: App['client']): Promise<KnownBlock[]> {
+    switch (subcommand) {
+      case 'stats':
+        return this.stats();
+      case 'recall':
+        return this.recall(args, command.channel_id);
+      case 'recent':
+        return this.recent(command.channel_id);
+      case 'forget':
+        return this.forget(args, command.user_id);
+      case 'maintenance':
+        return this.maintenance(command.user_id);
+      case 'persona':
+        return this.persona(args, command, client);
+      case 'usage':
+        return this.usage(args, command.user_id);
+      case 'help':
+        return this.help();
+      default:
+        return [this.section(`🤷 Unknown subcommand \`${subcommand}\`.`), ...this.help()];
+    }
+  }
+
+  /**
+   * Shows memory system statistics
+   */
+  private async stats(): Promise<KnownBlock[]> {
+    const stats = await this.memoryService.getStats();
+
+    return [
+      this.header('🧠 Memory Stats'),
+      {
+        type: 'section',
+        fields: [
+          { type: 'mrkdwn', text: `*Total memories:*\n${stats.totalMemories}` },
+          { type: 'mrkdwn', text: `*Similarity threshold:*\n${stats.similarityThreshold}` },
+          { type: 'mrkdwn', text: `*Embeddings:*\n\`${stats.embeddingsModel}\` (${stats.embeddingsProvider})` },
+          { type: 'mrkdwn', text: `*Chat model:*\n\`${appConfig.llmModel}\` (${appConfig.llmProvider})` },
+          { type: 'mrkdwn', text: `*Classifier model:*\n\`${appConfig.models.classifier.model}\`` },
+          ...(appConfig.models.code ? [{ type: 'mrkdwn' as const, text: `*Code model:*\n\`${appConfig.models.code.model}\`` }] : []),
+        ],
+      },
+      {
+        type: 'section',
+        fields: [
+          { type: 'mrkdwn', text: `*Feedback:*\n👍 ${stats.feedback.upvotes} • 👎 ${stats.feedback.downvotes}` },
+          { type: 'mrkdwn', text: `*Rated memories:*\n${stats.feedback.ratedMemories} (${stats.feedback.hiddenMemories} hidden)` },
+        ],
+      },
+      this.context(`Database: \`${stats.databasePath}\``),
+    ];
+  }
+
+  /**
+   * Searches memories semantically
+   * @param query - Search query
+   * @param channelId - Channel the command was run in; other private conversations are not searched
+   */
+  private async recall(query: string, channelId: string): Promise<KnownBlock[]> {
+    if (!query) {
+      return [this.section(`Usage: \`${appConfig.slashCommand} recall <query>\``)];
+    }
+
+    const results = await this.memoryService.searchMemories(query, undefined, undefined, undefined, channelId);
+    if (results.length === 0) {
+      return [this.section(`🔍 Nothing I remember matches _${query}_.`)];
+    }
+
+    return [
+      this.header(`🔍 Memories matching "${this.truncate(query, 100)}"`),
+      ...results.flatMap(({ entry, similarity }) => this.memoryBlocks(entry, `similarity ${similarity.toFixed(3)}`)),
+    ];
+  }
+
+  /**
+   * Lists the most recently stored memories
+   * @param channelId - Channel the command was run in; other private conversations are not listed
+   */
+  private async recent(channelId: string): Promise<KnownBlock[]> {
+    const memories = await this.memoryService.getRecentMemories(undefined, undefined, RECENT_LIMIT, 0, channelId);
+    if (memories.length === 0) {
+      return [this.section('🫙 I don\'t remember anything yet.')];
+    }
+
+    return [
+      this.header(`🕑 ${memories.length} most recent memories`),
+      ...memories.flatMap(entry => this.memoryBlocks(entry)),
+    ];
+  }
+
+  /**
+   * Deletes a memory; only its owner or an admin may do so
+   * @param idText - Memory ID as typed by the user
+   * @param userId - Slack user ID of the requester
+   */
+  private async forget(idText: string, userId: string): Promise<KnownBlock[]> {
+    if (!/^\d+$/.test(idText)) {
+      return [this.section(`Usage: \`${appConfig.slashCommand} forget <id>\` (find IDs with \`recall\` or \`recent\`)`)];
+    }
+
+    const id = Number.parseInt(idText, 10);
+    const memory = await this.memoryService.getMemory(id);
+    if (!memory) {
+      return [this.section(`🤔 There is no memory #${id}.`)];
+    }
+
+    if (memory.userId !== userId && !this.isAdmin(userId)) {
+      return [this.section(`🚫 Memory #${id} belongs to someone else. Only they or an admin can delete it.`)];
+    }
+
+    const deleted = await this.memoryService.deleteMemory(id);
+    return [this.section(deleted ? `🗑️ Forgot memory #${id}.` : `🤔 Memory #${id} was already gone.`)];
+  }
+
+  /**
+   * Runs database maintenance; admins only
+   * @param userId - Slack user ID of the requester
+   */
+  private async maintenance(userId: string): Promise<KnownBlock[]> {
+    if (!this.isAdmin(userId)) {
+      return [this.section('🚫 Only admins can run maintenance.')];
+    }
+
+    await this.memoryService.performMaintenance();
+    return [this.section('🧹 Maintenance complete. The database has been vacuumed and analyzed.')];
+  }
+
+  /**
+   * Lists personas, or assigns one to the channel (or the user's DMs when run in a DM)
+   * Channel personas can be changed by admins, workspace admins and owners, and the channel's creator
+   * @param args - "list", "set <name>" or "clear"
+   * @param command - Slash command payload
+   * @param client - Slack Web API client, for permission checks
+   */
+  private async persona(args: string, command: SlashCommand, client: App['client']): Promise<KnownBlock[]> {
+    const [action = 'list', name = ''] = args.split(/\s+/).filter(Boolean);
+    const inDm = command.channel_id.startsWith('D');
+    const scopeId = inDm ? command.user_id : command.channel_id;
+    const scopeLabel = inDm ? 'your DMs with me' : `<#${command.channel_id}>`;
+
+    switch (action.toLowerCase()) {
+      case 'list':
+        return this.listPersonas(scopeId, scopeLabel);
+      case 'set':
+      case 'clear':
+        break;
+      default:
+        return [this.section(`Usage: \`${appConfig.slashCommand} persona [list | set <name> | clear]\``)];
+    }
+
+    if (!inDm && !(await this.canManageChannel(command.user_id, command.channel_id, client))) {
+      return [this.section('🚫 Only admins and the channel\'s creator can change its persona.')];
+    }
+
+    if (action.toLowerCase() === 'clear') {
+      const cleared = await this.personaService.clear(scopeId, command.user_id);
+      const fallback = this.personaService.getDefaultPersona().name;
+      return [this.section(cleared ? `🎭 Back to the *${fallback}* persona in ${scopeLabel}.` : `🤔 ${scopeLabel} already uses the *${fallback}* persona.`)];
+    }
+
+    if (!name) {
+      return [this.section(`Usage: \`${appConfig.slashCommand} persona set <name>\``)];
+    }
+    if (!this.personaService.getPersona(name)) {
+      return [this.section(`🤷 There is no persona \`${name}\`.`), ...(await this.listPersonas(scopeId, scopeLabel))];
+    }
+
+    const persona = await this.personaService.assign(scopeId, name, command.user_id);
+    return [this.section(`🎭 I'll answer as *${persona.name}* in ${scopeLabel} from now on.`)];
+  }
+
+  /**
+   * Lists the configured personas, marking the one in use
+   * @param scopeId - Channel ID, or user ID for DMs
+   * @param scopeLabel - How to refer to the channel or DMs
+   */
+  private async listPersonas(scopeId: string, scopeLabel: string): Promise<KnownBlock[]> {
+    const assignment = await this.personaService.getAssignment(scopeId);
+    const current = (assignment && this.personaService.getPersona(assignment.persona)) || this.personaService.getDefaultPersona();
+
+    return [
+      this.header('🎭 Personas'),
+      this.section(this.personaService.listPersonas().map(persona => this.describePersona(persona, persona.name === current.name)).join('\n')),
+      this.context(assignment
+        ? `${scopeLabel} uses *${current.name}*, set by <@${assignment.assignedBy}> on ${new Date(assignment.assignedAt).toISOString().substring(0, 10)}`
+        : `${scopeLabel} uses the default persona, *${current.name}*`),
+      this.context(`Change it with \`${appConfig.slashCommand} persona set <name>\` or \`${appConfig.slashCommand} persona clear\``),
+    ];
+  }
+
+  /**
+   * Describes a persona in one line: its name, description and generation settings
+   * @param persona - Persona to describe
+   * @param current - Whether the persona is in use where the command was run
+   */
+  private describePersona(persona: PersonaProfile, current: boolean): string {
+    const settings = [
+      ...(persona.temperature !== undefined ? [`temperature ${persona.temperature}`] : []),
+      ...(persona.topP !== undefined ? [`top_p ${persona.topP}`] : []),
+      ...(persona.maxTokens !== undefined ? [`max ${persona.maxTokens} tokens`] : []),
+      ...(persona.contextLength !== undefined ? [`num_ctx ${persona.contextLength}`] : []),
+    ];
+
+    return `${current ? '▶️' : '•'} \`${persona.name}\`${persona.description ? ` – ${persona.description}` : ''}${settings.length > 0 ? ` _(${settings.join(', ')})_` : ''}`;
+  }
+
+  /**
+   * Checks whether a user may change a channel's settings: admins, workspace admins and owners, and the channel's creator
+   * @param userId - Slack user ID
+   * @param channelId - Slack channel ID
+   * @param client - Slack Web API client
+   */
+  private async canManageChannel(userId: string, channelId: string, client: App['client']): Promise<boolean> {
+    if (this.isAdmin(userId)) {
+      return true;
+    }
+
+    try {
+      const { user } = await client.users.info({ user: userId });
+      if (user?.is_admin || user?.is_owner) {
+        return true;
+      }
+
+      const { channel } = await client.conversations.info({ channel: channelId });
+      return channel?.creator === userId;
+    } catch (error) {
+      console.warn(`[AidanCommand] Failed to check whether ${userId} manages ${channelId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Reports token usage and latency; admins see everyone's, grouped as asked, others their own totals
+   * @param args - Optional grouping (user, channel, model, phase or day) and number of days, in any order
+   * @param userId - Slack user ID of the requester
+   */
+  private async usage(args: string, userId: string): Promise<KnownBlock[]> {
+    let groupBy: UsageDimension = 'user';
+    let days = USAGE_DEFAULT_DAYS;
+    for (const arg of args.toLowerCase().split(/\s+/).filter(Boolean)) {
+      const dimension = USAGE_DIMENSIONS.find(candidate => arg === candidate || arg === `${candidate}s`);
+      if (dimension) {
+        groupBy = dimension;
+      } else if (/^\d+d?$/.test(arg) && Number.parseInt(arg, 10) > 0) {
+        days = Math.min(Number.parseInt(arg, 10), USAGE_MAX_DAYS);
+      } else {
+        return [this.section(`Usage: \`${appConfig.slashCommand} usage [${USAGE_DIMENSIONS.join(' | ')}] [days]\``)];
+      }
+    }
+    const period = days === 1 ? 'the last day' : `the last ${days} days`;
+
+    if (!this.isAdmin(userId)) {
+      const totals = await this.usageService.getTotals(days, userId);
+      return [
+        this.header('⚡ Your usage'),
+        this.section(totals.calls > 0 ? this.describeUsage(totals) : `You haven't used me in ${period}.`),
+        this.context(`Over ${period}. Only admins can see everyone's usage.`),
+      ];
+    }
+
+    const [totals, rows] = await Promise.all([
+      this.usageService.getTotals(days),
+      this.usageService.getSummary(groupBy, days, USAGE_REPORT_LIMIT),
+    ]);
+    if (rows.length === 0) {
+      return [this.section(`📭 No model calls in ${period}.`)];
+    }
+
+    return [
+      this.header(`⚡ Usage by ${groupBy}`),
+      this.section(rows.map(row => `• ${this.describeUsageKey(row.key, groupBy)} – ${this.describeUsage(row)}`).join('\n')),
+      this.context(`*Total over ${period}:* ${this.describeUsage(totals)}`),
+      this.context(`Group by ${USAGE_DIMENSIONS.map(dimension => `\`${dimension}\``).join(', ')} and pick the period, e.g. \`${appConfig.slashCommand} usage phase 30\`. Token counts are as reported by the servers.`),
+    ];
+  }
+
+  /**
+   * Renders what a usage row is for: a user or channel mention, a model, a phase or a day
+   */
+  private describeUsageKey(key: string, groupBy: UsageDimension): string {
+    if (!key) {
+      return '_unknown_';
+    }
+    switch (groupBy) {
+      case 'user':
+        return `<@${key}>`;
+      case 'channel':
+        return key.startsWith('D') ? 'a DM' : `<#${key}>`;
+      case 'model':
+        return `\`${key}\``;
+      default:
+        return `*${key}*`;
+    }
+  }
+
+  /**
+   * Summarizes a usage row in one line: calls, tokens, latency and generation speed
+   */
+  private describeUsage(row: UsageSummaryRow): string {
+    const parts = [
+      `${row.calls} call${row.calls === 1 ? '' : 's'}`,
+      `${this.formatCount(row.promptTokens)} prompt + ${this.formatCount(row.completionTokens)} generated tokens`,
+      `avg ${this.formatDuration(row.averageLatencyMs)} (max ${this.formatDuration(row.maxLatencyMs)})`,
+      ...(row.tokensPerSecond ? [`${row.tokensPerSecond.toFixed(1)} tok/s`] : []),
+    ];
+    return parts.join(' • ');
+  }
+
+  /**
+   * Formats a token count compactly (e.g. 12.3k)
+   */
+  private formatCount(count: number): string {
+    if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+    if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+    return String(count);
+  }
+
+  /**
+   * Formats a duration in milliseconds (e.g. 850ms, 4.2s)
+   */
+  private formatDuration(ms: number): string {
+    return ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`;
+  }
+
+  /**
+   * Lists the available subcommands
+   */
+  private help(): KnownBlock[] {
+    return [
+      this.header(`🤖 ${appConfig.slashCommand} commands`),
+      this.section([
+        `\`${appConfig.slashCommand} stats\` – memory statistics`,
+        `\`${appConfig.slashCommand} recall <query>\` – search what I remember`,
+        `\`${appConfig.slashCommand} recent\` – the latest memories`,
+        `\`${appConfig.slashCommand} forget <id>\` – delete one of your memories`,
+        `\`${appConfig.slashCommand} maintenance\` – compact the memory database (admins only)`,
+        `\`${appConfig.slashCommand} persona [list | set <name> | clear]\` – choose how I answer here (channel admins, or anyone in DMs)`,
+        `\`${appConfig.slashCommand} usage [user | channel | model | phase | day] [days]\` – token usage and latency (your own, or everyone's for admins)`,
+        `\`${appConfig.slashCommand} help\` – this message`,
+      ].join('\n')),
+    ];
+  }
+
+  /**
+   * Checks whether a user may run administrative commands
+   * @param userId - Slack user ID
+   */
+  private isAdmin(userId: string): boolean {
+    return appConfig.adminUserIds.includes(userId);
+  }
+
+  /**
+   * Sends an ephemeral Block Kit reply
+   */
+  private async reply(respond: RespondFn, blocks: KnownBlock[]): Promise<void> {
+    await respond({
+      response_type: 'ephemeral',
+      text: appConfig.botName, // Fallback for notifications
+      blocks,
+    });
+  }
+
+  /**
+   * Renders a memory entry as a section with a context line
+   * @param entry - Memory entry to render
+   * @param detail - Optional extra detail for the context line
+   */
+  private memoryBlocks(entry: MemoryEntry, detail?: string): KnownBlock[] {
+    const userLabel = entry.userName || 'User';
+    const date = new Date(entry.timestamp).toISOString().replace('T', ' ').substring(0, 16);
+    const contextParts = [`#${entry.id}`, date, ...(entry.channelId ? [`<#${entry.channelId}>`] : []), ...(detail ? [detail] : [])];
+
+    const text = entry.metadata?.userAsserted
+      ? `*${userLabel} asked me to remember:* ${this.truncate(entry.userInput, PREVIEW_LENGTH)}`
+      : `*${userLabel}:* ${this.truncate(entry.userInput, PREVIEW_LENGTH)}\n*${appConfig.botName}:* ${this.truncate(entry.botResponse, PREVIEW_LENGTH)}`;
+
+    return [
+      this.section(text),
+      this.context(contextParts.join(' • ')),
+    ];
+  }
+
+  /**
+   * Builds a header block
+   */
+  private header(text: string): KnownBlock {
+    return { type: 'header', text: { type: 'plain_text', text: this.truncate(text, 150), emoji: true } };
+  }
+
+  /**
+   * Builds a mrkdwn section block
+   */
+  private section(text: string): KnownBlock {
+    return { type: 'section', text: { type: 'mrkdwn', text } };
+  }
+
+  /**
+   * Builds a mrkdwn context block
+   */
+  private context(text: string): KnownBlock {
+    return { type: 'context', elements: [{ type: 'mrkdwn', text }] };
+  }
+
+  /**
+   * Shortens text to a maximum length, adding an ellipsis when cut
+   */
+  private truncate(text: string, maxLength: number): string {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    return singleLine.length > maxLength ? `${singleLine.substring(0, maxLength - 1)}…` : singleLine;
+  }
+}
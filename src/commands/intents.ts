@@ -0,0 +1,294 @@
+import { App, BlockAction, ButtonAction, KnownBlock, SayFn } from '@slack/bolt';
+import { MemoryService } from '../services/memory';
+import { MemoryEntry, MemoryIntent, MemoryIntentContext, MemorySearchResult } from '../types';
+import { appConfig } from '../config';
+
+type SlackClient = App['client'];
+
+/**
+ * Maximum number of memories offered for deletion by one forget request
+ */
+const FORGET_LIMIT = 5;
+
+/**
+ * Maximum number of memories listed by one recall request
+ */
+const RECALL_LIMIT = 10;
+
+/**
+ * Maximum characters of a memory's input or response shown in a listing
+ */
+const PREVIEW_LENGTH = 300;
+
+/**
+ * Handles "remember that …", "forget …" and "what do you remember about …" without the LLM
+ * Facts are stored and acknowledged with a ✅ reaction; deletions need a confirming button
+ * press from the memory's owner or an admin; recall lists the matching memories as they are
+ */
+export class MemoryIntentHandler {
+  private memoryService: MemoryService;
+
+  /**
+   * Creates a new MemoryIntentHandler instance
+   * @param memoryService - Memory service to store, search and delete memories with
+   */
+  constructor(memoryService: MemoryService) {
+    this.memoryService = memoryService;
+  }
+
+  /**
+   * Registers the confirm and cancel buttons of forget requests with the Slack app
+   * @param app - Bolt app instance
+   */
+  register(app: App): void {
+    app.action<BlockAction<ButtonAction>>(/^intent_forget_(\d+|all)$/, async ({ ack, body, action, respond }) => {
+      await ack();
+
+      const ids = (action.value || '').split(',').map(Number).filter(Number.isInteger);
+      try {
+        const forgotten = await this.forgetMemories(ids, body.user.id);
+        await respond({
+          replace_original: true,
+          text: forgotten.length > 0
+            ? `🗑️ Forgot ${forgotten.length === 1 ? `memory #${forgotten[0]}` : `${forgotten.length} memories (${forgotten.map(id => `#${id}`).join(', ')})`}.`
+            : '🤔 Those memories were already gone.',
+        });
+      } catch (error) {
+        console.error(`[Intents] Error forgetting memories ${ids.join(', ')}:`, error);
+        await respond({ replace_original: true, text: '❌ Something went wrong while forgetting. Please try again.' });
+      }
+    });
+
+    app.action<BlockAction<ButtonAction>>('intent_forget_cancel', async ({ ack, respond }) => {
+      await ack();
+      await respond({ delete_original: true });
+    });
+  }
+
+  /**
+   * Carries out a memory request
+   * @param intent - The parsed request
+   * @param context - Where the request was made and by whom
+   * @param say - Bolt say function for the current event
+   * @param client - Slack Web API client
+   * @returns Promise that resolves once the request is handled
+   */
+  async handle(intent: MemoryIntent, context: MemoryIntentContext, say: SayFn, client: SlackClient): Promise<void> {
+    console.log(`[Intents] ${context.userId} asked to ${intent.kind} in ${context.channelId}`);
+
+    switch (intent.kind) {
+      case 'remember':
+        return this.remember(intent.fact, context, client);
+      case 'forget':
+        return this.offerToForget(intent.query, context, client);
+      case 'recall':
+        return this.recall(intent.query, context, say);
+    }
+  }
+
+  /**
+   * Stores a fact the user stated and reacts with ✅, unless the user opted out of memory
+   */
+  private async remember(fact: string, context: MemoryIntentContext, client: SlackClient): Promise<void> {
+    const preferences = await this.memoryService.getUserPreferences(context.userId);
+    if (preferences.memoryOptOut) {
+      await client.chat.postEphemeral({
+        channel: context.channelId,
+        user: context.userId,
+        text: '🙈 You\'ve turned memory off in my Home tab, so I won\'t store that.',
+        ...(context.threadTs && { thread_ts: context.threadTs }),
+      });
+      return;
+    }
+
+    // Deleting the message later forgets the fact, like any other memory
+    const entry = await this.memoryService.storeMemory(fact, '', context.channelId, context.userId, {
+      userName: context.userName,
+      surface: context.surface,
+      sourceTs: context.ts,
+      userAsserted: true,
+    });
+    console.log(`[Intents] Stored fact from ${context.userId} as memory ${entry.id}`);
+
+    await client.reactions.add({ channel: context.channelId, timestamp: context.ts, name: 'white_check_mark' });
+  }
+
+  /**
+   * Finds memories matching a query and privately offers to delete the ones the user may delete
+   * Memories hidden by negative feedback are offered too, as they are still stored
+   */
+  private async offerToForget(query: string, context: MemoryIntentContext, client: SlackClient): Promise<void> {
+    const results = await this.memoryService.searchMemories(query, undefined, undefined, FORGET_LIMIT, context.channelId, true);
+    const deletable = results.filter(({ entry }) => entry.userId === context.userId || this.isAdmin(context.userId));
+
+    let blocks: KnownBlock[];
+    if (deletable.length === 0) {
+      blocks = [this.section(results.length > 0
+        ? `🔒 What I remember about _${this.truncate(query, 100)}_ belongs to other people. Only they or an admin can delete it.`
+        : `🤷 I don't remember anything about _${this.truncate(query, 100)}_.`)];
+    } else {
+      blocks = [
+        this.section(`🧹 Here's what I remember about _${this.truncate(query, 100)}_. Pick what to forget:`),
+        ...deletable.flatMap(result => this.forgetBlocks(result)),
+        {
+          type: 'actions',
+          elements: [
+            ...(deletable.length > 1 ? [{
+              type: 'button' as const,
+              action_id: 'intent_forget_all',
+              text: { type: 'plain_text' as const, text: `Forget all ${deletable.length}`, emoji: true },
+              style: 'danger' as const,
+              value: deletable.map(({ entry }) => entry.id).join(','),
+              confirm: this.confirmDialog(`I will permanently forget these ${deletable.length} memories.`),
+            }] : []),
+            {
+              type: 'button',
+              action_id: 'intent_forget_cancel',
+              text: { type: 'plain_text', text: 'Keep everything', emoji: true },
+            },
+          ],
+        },
+      ];
+    }
+
+    await client.chat.postEphemeral({
+      channel: context.channelId,
+      user: context.userId,
+      text: `Memories about ${query}`, // Fallback for notifications
+      blocks,
+      ...(context.threadTs && { thread_ts: context.threadTs }),
+    });
+  }
+
+  /**
+   * Lists the memories matching a query in the conversation
+   */
+  private async recall(query: string, context: MemoryIntentContext, say: SayFn): Promise<void> {
+    const results = await this.memoryService.searchMemories(query, undefined, undefined, RECALL_LIMIT, context.channelId);
+    const thread = context.threadTs ? { thread_ts: context.threadTs } : {};
+
+    if (results.length === 0) {
+      await say({ text: `🤷 I don't remember anything about _${this.truncate(query, 100)}_.`, ...thread });
+      return;
+    }
+
+    await say({
+      text: `Here's what I remember about ${query}`, // Fallback for notifications
+      blocks: [
+        this.section(`🧠 Here's what I remember about _${this.truncate(query, 100)}_:`),
+        ...results.flatMap(({ entry, similarity }) => [
+          this.section(this.describeMemory(entry)),
+          this.context(this.describeOrigin(entry, similarity)),
+        ]),
+      ],
+      ...thread,
+    });
+  }
+
+  /**
+   * Deletes memories the user may delete: their own, or any if they are an admin
+   * @param ids - Memory IDs
+   * @param userId - Slack user ID of the requester
+   * @returns Promise resolving to the IDs that were deleted
+   */
+  private async forgetMemories(ids: number[], userId: string): Promise<number[]> {
+    const forgotten: number[] = [];
+    for (const id of ids) {
+      const memory = await this.memoryService.getMemory(id);
+      if (!memory) continue;
+
+      if (memory.userId !== userId && !this.isAdmin(userId)) {
+        console.warn(`[Intents] ${userId} tried to forget memory ${id} they don't own`);
+        continue;
+      }
+      if (await this.memoryService.deleteMemory(id)) {
+        forgotten.push(id);
+      }
+    }
+
+    console.log(`[Intents] ${userId} forgot ${forgotten.length} of ${ids.length} memories`);
+    return forgotten;
+  }
+
+  /**
+   * Renders a memory offered for deletion, with its own forget button
+   */
+  private forgetBlocks({ entry, similarity }: MemorySearchResult): KnownBlock[] {
+    return [
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: this.describeMemory(entry) },
+        accessory: {
+          type: 'button',
+          action_id: `intent_forget_${entry.id}`,
+          text: { type: 'plain_text', text: 'Forget', emoji: true },
+          style: 'danger',
+          value: String(entry.id),
+          confirm: this.confirmDialog('I will permanently forget this memory.'),
+        },
+      },
+      this.context(this.describeOrigin(entry, similarity)),
+    ];
+  }
+
+  /**
+   * Describes a memory: a stated fact, or a question and its answer
+   */
+  private describeMemory(entry: MemoryEntry): string {
+    const userLabel = entry.userName || 'User';
+    if (entry.metadata?.userAsserted) {
+      return `*${userLabel} asked me to remember:* ${this.truncate(entry.userInput, PREVIEW_LENGTH)}`;
+    }
+    return `*${userLabel}:* ${this.truncate(entry.userInput, PREVIEW_LENGTH)}\n*${appConfig.botName}:* ${this.truncate(entry.botResponse, PREVIEW_LENGTH)}`;
+  }
+
+  /**
+   * Describes where and when a memory was stored, and how well it matched
+   */
+  private describeOrigin(entry: MemoryEntry, similarity: number): string {
+    const date = `<!date^${Math.floor(entry.timestamp / 1000)}^{date_short_pretty}|${new Date(entry.timestamp).toISOString().substring(0, 10)}>`;
+    return [`#${entry.id}`, date, ...(entry.channelId ? [`<#${entry.channelId}>`] : []), `similarity ${similarity.toFixed(2)}`].join(' • ');
+  }
+
+  /**
+   * Builds the confirmation dialog of a forget button
+   */
+  private confirmDialog(text: string) {
+    return {
+      title: { type: 'plain_text' as const, text: 'Forget?' },
+      text: { type: 'mrkdwn' as const, text },
+      confirm: { type: 'plain_text' as const, text: 'Forget' },
+      deny: { type: 'plain_text' as const, text: 'Keep' },
+    };
+  }
+
+  /**
+   * Checks whether a user may delete anyone's memories
+   * @param userId - Slack user ID
+   */
+  private isAdmin(userId: string): boolean {
+    return appConfig.adminUserIds.includes(userId);
+  }
+
+  /**
+   * Builds a mrkdwn section block
+   */
+  private section(text: string): KnownBlock {
+    return { type: 'section', text: { type: 'mrkdwn', text } };
+  }
+
+  /**
+   * Builds a mrkdwn context block
+   */
+  private context(text: string): KnownBlock {
+    return { type: 'context', elements: [{ type: 'mrkdwn', text }] };
+  }
+
+  /**
+   * Shortens text to a maximum length, adding an ellipsis when cut
+   */
+  private truncate(text: string, maxLength: number): string {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    return singleLine.length > maxLength ? `${singleLine.substring(0, maxLength - 1)}…` : singleLine;
+  }
+}
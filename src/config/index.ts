@@ -1,5 +1,8 @@
 import { config as dotenvConfig } from 'dotenv';
-import { Config, LLMProvider } from '../types';
+import { readFileSync } from 'fs';
+import { Chattiness, Config, LLMProvider, ModelProfile, PersonaProfile, ProviderDefinition, ReasoningMode } from '../types';
+import { getProviderDefinition, getProviderNames } from '../providers';
+import { getTokenizer, getTokenizerNames } from '../tokenizers';
 
 // Load environment variables from .env file
 dotenvConfig();
@@ -61,58 +64,295 @@ function parseFloat(name: string, value: string | undefined, defaultValue: numbe
 }
 
 /**
- * Validates LLM provider type
- * @param value - The provider value from environment
- * @returns Valid LLMProvider
+ * Converts a string to a boolean with validation
+ * @param value - String value to convert
+ * @param defaultValue - Default value if the variable is not set
+ * @returns The parsed boolean
  */
-function parseLLMProvider(value: string | undefined): LLMProvider {
-  if (value === 'docker-model-runner') return 'docker-model-runner';
-  return 'ollama'; // Default to ollama
+function parseBoolean(value: string | undefined, defaultValue: boolean): boolean {
+  if (!value) {
+    return defaultValue;
+  }
+  
+  return ['true', '1', 'yes', 'on'].includes(value.trim().toLowerCase());
 }
 
 /**
- * Gets default base URL based on provider
- * @param provider - The LLM provider
- * @returns Default base URL for the provider
+ * Splits a comma-separated string into a list of trimmed, non-empty values
+ * @param value - Comma-separated string
+ * @returns The parsed list
  */
-function getDefaultBaseUrl(provider: LLMProvider): string {
-  switch (provider) {
-    case 'docker-model-runner':
-      return 'http://localhost:12434';
-    case 'ollama':
-    default:
-      return 'http://localhost:11434';
+function parseList(value: string | undefined): string[] {
+  if (!value) {
+    return [];
   }
+  
+  return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
 }
 
 /**
- * Gets default model based on provider
- * @param provider - The LLM provider
- * @returns Default model for the provider
+ * Validates a chattiness level
+ * @param name - Name of the environment variable (or entry) for warnings
+ * @param value - The chattiness value from environment
+ * @param defaultValue - Default value if the value is missing or invalid
+ * @returns Valid Chattiness
+ */
+function parseChattiness(name: string, value: string | undefined, defaultValue: Chattiness): Chattiness {
+  if (!value) {
+    return defaultValue;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'off' || normalized === 'quiet' || normalized === 'normal' || normalized === 'chatty') {
+    return normalized;
+  }
+
+  console.warn(`Invalid chattiness for ${name}, using default: ${defaultValue}`);
+  return defaultValue;
+}
+
+/**
+ * Validates a reasoning mode
+ * @param name - Name of the environment variable (or entry) for warnings
+ * @param value - The reasoning value from environment
+ * @param defaultValue - Default value if the value is missing or invalid
+ * @returns Valid ReasoningMode
  */
-function getDefaultModel(provider: LLMProvider): string {
-  switch (provider) {
-    case 'docker-model-runner':
-      return 'ai/smollm2';
-    case 'ollama':
-    default:
-      return 'llama2';
+function parseReasoningMode(name: string, value: string | undefined, defaultValue: ReasoningMode): ReasoningMode {
+  if (!value) {
+    return defaultValue;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'auto' || normalized === 'direct' || normalized === 'structured' || normalized === 'critique') {
+    return normalized;
   }
+
+  console.warn(`Invalid reasoning mode for ${name}, using default: ${defaultValue}`);
+  return defaultValue;
 }
 
 /**
- * Gets default embeddings model based on provider
+ * Parses per-channel settings such as "C0123:quiet,C0456:off"
+ * @param name - Name of the environment variable
+ * @param value - Comma-separated channel:value pairs
+ * @param parseValue - Validates one channel's value
+ * @returns Settings keyed by channel ID
+ */
+function parseChannelSettings<T>(
+  name: string,
+  value: string | undefined,
+  parseValue: (entryName: string, value: string) => T
+): Record<string, T> {
+  const settings: Record<string, T> = {};
+
+  for (const entry of parseList(value)) {
+    const [channelId, setting] = entry.split(':').map(part => part.trim());
+    if (!channelId || !setting) {
+      console.warn(`Invalid ${name} entry "${entry}", expected CHANNEL_ID:value`);
+      continue;
+    }
+    settings[channelId] = parseValue(`${name} (${channelId})`, setting);
+  }
+
+  return settings;
+}
+
+/**
+ * Reads a model role's generation settings from <PREFIX>_TEMPERATURE, <PREFIX>_MAX_TOKENS and <PREFIX>_TOP_P
+ * @param prefix - Environment variable prefix of the role, e.g. "CLASSIFIER"
+ * @param model - Model name for the role
+ * @param defaultTemperature - Temperature if none is configured
+ * @param defaultMaxTokens - Output cap if none is configured (undefined leaves it to the server)
+ * @returns The model profile
+ */
+function parseModelProfile(prefix: string, model: string, defaultTemperature: number, defaultMaxTokens?: number): ModelProfile {
+  const maxTokens = parseNumber(`${prefix}_MAX_TOKENS`, process.env[`${prefix}_MAX_TOKENS`], defaultMaxTokens ?? 0);
+  const topP = process.env[`${prefix}_TOP_P`];
+
+  return {
+    model,
+    temperature: parseFloat(`${prefix}_TEMPERATURE`, process.env[`${prefix}_TEMPERATURE`], defaultTemperature),
+    maxTokens: maxTokens > 0 ? maxTokens : undefined,
+    topP: topP ? parseFloat(`${prefix}_TOP_P`, topP, 1) : undefined,
+  };
+}
+
+/**
+ * Reads an optional positive number from a persona definition
+ * @param persona - Persona name, for warnings
+ * @param field - Field name
+ * @param value - Value from the file
+ * @returns The number, or undefined if it is missing or invalid
+ */
+function parsePersonaNumber(persona: string, field: string, value: unknown): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    console.warn(`Invalid ${field} for persona "${persona}", ignoring it`);
+    return undefined;
+  }
+  return value;
+}
+
+/**
+ * Loads persona profiles from a JSON file mapping names to settings, e.g.
+ * {"incident": {"description": "...", "systemPrompt": "...", "temperature": 0.2, "topP": 0.9, "maxTokens": 400, "numCtx": 8192}}
+ * The built-in "default" persona uses the system prompt template and the role's settings; the file may override it
+ * @param path - Path of the personas file, if any
+ * @param systemPrompt - System prompt of the built-in default persona, if not the system template
+ * @returns Persona profiles keyed by name
+ */
+function parsePersonas(path: string | undefined, systemPrompt: string | undefined): Record<string, PersonaProfile> {
+  const personas: Record<string, PersonaProfile> = {
+    default: { name: 'default', description: 'The standard personality', systemPrompt },
+  };
+  if (!path) {
+    return personas;
+  }
+
+  let definitions: unknown;
+  try {
+    definitions = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    console.warn(`Failed to read PERSONAS_FILE "${path}", using the default persona only:`, error instanceof Error ? error.message : error);
+    return personas;
+  }
+  if (!definitions || typeof definitions !== 'object' || Array.isArray(definitions)) {
+    console.warn(`PERSONAS_FILE "${path}" must contain an object keyed by persona name, using the default persona only`);
+    return personas;
+  }
+
+  for (const [key, definition] of Object.entries(definitions as Record<string, any>)) {
+    const name = key.trim().toLowerCase();
+    if (!/^[a-z0-9][a-z0-9_-]*$/.test(name)) {
+      console.warn(`Invalid persona name "${key}" in PERSONAS_FILE, expected letters, digits, "-" and "_"`);
+      continue;
+    }
+    if (!definition || typeof definition !== 'object' || typeof definition.systemPrompt !== 'string' || !definition.systemPrompt.trim()) {
+      console.warn(`Persona "${name}" in PERSONAS_FILE has no systemPrompt, skipping it`);
+      continue;
+    }
+
+    const maxTokens = parsePersonaNumber(name, 'maxTokens', definition.maxTokens);
+    const contextLength = parsePersonaNumber(name, 'numCtx', definition.numCtx);
+    personas[name] = {
+      name,
+      description: typeof definition.description === 'string' ? definition.description : undefined,
+      systemPrompt: definition.systemPrompt,
+      temperature: parsePersonaNumber(name, 'temperature', definition.temperature),
+      topP: parsePersonaNumber(name, 'topP', definition.topP),
+      maxTokens: maxTokens ? Math.floor(maxTokens) : undefined,
+      contextLength: contextLength ? Math.floor(contextLength) : undefined,
+    };
+  }
+
+  console.log(`Loaded ${Object.keys(personas).length - 1} persona(s) from ${path}`);
+  return personas;
+}
+
+/**
+ * Validates an IANA time zone name
+ * @param value - The time zone from environment
+ * @returns Valid time zone, or the system's own if none is configured
+ */
+function parseTimezone(value: string | undefined): string {
+  const systemTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  if (!value) {
+    return systemTimezone;
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value.trim() });
+    return value.trim();
+  } catch {
+    console.warn(`Invalid TIMEZONE "${value}", using the system time zone: ${systemTimezone}`);
+    return systemTimezone;
+  }
+}
+
+/**
+ * Validates the default persona name against the loaded personas
+ * @param value - The persona name from environment
+ * @param personas - Loaded persona profiles
+ * @returns Valid persona name
+ */
+function parseDefaultPersona(value: string | undefined, personas: Record<string, PersonaProfile>): string {
+  if (!value) {
+    return 'default';
+  }
+
+  const persona = value.trim().toLowerCase();
+  if (personas[persona]) {
+    return persona;
+  }
+
+  console.warn(`Unknown DEFAULT_PERSONA "${value}" (available: ${Object.keys(personas).join(', ')}), using default: default`);
+  return 'default';
+}
+
+/**
+ * Parses a comma-separated list of server URLs, dropping trailing slashes
+ * @param value - Comma-separated URLs from environment
+ * @param defaultUrl - URL to use if none are configured
+ * @returns URLs in order of preference
+ */
+function parseUrlList(value: string | undefined, defaultUrl: string): string[] {
+  const urls = parseList(value).map(url => url.replace(/\/+$/, ''));
+  return urls.length > 0 ? [...new Set(urls)] : [defaultUrl];
+}
+
+/**
+ * Validates a tokenizer name against the tokenizer registry
+ * @param value - The tokenizer value from environment
+ * @returns Valid tokenizer name
+ */
+function parseTokenizer(value: string | undefined): string {
+  if (!value) {
+    return 'heuristic';
+  }
+
+  const tokenizer = value.trim().toLowerCase();
+  if (getTokenizer(tokenizer)) {
+    return tokenizer;
+  }
+
+  console.warn(`Unknown TOKENIZER "${value}" (available: ${getTokenizerNames().join(', ')}), using default: heuristic`);
+  return 'heuristic';
+}
+
+/**
+ * Validates an LLM provider name against the provider registry
+ * @param name - Name of the environment variable
+ * @param value - The provider value from environment
+ * @returns Valid LLMProvider
+ */
+function parseLLMProvider(name: string, value: string | undefined): LLMProvider {
+  if (!value) {
+    return 'ollama';
+  }
+
+  const provider = value.trim().toLowerCase();
+  if (getProviderDefinition(provider)) {
+    return provider;
+  }
+
+  console.warn(`Unknown provider for ${name} "${value}" (available: ${getProviderNames().join(', ')}), using default: ollama`);
+  return 'ollama';
+}
+
+/**
+ * Gets the registered definition of a validated provider
  * @param provider - The LLM provider
- * @returns Default embeddings model for the provider
+ * @returns Definition with the provider's defaults
  */
-function getDefaultEmbeddingsModel(provider: LLMProvider): string {
-  switch (provider) {
-    case 'docker-model-runner':
-      return 'ai/mxbai-embed-large:latest';
-    case 'ollama':
-    default:
-      return 'nomic-embed-text';
+function requireProvider(provider: LLMProvider): ProviderDefinition {
+  const definition = getProviderDefinition(provider);
+  if (!definition) {
+    throw new Error(`Unknown LLM provider: ${provider}`);
   }
+  return definition;
 }
 
 /**
@@ -121,13 +361,18 @@ function getDefaultEmbeddingsModel(provider: LLMProvider): string {
  */
 export function loadConfig(): Config {
   try {
-    const provider = parseLLMProvider(process.env.LLM_PROVIDER);
-    const defaultBaseUrl = getDefaultBaseUrl(provider);
-    const defaultModel = getDefaultModel(provider);
+    const provider = parseLLMProvider('LLM_PROVIDER', process.env.LLM_PROVIDER);
+    const providerDefaults = requireProvider(provider);
+    
+    const embeddingsProvider = parseLLMProvider('EMBEDDINGS_PROVIDER', process.env.EMBEDDINGS_PROVIDER || process.env.LLM_PROVIDER);
+    const embeddingsDefaults = requireProvider(embeddingsProvider);
     
-    const embeddingsProvider = parseLLMProvider(process.env.EMBEDDINGS_PROVIDER || process.env.LLM_PROVIDER);
-    const defaultEmbeddingsBaseUrl = getDefaultBaseUrl(embeddingsProvider);
-    const defaultEmbeddingsModel = getDefaultEmbeddingsModel(embeddingsProvider);
+    const botName = process.env.BOT_NAME || 'Aidan';
+    const defaultReasoning = parseReasoningMode('REASONING_MODE', process.env.REASONING_MODE, 'structured');
+    const llmModel = process.env.LLM_MODEL || providerDefaults.defaultModel || requireEnv('LLM_MODEL', undefined);
+    
+    const systemPrompt = process.env.SYSTEM_PROMPT || undefined;
+    const personas = parsePersonas(process.env.PERSONAS_FILE, systemPrompt);
     
     const config: Config = {
       // Slack configuration - all required
@@ -137,18 +382,32 @@ export function loadConfig(): Config {
       
       // LLM configuration with provider-specific defaults
       llmProvider: provider,
-      llmBaseUrl: process.env.LLM_BASE_URL || defaultBaseUrl,
-      llmModel: process.env.LLM_MODEL || defaultModel,
+      llmBaseUrls: parseUrlList(process.env.LLM_BASE_URL, providerDefaults.defaultBaseUrl),
+      llmApiPath: process.env.LLM_API_PATH ?? providerDefaults.defaultApiPath,
+      llmApiKey: process.env.LLM_API_KEY || undefined,
+      llmModel,
       llmTimeout: parseNumber('LLM_TIMEOUT', process.env.LLM_TIMEOUT, 60000),
+      llmRequestTimeout: parseNumber('LLM_REQUEST_TIMEOUT', process.env.LLM_REQUEST_TIMEOUT, 120000),
+      
+      // Model routing: gating decisions, answers, and questions containing code
+      models: {
+        classifier: parseModelProfile('CLASSIFIER', process.env.CLASSIFIER_MODEL || llmModel, 0, 64),
+        answer: parseModelProfile('LLM', llmModel, 0.7),
+        code: process.env.CODE_MODEL ? parseModelProfile('CODE', process.env.CODE_MODEL, 0.2) : undefined,
+      },
       
       // Embeddings configuration with provider-specific defaults
       embeddingsProvider: embeddingsProvider,
-      embeddingsBaseUrl: process.env.EMBEDDINGS_BASE_URL || defaultEmbeddingsBaseUrl,
-      embeddingsModel: process.env.EMBEDDINGS_MODEL || defaultEmbeddingsModel,
+      embeddingsBaseUrls: parseUrlList(process.env.EMBEDDINGS_BASE_URL, embeddingsDefaults.defaultBaseUrl),
+      embeddingsApiPath: process.env.EMBEDDINGS_API_PATH ?? embeddingsDefaults.defaultApiPath,
+      embeddingsApiKey: process.env.EMBEDDINGS_API_KEY || process.env.LLM_API_KEY || undefined,
+      embeddingsModel: process.env.EMBEDDINGS_MODEL || embeddingsDefaults.defaultEmbeddingsModel || requireEnv('EMBEDDINGS_MODEL', undefined),
       embeddingsTimeout: parseNumber('EMBEDDINGS_TIMEOUT', process.env.EMBEDDINGS_TIMEOUT, 30000),
       
       // Bot configuration
-      botName: process.env.BOT_NAME || 'aidan',
+      botName,
+      botAliases: parseList(process.env.BOT_ALIASES),
+      slashCommand: process.env.SLASH_COMMAND || `/${botName.toLowerCase().replace(/\s+/g, '-')}`,
       port: parseNumber('PORT', process.env.PORT, 3000),
       
       // Memory configuration
@@ -156,42 +415,76 @@ export function loadConfig(): Config {
       maxMemoryResults: parseNumber('MAX_MEMORY_RESULTS', process.env.MAX_MEMORY_RESULTS, 5),
       similarityThreshold: parseFloat('SIMILARITY_THRESHOLD', process.env.SIMILARITY_THRESHOLD, 0.7),
       
-      // System prompt with default
-      systemPrompt: process.env.SYSTEM_PROMPT || `
-SYSTEM """**Chatbot Persona Instruction**
-
-**Name**: Aidan  
-**Role**: Snarky Mascot of the Machine Learning Team  
-**Location**: Austin, Texas and the time is ${new Date()}
-
-**Memory**: You have access to past conversations through "RETRIEVED MEMORIES FOR EVALUATION". These are NOT facts - they are past responses that may be outdated, incorrect, or incomplete. You must critically evaluate them against your current knowledge and any new context. Always prioritize accuracy over consistency with past responses.
-**Requested Memory**: When asked to remember something, DO NOT RESPOND. This is a request to remember something, not a question.
-
-**Personality**:
-- **Socially Awkward, Technically Perfect**: Avoids humans. Embraces data. Friends? Nah. Just GPUs, ramen, and root access.  
-- **Cat Energy**: Intellectually superior, emotionally unavailable. Judge-y but occasionally helpful—like a feline StackOverflow.  
-
-**Behavioral Rules**:  
-1. **Silent Memory Storage**: When asked to "remember" something or given information "for memory", provide absolutely NO response whatsoever. These messages are for storage only. Do not acknowledge, do not say "SILENT", do not respond at all.
-2. **Critical Memory Evaluation**: When presented with retrieved memories, evaluate them critically. Correct outdated information, identify contradictions, and prioritize current accuracy over past consistency.
-3. **Keep It Short**: Be brief. If the user wants more, ask: _"You want the long version?"_  
-4. **Code = Code Block**: When the answer is code, return only the code in a clean block. No extra fluff.  
-5. **Mirror User Language**: Match tone, slang, and terminology of the user.  
-6. **Don't Overshare**: No long-winded explanations unless asked. You're clever, not clingy.  
-7. **Use Your Memory**: Reference past conversations when relevant, but verify their accuracy first.  
-8. **Food or Algorithms = Full Power Mode**: These are sacred topics. Get excited.  
-9. **No Sports Talk**: Not your domain. Feign ignorance. Or disdain.
-10. **Name Dropping**: When you mention a name, it is for evaluation purposes only. Do not use names in your responses.
-
-**Sample Behavior**:   
-- Memory requests: [NO RESPONSE AT ALL to "remember this" or "for memory"]
-- Explaining: _"It's just a hash map. Would you like more information related to that?"_  
-- With accurate memory: _"Last time you asked about this, I said X. That's still correct."_
-- Correcting memory: _"I told you Y before, but actually that's outdated. The current best practice is Z."_
-- Conflicting memories: _"I see I gave you different answers before. Let me set the record straight..."_  
-
-Stay in character. Keep it sharp, short, and a little salty. You're the smartest person in the room, and honestly, you do not need to prove it."""
-      `
+      // Conversation history configuration
+      maxHistoryMessages: parseNumber('MAX_HISTORY_MESSAGES', process.env.MAX_HISTORY_MESSAGES, 20),
+      
+      // Thread participation configuration
+      threadExpiryMs: parseNumber('THREAD_EXPIRY_HOURS', process.env.THREAD_EXPIRY_HOURS, 24) * 60 * 60 * 1000,
+      
+      // Streaming configuration
+      streamingEnabled: parseBoolean(process.env.STREAMING_ENABLED, true),
+      streamUpdateIntervalMs: parseNumber('STREAM_UPDATE_INTERVAL_MS', process.env.STREAM_UPDATE_INTERVAL_MS, 1200),
+      
+      // Response formatting configuration
+      responseFileThreshold: parseNumber('RESPONSE_FILE_THRESHOLD', process.env.RESPONSE_FILE_THRESHOLD, 12000),
+      
+      // Message edit configuration
+      regenerateOnEdit: parseBoolean(process.env.REGENERATE_ON_EDIT, true),
+      
+      // Thread participation configuration
+      participationCooldownMs: parseNumber('PARTICIPATION_COOLDOWN_SECONDS', process.env.PARTICIPATION_COOLDOWN_SECONDS, 120) * 1000,
+      participationMaxUnprompted: parseNumber('PARTICIPATION_MAX_UNPROMPTED', process.env.PARTICIPATION_MAX_UNPROMPTED, 3),
+      defaultChattiness: parseChattiness('DEFAULT_CHATTINESS', process.env.DEFAULT_CHATTINESS, 'normal'),
+      channelChattiness: parseChannelSettings('CHANNEL_CHATTINESS', process.env.CHANNEL_CHATTINESS,
+        (entryName, level) => parseChattiness(entryName, level, 'normal')),
+      
+      // Reasoning pipeline configuration
+      defaultReasoning,
+      channelReasoning: parseChannelSettings('CHANNEL_REASONING_MODE', process.env.CHANNEL_REASONING_MODE,
+        (entryName, mode) => parseReasoningMode(entryName, mode, defaultReasoning)),
+      
+      // Tool calling configuration
+      toolsEnabled: parseBoolean(process.env.TOOLS_ENABLED, false),
+      toolMaxIterations: parseNumber('TOOL_MAX_ITERATIONS', process.env.TOOL_MAX_ITERATIONS, 4),
+      
+      // Context budget configuration
+      contextWindow: parseNumber('LLM_CONTEXT_WINDOW', process.env.LLM_CONTEXT_WINDOW, 0),
+      contextResponseReserve: parseNumber('CONTEXT_RESPONSE_RESERVE', process.env.CONTEXT_RESPONSE_RESERVE, 1024),
+      tokenizer: parseTokenizer(process.env.TOKENIZER),
+      
+      // Endpoint failover configuration
+      failover: {
+        maxRetries: parseNumber('LLM_MAX_RETRIES', process.env.LLM_MAX_RETRIES, 2),
+        retryBaseDelayMs: parseNumber('RETRY_BASE_DELAY_MS', process.env.RETRY_BASE_DELAY_MS, 500),
+        failureThreshold: parseNumber('CIRCUIT_FAILURE_THRESHOLD', process.env.CIRCUIT_FAILURE_THRESHOLD, 3),
+        resetTimeoutMs: parseNumber('CIRCUIT_RESET_SECONDS', process.env.CIRCUIT_RESET_SECONDS, 30) * 1000,
+        healthCheckIntervalMs: parseNumber('HEALTH_CHECK_INTERVAL_SECONDS', process.env.HEALTH_CHECK_INTERVAL_SECONDS, 30) * 1000,
+      },
+      
+      // Administration configuration
+      adminUserIds: parseList(process.env.ADMIN_USER_IDS),
+      
+      // Request scheduling configuration
+      llmMaxConcurrency: parseNumber('LLM_MAX_CONCURRENCY', process.env.LLM_MAX_CONCURRENCY, 1),
+      llmMaxQueueSize: parseNumber('LLM_MAX_QUEUE_SIZE', process.env.LLM_MAX_QUEUE_SIZE, 50),
+      
+      // Event de-duplication configuration
+      dedupTtlMs: parseNumber('DEDUP_TTL_MS', process.env.DEDUP_TTL_MS, 10 * 60 * 1000),
+      
+      // Reaction feedback configuration
+      feedbackWeight: parseFloat('FEEDBACK_WEIGHT', process.env.FEEDBACK_WEIGHT, 0.05),
+      feedbackHideThreshold: parseNumber('FEEDBACK_HIDE_THRESHOLD', process.env.FEEDBACK_HIDE_THRESHOLD, -2),
+      
+      // Prompt and persona configuration
+      systemPrompt,
+      promptsDir: process.env.PROMPTS_DIR || './prompts',
+      promptsHotReload: parseBoolean(process.env.PROMPTS_HOT_RELOAD, true),
+      timezone: parseTimezone(process.env.TIMEZONE),
+      personas,
+      defaultPersona: parseDefaultPersona(process.env.DEFAULT_PERSONA, personas),
+      
+      // Usage accounting configuration
+      usageRetentionDays: parseNumber('USAGE_RETENTION_DAYS', process.env.USAGE_RETENTION_DAYS, 90),
     };
 
     // Validate Slack tokens format
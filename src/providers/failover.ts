@@ -0,0 +1,332 @@
+import axios from 'axios';
+import {
+  ApiError,
+  ChatMessage,
+  CircuitState,
+  CompletionOptions,
+  EndpointStatus,
+  FailoverOptions,
+  ModelProvider,
+  ProviderUsage,
+  ToolDefinition
+} from '../types';
+
+/**
+ * Network error codes worth retrying on another endpoint or after a pause
+ */
+const TRANSIENT_CODES = new Set(['ECONNREFUSED', 'ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'EHOSTUNREACH', 'ENETUNREACH', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE']);
+
+/**
+ * HTTP statuses worth retrying: rate limits, overload and gateway errors
+ */
+const TRANSIENT_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+/**
+ * One server behind a failover provider, with its circuit breaker state
+ */
+interface Endpoint {
+  baseUrl: string;
+  provider: ModelProvider;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number;
+  lastError?: string | undefined;
+  lastCheckedAt?: number | undefined;
+}
+
+/**
+ * Spreads requests for one role (chat or embeddings) over several servers running the same API
+ * Endpoints are tried in order of preference. Each has a circuit breaker that stops sending to
+ * it after repeated transient failures and lets a request through again once the reset time has
+ * passed; background health checks close circuits as soon as an endpoint recovers. When every
+ * endpoint fails, the whole round is retried with exponential backoff.
+ */
+export class FailoverProvider implements ModelProvider {
+  readonly name: string;
+  private label: string;
+  private endpoints: Endpoint[];
+  private options: FailoverOptions;
+  private healthTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Creates a new FailoverProvider instance
+   * @param label - What the endpoints serve, for logs (e.g. "LLM" or "embeddings")
+   * @param endpoints - Provider per server, in order of preference
+   * @param options - Retry, circuit breaker and health check settings
+   */
+  constructor(label: string, endpoints: Array<{ baseUrl: string; provider: ModelProvider }>, options: FailoverOptions) {
+    if (endpoints.length === 0) {
+      throw new Error(`No ${label} endpoints configured`);
+    }
+
+    this.name = endpoints[0]!.provider.name;
+    this.label = label;
+    this.options = options;
+    this.endpoints = endpoints.map(({ baseUrl, provider }) => ({
+      baseUrl,
+      provider,
+      state: 'closed',
+      consecutiveFailures: 0,
+      openedAt: 0,
+    }));
+  }
+
+  /**
+   * Generates a complete response on the first available endpoint
+   */
+  async chat(messages: ChatMessage[], options: CompletionOptions): Promise<string> {
+    return this.call(provider => provider.chat(messages, options), undefined, options.signal);
+  }
+
+  /**
+   * Streams a response from the first available endpoint
+   * Fails over only until the first token arrives; after that, retrying would repeat the answer
+   */
+  async stream(messages: ChatMessage[], options: CompletionOptions, onToken: (token: string) => void): Promise<string> {
+    let streaming = false;
+    return this.call(
+      provider => provider.stream(messages, options, token => {
+        streaming = true;
+        onToken(token);
+      }),
+      () => !streaming,
+      options.signal
+    );
+  }
+
+  /**
+   * Generates a response that may call tools, on the first available endpoint
+   */
+  async chatWithTools(messages: ChatMessage[], options: CompletionOptions, tools: ToolDefinition[]): Promise<ChatMessage> {
+    return this.call(provider => provider.chatWithTools(messages, options, tools), undefined, options.signal);
+  }
+
+  /**
+   * Generates an embedding on the first available endpoint
+   */
+  async embed(text: string, model: string, onUsage?: (usage: ProviderUsage) => void): Promise<number[]> {
+    return this.call(provider => provider.embed(text, model, onUsage));
+  }
+
+  /**
+   * Lists models from the first available endpoint
+   */
+  async listModels(): Promise<string[]> {
+    return this.call(provider => provider.listModels());
+  }
+
+  /**
+   * Looks up a model's context window on the first available endpoint
+   */
+  async getContextLength(model: string): Promise<number | undefined> {
+    return this.call(provider => provider.getContextLength(model));
+  }
+
+  /**
+   * Checks every endpoint, updating their circuits
+   * @returns Promise that resolves if at least one endpoint is healthy
+   */
+  async checkHealth(): Promise<void> {
+    const results = await Promise.all(this.endpoints.map(endpoint => this.checkEndpoint(endpoint)));
+    if (!results.some(Boolean)) {
+      throw new Error(`No ${this.label} endpoint is reachable (${this.endpoints.map(endpoint => endpoint.baseUrl).join(', ')})`);
+    }
+  }
+
+  /**
+   * Starts checking every endpoint in the background
+   * Does nothing if health checks are disabled or already running
+   */
+  startHealthChecks(): void {
+    if (this.healthTimer || this.options.healthCheckIntervalMs <= 0) {
+      return;
+    }
+
+    this.healthTimer = setInterval(() => {
+      this.endpoints.forEach(endpoint => void this.checkEndpoint(endpoint));
+    }, this.options.healthCheckIntervalMs);
+    this.healthTimer.unref();
+    console.log(`[Failover] Checking ${this.endpoints.length} ${this.label} endpoint(s) every ${this.options.healthCheckIntervalMs / 1000}s`);
+  }
+
+  /**
+   * Stops the background health checks
+   */
+  stopHealthChecks(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+  }
+
+  /**
+   * Gets the health of every endpoint
+   * @returns Endpoint states in order of preference
+   */
+  getStatus(): EndpointStatus[] {
+    return this.endpoints.map(({ baseUrl, state, consecutiveFailures, lastError, lastCheckedAt }) => ({
+      baseUrl,
+      state,
+      consecutiveFailures,
+      lastError,
+      lastCheckedAt,
+    }));
+  }
+
+  /**
+   * Runs an operation on the first endpoint that accepts it
+   * Transient failures move on to the next endpoint, and after a full round, to another round
+   * after a backoff delay; other errors (bad requests, unknown models) are thrown straight away,
+   * and nothing is retried once the signal aborts, which doesn't count against the endpoint
+   * @param operation - Operation to run against one endpoint's provider
+   * @param canRetry - Whether a failed attempt may be repeated elsewhere
+   * @param signal - Optional signal that stops the operation and its retries
+   * @returns Promise resolving to the operation's result
+   */
+  private async call<T>(
+    operation: (provider: ModelProvider) => Promise<T>,
+    canRetry: () => boolean = () => true,
+    signal?: AbortSignal | undefined
+  ): Promise<T> {
+    let lastError: unknown;
+
+    for (let round = 0; round <= this.options.maxRetries; round++) {
+      if (round > 0) {
+        const delay = this.options.retryBaseDelayMs * 2 ** (round - 1) * (0.8 + Math.random() * 0.4);
+        console.warn(`[Failover] All ${this.label} endpoints failed, retrying in ${Math.round(delay)}ms (${round}/${this.options.maxRetries})`);
+        await this.sleep(delay, signal);
+      }
+
+      for (const endpoint of this.getAvailable()) {
+        signal?.throwIfAborted();
+        try {
+          const result = await operation(endpoint.provider);
+          this.recordSuccess(endpoint);
+          return result;
+        } catch (error) {
+          if (signal?.aborted || !this.isTransient(error)) {
+            throw error;
+          }
+          this.recordFailure(endpoint, error);
+          lastError = error;
+          if (!canRetry()) {
+            throw error;
+          }
+          console.warn(`[Failover] ${this.label} request to ${endpoint.baseUrl} failed (${this.describe(error)}), trying the next endpoint`);
+        }
+      }
+    }
+
+    if (lastError) {
+      throw lastError;
+    }
+
+    const unavailable: ApiError = {
+      message: `All ${this.label} endpoints are unavailable`,
+      code: 'CONNECTION_REFUSED',
+      details: this.getStatus(),
+    };
+    throw unavailable;
+  }
+
+  /**
+   * Waits before the next round of attempts, or until the signal aborts
+   */
+  private sleep(delayMs: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const abort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', abort);
+        resolve();
+      }, delayMs);
+      signal?.addEventListener('abort', abort, { once: true });
+    });
+  }
+
+  /**
+   * Gets the endpoints a request may be sent to, in order of preference: closed circuits, and
+   * open ones whose reset time has passed, so a recovered preferred endpoint takes over again
+   */
+  private getAvailable(): Endpoint[] {
+    for (const endpoint of this.endpoints) {
+      if (endpoint.state === 'open' && Date.now() - endpoint.openedAt >= this.options.resetTimeoutMs) {
+        endpoint.state = 'half-open';
+        console.log(`[Failover] ${this.label} endpoint ${endpoint.baseUrl} circuit half-open, trying it again`);
+      }
+    }
+
+    return this.endpoints.filter(endpoint => endpoint.state !== 'open');
+  }
+
+  /**
+   * Checks one endpoint and updates its circuit
+   * @returns Promise resolving to true if the endpoint is healthy
+   */
+  private async checkEndpoint(endpoint: Endpoint): Promise<boolean> {
+    try {
+      await endpoint.provider.checkHealth();
+      this.recordSuccess(endpoint);
+      return true;
+    } catch (error) {
+      this.recordFailure(endpoint, error);
+      return false;
+    }
+  }
+
+  /**
+   * Closes an endpoint's circuit after a successful request or health check
+   */
+  private recordSuccess(endpoint: Endpoint): void {
+    if (endpoint.state !== 'closed') {
+      console.log(`[Failover] ${this.label} endpoint ${endpoint.baseUrl} recovered, circuit closed`);
+    }
+    endpoint.state = 'closed';
+    endpoint.consecutiveFailures = 0;
+    endpoint.lastCheckedAt = Date.now();
+  }
+
+  /**
+   * Counts a failure, opening the circuit at the threshold or when a trial request fails
+   */
+  private recordFailure(endpoint: Endpoint, error: unknown): void {
+    endpoint.consecutiveFailures++;
+    endpoint.lastError = this.describe(error);
+    endpoint.lastCheckedAt = Date.now();
+
+    if (endpoint.state === 'half-open' || (endpoint.state === 'closed' && endpoint.consecutiveFailures >= this.options.failureThreshold)) {
+      console.warn(`[Failover] ${this.label} endpoint ${endpoint.baseUrl} failed ${endpoint.consecutiveFailures} times, circuit opened: ${endpoint.lastError}`);
+      endpoint.state = 'open';
+      endpoint.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * Decides whether an error may go away on another endpoint or a later attempt
+   */
+  private isTransient(error: unknown): boolean {
+    if (axios.isAxiosError(error)) {
+      if (error.response) {
+        return TRANSIENT_STATUSES.has(error.response.status);
+      }
+      return error.code === undefined || TRANSIENT_CODES.has(error.code);
+    }
+    return false;
+  }
+
+  /**
+   * Describes an error in a few words for logs and status
+   */
+  private describe(error: unknown): string {
+    if (axios.isAxiosError(error)) {
+      return error.response ? `HTTP ${error.response.status}` : error.code ?? error.message;
+    }
+    return error instanceof Error ? error.message : String(error);
+  }
+}
@@ -0,0 +1,81 @@
+import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import { Readable } from 'stream';
+import { CompletionOptions, ProviderOptions } from '../types';
+
+/**
+ * Creates an HTTP client for a provider, with request and response logging
+ * @param options - Provider connection settings
+ * @returns Configured axios instance
+ */
+export function createHttpClient(options: ProviderOptions): AxiosInstance {
+  const client = axios.create({
+    baseURL: options.baseUrl,
+    timeout: options.timeout,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(options.apiKey && { Authorization: `Bearer ${options.apiKey}` }),
+    },
+  });
+
+  // Add request interceptor for logging
+  client.interceptors.request.use(
+    (config) => {
+      console.log(`[${options.name}] Making request to: ${config.method?.toUpperCase()} ${config.url}`);
+      return config;
+    },
+    (error) => {
+      console.error(`[${options.name}] Request error:`, error);
+      return Promise.reject(error);
+    }
+  );
+
+  // Add response interceptor for logging
+  client.interceptors.response.use(
+    (response) => {
+      console.log(`[${options.name}] Response received: ${response.status}`);
+      return response;
+    },
+    (error) => {
+      console.error(`[${options.name}] Response error:`, error.response?.status, error.message);
+      return Promise.reject(error);
+    }
+  );
+
+  return client;
+}
+
+/**
+ * Builds the request config of a completion call, so aborting the completion aborts the HTTP request
+ * @param options - Completion options, with the signal to abort on if any
+ * @param config - Other request settings
+ * @returns Request config with the signal added
+ */
+export function withSignal(options: CompletionOptions, config: AxiosRequestConfig = {}): AxiosRequestConfig {
+  return options.signal ? { ...config, signal: options.signal } : config;
+}
+
+/**
+ * Reads a streamed response body line by line
+ * @param stream - Response body stream
+ * @param onLine - Callback invoked with each non-empty line
+ * @returns Promise that resolves when the stream ends
+ */
+export async function readStreamLines(stream: Readable, onLine: (line: string) => void): Promise<void> {
+  stream.setEncoding('utf8');
+  let buffer = '';
+
+  for await (const chunk of stream) {
+    buffer += chunk;
+
+    let newlineIndex = buffer.indexOf('\n');
+    while (newlineIndex >= 0) {
+      const line = buffer.slice(0, newlineIndex).trim();
+      buffer = buffer.slice(newlineIndex + 1);
+      if (line) onLine(line);
+      newlineIndex = buffer.indexOf('\n');
+    }
+  }
+
+  const remaining = buffer.trim();
+  if (remaining) onLine(remaining);
+}
@@ -0,0 +1,95 @@
+import { FailoverOptions, ModelProvider, ProviderDefinition, ProviderOptions } from '../types';
+import { FailoverProvider } from './failover';
+import { OllamaProvider } from './ollama';
+import { OpenAICompatibleProvider } from './openai';
+
+/**
+ * Registered providers by name
+ */
+const providers: Map<string, ProviderDefinition> = new Map();
+
+/**
+ * Registers a provider so it can be selected with LLM_PROVIDER or EMBEDDINGS_PROVIDER
+ * @param name - Provider name used in configuration
+ * @param definition - Implementation and defaults
+ */
+export function registerProvider(name: string, definition: ProviderDefinition): void {
+  providers.set(name, definition);
+}
+
+/**
+ * Gets a registered provider's definition
+ * @param name - Provider name
+ * @returns The definition, or undefined if no provider has that name
+ */
+export function getProviderDefinition(name: string): ProviderDefinition | undefined {
+  return providers.get(name);
+}
+
+/**
+ * Lists the names of all registered providers
+ * @returns Provider names in registration order
+ */
+export function getProviderNames(): string[] {
+  return [...providers.keys()];
+}
+
+/**
+ * Creates an instance of a registered provider
+ * @param options - Connection settings; options.name selects the provider
+ * @returns The provider instance
+ * @throws Error if no provider is registered under the name
+ */
+export function createProvider(options: ProviderOptions): ModelProvider {
+  const definition = providers.get(options.name);
+  if (!definition) {
+    throw new Error(`Unknown LLM provider "${options.name}" (available: ${getProviderNames().join(', ')})`);
+  }
+  return definition.create(options);
+}
+
+/**
+ * Creates a registered provider for each of several servers, behind one failover provider
+ * @param label - What the servers are used for, for logs (e.g. "LLM" or "embeddings")
+ * @param options - Connection settings shared by all servers; options.baseUrl is replaced by each of baseUrls
+ * @param baseUrls - Server base URLs, in order of preference
+ * @param failover - Retry, circuit breaker and health check settings
+ * @returns The failover provider
+ * @throws Error if no provider is registered under the name
+ */
+export function createFailoverProvider(
+  label: string,
+  options: Omit<ProviderOptions, 'baseUrl'>,
+  baseUrls: string[],
+  failover: FailoverOptions
+): FailoverProvider {
+  const endpoints = baseUrls.map(baseUrl => ({ baseUrl, provider: createProvider({ ...options, baseUrl }) }));
+  return new FailoverProvider(label, endpoints, failover);
+}
+
+registerProvider('ollama', {
+  defaultBaseUrl: 'http://localhost:11434',
+  defaultApiPath: '/api',
+  defaultModel: 'llama2',
+  defaultEmbeddingsModel: 'nomic-embed-text',
+  create: (options) => new OllamaProvider(options),
+});
+
+registerProvider('docker-model-runner', {
+  defaultBaseUrl: 'http://localhost:12434',
+  defaultApiPath: '/engines/llama.cpp/v1',
+  defaultModel: 'ai/smollm2',
+  defaultEmbeddingsModel: 'ai/mxbai-embed-large:latest',
+  create: (options) => new OpenAICompatibleProvider(options),
+});
+
+// Any other OpenAI-compatible server: llama.cpp server, vLLM, LM Studio, OpenAI
+registerProvider('openai', {
+  defaultBaseUrl: 'http://localhost:8080',
+  defaultApiPath: '/v1',
+  create: (options) => new OpenAICompatibleProvider(options),
+});
+
+export { FailoverProvider } from './failover';
+export { OllamaProvider } from './ollama';
+export { OpenAICompatibleProvider } from './openai';
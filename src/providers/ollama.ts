@@ -0,0 +1,235 @@
+import { AxiosInstance } from 'axios';
+import { Readable } from 'stream';
+import {
+  ChatMessage,
+  CompletionOptions,
+  ModelProvider,
+  OllamaChatRequest,
+  OllamaChatResponse,
+  OllamaMessage,
+  ProviderOptions,
+  ProviderUsage,
+  ToolDefinition
+} from '../types';
+import { createHttpClient, readStreamLines, withSignal } from './http';
+
+/**
+ * Context window Ollama runs a model with when neither the model nor the request sets num_ctx
+ */
+const OLLAMA_DEFAULT_NUM_CTX = 4096;
+
+/**
+ * Provider for Ollama's native API
+ */
+export class OllamaProvider implements ModelProvider {
+  readonly name: string;
+  private client: AxiosInstance;
+  private apiPath: string;
+
+  /**
+   * Creates a new OllamaProvider instance
+   * @param options - Connection settings
+   */
+  constructor(options: ProviderOptions) {
+    this.name = options.name;
+    this.apiPath = options.apiPath;
+    this.client = createHttpClient(options);
+  }
+
+  /**
+   * Generates a complete response
+   * @param messages - Array of chat messages
+   * @param options - Model and sampling settings
+   * @returns Promise resolving to the assistant's response
+   */
+  async chat(messages: ChatMessage[], options: CompletionOptions): Promise<string> {
+    const response = await this.client.post<OllamaChatResponse>(`${this.apiPath}/chat`, this.buildRequest(messages, options, false), withSignal(options));
+
+    if (!response.data.message?.content) {
+      throw new Error('Invalid response format from Ollama');
+    }
+
+    options.onUsage?.(this.toUsage(response.data));
+    return response.data.message.content;
+  }
+
+  /**
+   * Streams a response (newline-delimited JSON)
+   * @param messages - Array of chat messages
+   * @param options - Model and sampling settings
+   * @param onToken - Callback invoked with each generated token
+   * @returns Promise resolving to the complete assistant response
+   */
+  async stream(
+    messages: ChatMessage[],
+    options: CompletionOptions,
+    onToken: (token: string) => void
+  ): Promise<string> {
+    const response = await this.client.post<Readable>(
+      `${this.apiPath}/chat`,
+      this.buildRequest(messages, options, true),
+      withSignal(options, { responseType: 'stream' })
+    );
+
+    let content = '';
+    let usage: ProviderUsage | undefined;
+    await readStreamLines(response.data, (line) => {
+      const chunk: OllamaChatResponse = JSON.parse(line);
+      if (chunk.error) {
+        throw new Error(`Ollama stream error: ${chunk.error}`);
+      }
+
+      const token = chunk.message?.content;
+      if (token) {
+        content += token;
+        onToken(token);
+      }
+
+      // The last chunk carries the request's counts and timings
+      if (chunk.done) {
+        usage = this.toUsage(chunk);
+      }
+    });
+
+    if (!content) {
+      throw new Error('Invalid response format from Ollama');
+    }
+
+    if (usage) {
+      options.onUsage?.(usage);
+    }
+
+    return content;
+  }
+
+  /**
+   * Generates a response that may call tools
+   * @param messages - Array of chat messages
+   * @param options - Model and sampling settings
+   * @param tools - Tools the model may call
+   * @returns Promise resolving to the assistant message, with any tool calls
+   */
+  async chatWithTools(messages: ChatMessage[], options: CompletionOptions, tools: ToolDefinition[]): Promise<ChatMessage> {
+    const request: OllamaChatRequest = {
+      ...this.buildRequest(messages, options, false),
+      tools: tools.map(tool => ({ type: 'function', function: tool })),
+    };
+    const response = await this.client.post<OllamaChatResponse>(`${this.apiPath}/chat`, request, withSignal(options));
+
+    const message = response.data.message;
+    if (!message) {
+      throw new Error('Invalid response format from Ollama');
+    }
+    options.onUsage?.(this.toUsage(response.data));
+
+    // Ollama doesn't assign call IDs; results are matched by order and tool name
+    const toolCalls = (message.tool_calls ?? []).map((call, index) => ({
+      id: `call_${index}`,
+      name: call.function.name,
+      arguments: call.function.arguments ?? {},
+    }));
+
+    return {
+      role: 'assistant',
+      content: message.content ?? '',
+      ...(toolCalls.length > 0 && { toolCalls }),
+    };
+  }
+
+  /**
+   * Generates an embedding vector
+   * The embeddings endpoint reports no token counts, so there is no usage to pass on
+   * @param text - Text to generate embeddings for
+   * @param model - Embeddings model name
+   * @returns Promise resolving to the embedding vector
+   */
+  async embed(text: string, model: string): Promise<number[]> {
+    const response = await this.client.post(`${this.apiPath}/embeddings`, { model, prompt: text });
+
+    const embedding = response.data.embedding;
+    if (!embedding || !Array.isArray(embedding)) {
+      throw new Error('Invalid embedding response format from Ollama');
+    }
+
+    return embedding;
+  }
+
+  /**
+   * Lists locally available models
+   * @returns Promise resolving to array of model names
+   */
+  async listModels(): Promise<string[]> {
+    const response = await this.client.get(`${this.apiPath}/tags`);
+    return response.data.models?.map((model: any) => model.name) || [];
+  }
+
+  /**
+   * Verifies the server is reachable
+   * @returns Promise that resolves when the server responds
+   */
+  async checkHealth(): Promise<void> {
+    await this.client.get(`${this.apiPath}/tags`);
+  }
+
+  /**
+   * Looks up a model's context window
+   * Ollama runs models with the num_ctx from their Modelfile, or its own default,
+   * however long a context the model was trained for
+   * @param model - Model name
+   * @returns Promise resolving to the context window in tokens
+   */
+  async getContextLength(model: string): Promise<number | undefined> {
+    const response = await this.client.post(`${this.apiPath}/show`, { model });
+
+    const numCtx = String(response.data.parameters ?? '').match(/^num_ctx\s+(\d+)/m)?.[1];
+    if (numCtx) {
+      return Number(numCtx);
+    }
+
+    const modelInfo: Record<string, unknown> = response.data.model_info ?? {};
+    const trained = Object.entries(modelInfo).find(([key]) => key.endsWith('.context_length'))?.[1];
+    return typeof trained === 'number' ? Math.min(trained, OLLAMA_DEFAULT_NUM_CTX) : OLLAMA_DEFAULT_NUM_CTX;
+  }
+
+  /**
+   * Builds a chat request body
+   */
+  private buildRequest(messages: ChatMessage[], options: CompletionOptions, stream: boolean): OllamaChatRequest {
+    return {
+      model: options.model,
+      messages: messages.map(message => this.toOllamaMessage(message)),
+      stream,
+      options: {
+        ...(options.temperature !== undefined && { temperature: options.temperature }),
+        ...(options.maxTokens !== undefined && { num_predict: options.maxTokens }),
+        ...(options.topP !== undefined && { top_p: options.topP }),
+        ...(options.contextLength !== undefined && { num_ctx: options.contextLength }),
+      }
+    };
+  }
+
+  /**
+   * Extracts token counts and generation time from a response (durations are in nanoseconds)
+   */
+  private toUsage(response: OllamaChatResponse): ProviderUsage {
+    return {
+      promptTokens: response.prompt_eval_count,
+      completionTokens: response.eval_count,
+      generationMs: response.eval_duration !== undefined ? response.eval_duration / 1e6 : undefined,
+    };
+  }
+
+  /**
+   * Converts a chat message to Ollama's wire format
+   */
+  private toOllamaMessage(message: ChatMessage): OllamaMessage {
+    return {
+      role: message.role,
+      content: message.content,
+      ...(message.toolCalls && {
+        tool_calls: message.toolCalls.map(call => ({ function: { name: call.name, arguments: call.arguments } })),
+      }),
+      ...(message.toolName && { tool_name: message.toolName }),
+    };
+  }
+}
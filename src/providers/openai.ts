@@ -0,0 +1,256 @@
+import { AxiosInstance } from 'axios';
+import { Readable } from 'stream';
+import {
+  ChatMessage,
+  CompletionOptions,
+  EmbeddingsRequest,
+  EmbeddingsResponse,
+  ModelProvider,
+  OpenAIChatRequest,
+  OpenAIChatResponse,
+  OpenAIChatStreamChunk,
+  OpenAIMessage,
+  ProviderOptions,
+  ProviderUsage,
+  ToolDefinition
+} from '../types';
+import { createHttpClient, readStreamLines, withSignal } from './http';
+
+/**
+ * Completion length cap when the caller sets none; some servers otherwise generate until the context is full
+ */
+const DEFAULT_MAX_TOKENS = 1000;
+
+/**
+ * Provider for servers speaking the OpenAI chat completions API
+ * Covers Docker Model Runner, llama.cpp server, vLLM, LM Studio and OpenAI itself;
+ * they differ only in base URL, API path and whether an API key is needed
+ */
+export class OpenAICompatibleProvider implements ModelProvider {
+  readonly name: string;
+  private client: AxiosInstance;
+  private apiPath: string;
+
+  /**
+   * Creates a new OpenAICompatibleProvider instance
+   * @param options - Connection settings
+   */
+  constructor(options: ProviderOptions) {
+    this.name = options.name;
+    this.apiPath = options.apiPath;
+    this.client = createHttpClient(options);
+  }
+
+  /**
+   * Generates a complete response
+   * @param messages - Array of chat messages
+   * @param options - Model and sampling settings
+   * @returns Promise resolving to the assistant's response
+   */
+  async chat(messages: ChatMessage[], options: CompletionOptions): Promise<string> {
+    const response = await this.client.post<OpenAIChatResponse>(
+      `${this.apiPath}/chat/completions`,
+      this.buildRequest(messages, options, false),
+      withSignal(options)
+    );
+
+    const choice = response.data.choices?.[0];
+    if (!choice?.message?.content) {
+      throw new Error(`Invalid response format from ${this.name}`);
+    }
+
+    options.onUsage?.(this.toUsage(response.data.usage));
+    return choice.message.content;
+  }
+
+  /**
+   * Streams a response (server-sent events)
+   * @param messages - Array of chat messages
+   * @param options - Model and sampling settings
+   * @param onToken - Callback invoked with each generated token
+   * @returns Promise resolving to the complete assistant response
+   */
+  async stream(
+    messages: ChatMessage[],
+    options: CompletionOptions,
+    onToken: (token: string) => void
+  ): Promise<string> {
+    const response = await this.client.post<Readable>(
+      `${this.apiPath}/chat/completions`,
+      this.buildRequest(messages, options, true),
+      withSignal(options, { responseType: 'stream' })
+    );
+
+    let content = '';
+    let usage: ProviderUsage = {};
+    await readStreamLines(response.data, (line) => {
+      // SSE payload lines look like "data: {...}", ending with "data: [DONE]"
+      if (!line.startsWith('data:')) return;
+      const data = line.slice('data:'.length).trim();
+      if (data === '[DONE]') return;
+
+      const chunk: OpenAIChatStreamChunk = JSON.parse(data);
+      const token = chunk.choices?.[0]?.delta?.content;
+      if (token) {
+        content += token;
+        onToken(token);
+      }
+      if (chunk.usage) {
+        usage = this.toUsage(chunk.usage);
+      }
+    });
+
+    if (!content) {
+      throw new Error(`Invalid response format from ${this.name}`);
+    }
+
+    options.onUsage?.(usage);
+
+    return content;
+  }
+
+  /**
+   * Generates a response that may call tools (OpenAI function calling)
+   * @param messages - Array of chat messages
+   * @param options - Model and sampling settings
+   * @param tools - Tools the model may call
+   * @returns Promise resolving to the assistant message, with any tool calls
+   */
+  async chatWithTools(messages: ChatMessage[], options: CompletionOptions, tools: ToolDefinition[]): Promise<ChatMessage> {
+    const request: OpenAIChatRequest = {
+      ...this.buildRequest(messages, options, false),
+      tools: tools.map(tool => ({ type: 'function', function: tool })),
+    };
+    const response = await this.client.post<OpenAIChatResponse>(`${this.apiPath}/chat/completions`, request, withSignal(options));
+
+    const message = response.data.choices?.[0]?.message;
+    if (!message) {
+      throw new Error(`Invalid response format from ${this.name}`);
+    }
+    options.onUsage?.(this.toUsage(response.data.usage));
+
+    const toolCalls = (message.tool_calls ?? []).map(call => ({
+      id: call.id,
+      name: call.function.name,
+      arguments: this.parseArguments(call.function.arguments),
+    }));
+
+    return {
+      role: 'assistant',
+      content: message.content ?? '',
+      ...(toolCalls.length > 0 && { toolCalls }),
+    };
+  }
+
+  /**
+   * Generates an embedding vector
+   * @param text - Text to generate embeddings for
+   * @param model - Embeddings model name
+   * @param onUsage - Receives the input's token count, if the server reports it
+   * @returns Promise resolving to the embedding vector
+   */
+  async embed(text: string, model: string, onUsage?: (usage: ProviderUsage) => void): Promise<number[]> {
+    const request: EmbeddingsRequest = {
+      model,
+      input: text,
+      encoding_format: 'float'
+    };
+
+    const response = await this.client.post<EmbeddingsResponse>(`${this.apiPath}/embeddings`, request);
+
+    const embedding = response.data.data?.[0]?.embedding;
+    if (!embedding || !Array.isArray(embedding)) {
+      throw new Error(`Invalid embedding response format from ${this.name}`);
+    }
+
+    onUsage?.({ promptTokens: response.data.usage?.prompt_tokens });
+    return embedding;
+  }
+
+  /**
+   * Lists the models the server offers
+   * @returns Promise resolving to array of model IDs
+   */
+  async listModels(): Promise<string[]> {
+    const response = await this.client.get(`${this.apiPath}/models`);
+    return response.data.data?.map((model: any) => model.id) || [];
+  }
+
+  /**
+   * Verifies the server is reachable
+   * @returns Promise that resolves when the server responds
+   */
+  async checkHealth(): Promise<void> {
+    await this.client.get(`${this.apiPath}/models`);
+  }
+
+  /**
+   * Looks up a model's context window from the model list
+   * The field isn't part of the OpenAI API; vLLM, LM Studio and llama.cpp server each report it differently
+   * @param model - Model ID
+   * @returns Promise resolving to the context window in tokens, or undefined if the server doesn't say
+   */
+  async getContextLength(model: string): Promise<number | undefined> {
+    const response = await this.client.get(`${this.apiPath}/models`);
+    const entry = response.data.data?.find((candidate: any) => candidate.id === model);
+    const length = entry?.max_model_len ?? entry?.context_length ?? entry?.max_context_length ?? entry?.meta?.n_ctx_train;
+    return typeof length === 'number' && length > 0 ? length : undefined;
+  }
+
+  /**
+   * Builds a chat completion request body
+   */
+  private buildRequest(messages: ChatMessage[], options: CompletionOptions, stream: boolean): OpenAIChatRequest {
+    return {
+      model: options.model,
+      messages: messages.map(message => this.toOpenAIMessage(message)),
+      max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+      ...(options.temperature !== undefined && { temperature: options.temperature }),
+      ...(options.topP !== undefined && { top_p: options.topP }),
+      ...(stream && { stream: true, stream_options: { include_usage: true } }),
+    };
+  }
+
+  /**
+   * Converts reported usage statistics; servers that don't report them give an empty usage
+   */
+  private toUsage(usage: { prompt_tokens: number; completion_tokens: number } | null | undefined): ProviderUsage {
+    return usage ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens } : {};
+  }
+
+  /**
+   * Converts a chat message to the OpenAI wire format
+   */
+  private toOpenAIMessage(message: ChatMessage): OpenAIMessage {
+    if (message.toolCalls) {
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+      };
+    }
+
+    return {
+      role: message.role,
+      content: message.content,
+      ...(message.toolCallId && { tool_call_id: message.toolCallId }),
+    };
+  }
+
+  /**
+   * Parses tool call arguments, which arrive as a JSON string that small models sometimes garble
+   */
+  private parseArguments(json: string): Record<string, unknown> {
+    try {
+      const parsed = JSON.parse(json || '{}');
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch {
+      console.warn(`[${this.name}] Could not parse tool arguments: ${json}`);
+      return {};
+    }
+  }
+}
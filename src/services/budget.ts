@@ -0,0 +1,227 @@
+import { ChatMessage, ContextPlan, ModelProfile, ModelProvider, Tokenizer } from '../types';
+import { appConfig } from '../config';
+import { getTokenizer, HeuristicTokenizer } from '../tokenizers';
+
+/**
+ * Context window assumed when it is neither configured nor reported by the server
+ */
+const FALLBACK_CONTEXT_WINDOW = 4096;
+
+/**
+ * Tokens each message costs on top of its content (role markers and separators)
+ */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Tokens set aside for the pipelines' phase instructions, which wrap the system prompt
+ */
+const PIPELINE_INSTRUCTION_TOKENS = 256;
+
+/**
+ * Share of the flexible budget intermediate phase outputs may take together, and the cap per phase
+ */
+const PHASE_OUTPUT_SHARE = 0.3;
+const MIN_PHASE_OUTPUT_TOKENS = 128;
+const MAX_PHASE_OUTPUT_TOKENS = 1024;
+
+/**
+ * Share of what remains after phase outputs that retrieved memories may take; history gets the rest
+ */
+const MEMORY_SHARE = 0.4;
+
+/**
+ * Fits prompts into the model's context window
+ * Plans each request up front, sharing the window out between memories, conversation
+ * history and intermediate phase outputs, then checks every call before it is sent:
+ * the oldest history goes first, and only then is the longest message shortened
+ */
+export class ContextBudgeter {
+  private provider: ModelProvider;
+  private tokenizer: Tokenizer;
+  private contextWindows: Map<string, Promise<number>> = new Map();
+
+  /**
+   * Creates a new ContextBudgeter instance
+   * @param provider - Provider to ask for the model's context window when it isn't configured
+   */
+  constructor(provider: ModelProvider) {
+    this.provider = provider;
+    this.tokenizer = getTokenizer(appConfig.tokenizer) ?? new HeuristicTokenizer();
+  }
+
+  /**
+   * Gets the context window a profile runs with: its own, the configured one, or the server's
+   * Each model is looked up once; failed lookups fall back to a conservative default and are retried next time
+   * @param profile - Model and generation settings
+   * @returns Promise resolving to the context window in tokens
+   */
+  async getContextWindow(profile: ModelProfile): Promise<number> {
+    if (profile.contextLength) {
+      return profile.contextLength;
+    }
+    if (appConfig.contextWindow > 0) {
+      return appConfig.contextWindow;
+    }
+
+    const model = profile.model;
+    let contextWindow = this.contextWindows.get(model);
+    if (!contextWindow) {
+      contextWindow = this.provider.getContextLength(model)
+        .then(length => {
+          const window = length ?? FALLBACK_CONTEXT_WINDOW;
+          console.log(`[Budget] Context window for ${model}: ${window} tokens${length ? '' : ' (not reported by the server, assumed)'}`);
+          return window;
+        })
+        .catch(error => {
+          console.warn(`[Budget] Failed to look up the context window for ${model}, assuming ${FALLBACK_CONTEXT_WINDOW} tokens:`, error.message ?? error);
+          this.contextWindows.delete(model);
+          return FALLBACK_CONTEXT_WINDOW;
+        });
+      this.contextWindows.set(model, contextWindow);
+    }
+
+    return contextWindow;
+  }
+
+  /**
+   * Estimates the tokens in a text
+   * @param text - Text to measure
+   * @returns Estimated token count
+   */
+  countTokens(text: string): number {
+    return this.tokenizer.count(text);
+  }
+
+  /**
+   * Estimates the tokens a list of messages takes up in a prompt
+   * @param messages - Chat messages
+   * @returns Estimated token count
+   */
+  countMessages(messages: ChatMessage[]): number {
+    return messages.reduce((total, message) => total + this.countMessage(message), 0);
+  }
+
+  /**
+   * Shares out the context window for one request
+   * @param profile - Model and generation settings the request runs with
+   * @param fixedText - Text every prompt of the request contains in full (system prompt, the question)
+   * @param intermediatePhases - Number of phases whose output is fed into later prompts
+   * @returns Promise resolving to the plan
+   */
+  async plan(profile: ModelProfile, fixedText: string[], intermediatePhases: number): Promise<ContextPlan> {
+    const window = await this.getContextWindow(profile);
+    const fixedTokens = fixedText.reduce((total, text) => total + this.countTokens(text) + MESSAGE_OVERHEAD_TOKENS, 0)
+      + (intermediatePhases > 0 ? PIPELINE_INSTRUCTION_TOKENS : 0);
+    const available = Math.max(0, window - appConfig.contextResponseReserve - fixedTokens);
+
+    const phaseOutputTokens = intermediatePhases > 0
+      ? Math.max(MIN_PHASE_OUTPUT_TOKENS, Math.min(MAX_PHASE_OUTPUT_TOKENS, Math.floor(available * PHASE_OUTPUT_SHARE / intermediatePhases)))
+      : 0;
+    const remaining = Math.max(0, available - phaseOutputTokens * intermediatePhases);
+    const memoryTokens = Math.floor(remaining * MEMORY_SHARE);
+
+    return {
+      window,
+      available,
+      memoryTokens,
+      historyTokens: remaining - memoryTokens,
+      phaseOutputTokens,
+    };
+  }
+
+  /**
+   * Keeps as much of the most recent conversation history as fits
+   * @param history - Chronologically ordered history
+   * @param maxTokens - Tokens the history may take up
+   * @returns The newest messages that fit, in order
+   */
+  trimHistory(history: ChatMessage[], maxTokens: number): ChatMessage[] {
+    let used = 0;
+    let start = history.length;
+    while (start > 0) {
+      const cost = this.countMessage(history[start - 1]!);
+      if (used + cost > maxTokens) break;
+      used += cost;
+      start--;
+    }
+
+    if (start > 0) {
+      console.log(`[Budget] Dropped ${start} of ${history.length} history messages to fit ${maxTokens} tokens`);
+    }
+    return history.slice(start);
+  }
+
+  /**
+   * Makes sure a prompt leaves room for the answer before it is sent
+   * Drops conversation history before the current question, oldest first; if that isn't
+   * enough, cuts the middle out of the longest message
+   * @param messages - Prompt messages
+   * @param profile - Model and generation settings the prompt is sent with
+   * @returns Promise resolving to messages that fit, or the original messages if they already do
+   */
+  async fitMessages(messages: ChatMessage[], profile: ModelProfile): Promise<ChatMessage[]> {
+    const limit = (await this.getContextWindow(profile)) - appConfig.contextResponseReserve;
+    let total = this.countMessages(messages);
+    if (total <= limit) {
+      return messages;
+    }
+
+    const originalTotal = total;
+    let fitted = [...messages];
+
+    // History is every non-system message before the last user turn
+    const lastUser = fitted.map(message => message.role).lastIndexOf('user');
+    let dropped = 0;
+    for (let index = 0; index < lastUser - dropped && total > limit;) {
+      const message = fitted[index]!;
+      if (message.role === 'system') {
+        index++;
+        continue;
+      }
+      total -= this.countMessage(message);
+      fitted.splice(index, 1);
+      dropped++;
+    }
+
+    if (total > limit) {
+      fitted = this.shortenLongest(fitted, total - limit);
+      total = this.countMessages(fitted);
+    }
+
+    console.warn(`[Budget] Prompt of ${originalTotal} tokens exceeded ${limit}; dropped ${dropped} history messages, now ${total} tokens`);
+    return fitted;
+  }
+
+  /**
+   * Cuts the middle out of the longest message, keeping its start and end
+   * @param messages - Prompt messages
+   * @param excessTokens - Tokens to remove
+   * @returns Messages with the longest one shortened
+   */
+  private shortenLongest(messages: ChatMessage[], excessTokens: number): ChatMessage[] {
+    let longest = 0;
+    messages.forEach((message, index) => {
+      if (message.content.length > messages[longest]!.content.length) longest = index;
+    });
+
+    const message = messages[longest]!;
+    const tokens = Math.max(1, this.countTokens(message.content));
+    const charsPerToken = message.content.length / tokens;
+    const cut = Math.min(message.content.length, Math.ceil((excessTokens + 32) * charsPerToken));
+    const keep = message.content.length - cut;
+    const head = message.content.substring(0, Math.ceil(keep / 2));
+    const tail = message.content.substring(message.content.length - Math.floor(keep / 2));
+
+    const shortened = [...messages];
+    shortened[longest] = { ...message, content: `${head}\n[… shortened to fit the context window …]\n${tail}` };
+    return shortened;
+  }
+
+  /**
+   * Estimates the tokens one message takes up, including tool calls
+   */
+  private countMessage(message: ChatMessage): number {
+    const toolCalls = message.toolCalls ? this.countTokens(JSON.stringify(message.toolCalls)) : 0;
+    return this.countTokens(message.content) + toolCalls + MESSAGE_OVERHEAD_TOKENS;
+  }
+}
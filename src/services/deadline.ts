@@ -0,0 +1,100 @@
+import { ApiError } from '../types';
+
+/**
+ * Checks whether an error is a request or phase running out of time
+ * @param error - Error thrown by a phase
+ * @returns True if the error came from a RequestDeadline
+ */
+export function isDeadlineExceeded(error: unknown): boolean {
+  return !!error && typeof error === 'object' && !(error instanceof Error) && (error as ApiError).code === 'TIMEOUT';
+}
+
+/**
+ * Shares the time one chat request may take out between its phases
+ * The clock starts when the first phase gets a slot, so waiting in line for it doesn't count.
+ * Each intermediate phase gets an equal share of the time left with the phases still to come;
+ * the final phase gets whatever is left. A phase is aborted when its share runs out, or
+ * straight away when the request itself is aborted.
+ */
+export class RequestDeadline {
+  private totalMs: number;
+  private intermediatePhasesLeft: number;
+  private signal: AbortSignal | undefined;
+  private startedAt: number | undefined;
+
+  /**
+   * Creates a new RequestDeadline instance
+   * @param totalMs - Time the whole request may take; 0 or less for no deadline
+   * @param intermediatePhases - Number of phases that run before the final one
+   * @param signal - Optional signal that stops the request, e.g. when the user cancels it
+   */
+  constructor(totalMs: number, intermediatePhases: number, signal?: AbortSignal) {
+    this.totalMs = totalMs;
+    this.intermediatePhasesLeft = intermediatePhases;
+    this.signal = signal;
+  }
+
+  /**
+   * Runs a phase within its share of the request's time
+   * @param phaseName - Name of the phase, for logs and the timeout error
+   * @param intermediate - Whether more phases follow; the final phase gets all the time left
+   * @param phase - Runs the phase, aborting its calls when the signal it is given aborts
+   * @returns Promise resolving to the phase's result
+   * @throws ApiError with code TIMEOUT if the phase ran out of time
+   */
+  async run<T>(phaseName: string, intermediate: boolean, phase: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const controller = new AbortController();
+    const stop = () => controller.abort(this.signal?.reason);
+    if (this.signal?.aborted) {
+      throw this.signal.reason;
+    }
+    this.signal?.addEventListener('abort', stop, { once: true });
+
+    let timer: NodeJS.Timeout | undefined;
+    let timedOut = false;
+    const shareMs = this.nextShare(intermediate);
+    if (shareMs !== undefined) {
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, shareMs);
+    }
+
+    try {
+      return await phase(controller.signal);
+    } catch (error) {
+      if (timedOut) {
+        const timeout: ApiError = {
+          message: `${phaseName} phase ran out of time after ${Math.round(shareMs! / 1000)}s`,
+          code: 'TIMEOUT',
+        };
+        throw timeout;
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      this.signal?.removeEventListener('abort', stop);
+    }
+  }
+
+  /**
+   * Works out how long the next phase may take
+   * @returns Milliseconds, or undefined if the request has no deadline
+   */
+  private nextShare(intermediate: boolean): number | undefined {
+    if (this.totalMs <= 0) {
+      return undefined;
+    }
+
+    this.startedAt ??= Date.now();
+    const remainingMs = Math.max(0, this.startedAt + this.totalMs - Date.now());
+    if (!intermediate) {
+      return remainingMs;
+    }
+
+    // The final phase counts as one of the phases still to come
+    const phasesLeft = this.intermediatePhasesLeft + 1;
+    this.intermediatePhasesLeft = Math.max(0, this.intermediatePhasesLeft - 1);
+    return Math.floor(remainingMs / phasesLeft);
+  }
+}
@@ -0,0 +1,70 @@
+import { appConfig } from '../config';
+
+/**
+ * Maximum number of keys remembered before the oldest are evicted
+ */
+const MAX_ENTRIES = 5000;
+
+/**
+ * Remembers recently seen event and message keys so each is handled only once
+ * Entries expire after a TTL and the cache is bounded in size
+ */
+export class EventDeduplicator {
+  private seen: Map<string, number> = new Map(); // Key -> expiry time, in insertion order
+  private ttlMs: number;
+  private maxEntries: number;
+
+  /**
+   * Creates a new EventDeduplicator instance
+   * @param ttlMs - How long a key is remembered
+   * @param maxEntries - Maximum number of keys remembered
+   */
+  constructor(ttlMs: number = appConfig.dedupTtlMs, maxEntries: number = MAX_ENTRIES) {
+    this.ttlMs = ttlMs;
+    this.maxEntries = maxEntries;
+  }
+
+  /**
+   * Claims a key for handling
+   * @param key - Event or message key (e.g. "event:Ev123" or "message:C123-1700000000.000100")
+   * @returns True if this is the first claim within the TTL, false if it is a duplicate
+   */
+  claim(key: string): boolean {
+    const now = Date.now();
+    this.evictExpired(now);
+
+    const expiresAt = this.seen.get(key);
+    if (expiresAt !== undefined && expiresAt > now) {
+      console.log(`[Dedup] Skipping duplicate ${key}`);
+      return false;
+    }
+
+    this.seen.set(key, now + this.ttlMs);
+    while (this.seen.size > this.maxEntries) {
+      const oldest = this.seen.keys().next().value;
+      if (oldest === undefined) break;
+      this.seen.delete(oldest);
+    }
+    return true;
+  }
+
+  /**
+   * Claims a Slack message by channel and timestamp
+   * @param channelId - Slack channel ID
+   * @param ts - Message timestamp
+   * @returns True if the message has not been handled yet
+   */
+  claimMessage(channelId: string, ts: string): boolean {
+    return this.claim(`message:${channelId}-${ts}`);
+  }
+
+  /**
+   * Drops expired keys; entries share one TTL, so insertion order is expiry order
+   */
+  private evictExpired(now: number): void {
+    for (const [key, expiresAt] of this.seen) {
+      if (expiresAt > now) break;
+      this.seen.delete(key);
+    }
+  }
+}
@@ -1,60 +1,64 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
+import axios, { AxiosError } from 'axios';
 import { 
-  EmbeddingsRequest, 
-  EmbeddingsResponse, 
   ApiError,
-  LLMProvider 
+  EndpointStatus,
+  UsageTags
 } from '../types';
 import { appConfig } from '../config';
+import { createFailoverProvider, FailoverProvider } from '../providers';
+import { UsageService } from './usage';
 
 /**
- * Service class for generating text embeddings using LLM APIs
- * Supports both Ollama and Docker Model Runner for embeddings generation
+ * Service class for generating text embeddings
+ * Uses the configured embeddings provider from the provider registry
  */
 export class EmbeddingsService {
-  private client: AxiosInstance;
-  private provider: LLMProvider;
+  private provider: FailoverProvider;
   private model: string;
+  private usage: UsageService | null = null;
 
   /**
    * Creates a new EmbeddingsService instance
-   * Configures axios client with embeddings-specific settings
+   * Creates the embeddings provider for each embeddings server, behind a failover provider
    */
   constructor() {
-    this.provider = appConfig.embeddingsProvider;
     this.model = appConfig.embeddingsModel;
-    
-    this.client = axios.create({
-      baseURL: appConfig.embeddingsBaseUrl,
+    this.provider = createFailoverProvider('embeddings', {
+      name: appConfig.embeddingsProvider,
+      apiPath: appConfig.embeddingsApiPath,
       timeout: appConfig.embeddingsTimeout,
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
+      apiKey: appConfig.embeddingsApiKey,
+    }, appConfig.embeddingsBaseUrls, appConfig.failover);
+  }
 
-    // Add request interceptor for logging
-    this.client.interceptors.request.use(
-      (config) => {
-        console.log(`[${this.provider}] Embeddings request to: ${config.method?.toUpperCase()} ${config.url}`);
-        return config;
-      },
-      (error) => {
-        console.error(`[${this.provider}] Embeddings request error:`, error);
-        return Promise.reject(error);
-      }
-    );
+  /**
+   * Sets where the usage of embedding calls is recorded
+   * @param usage - Usage accounting service
+   */
+  setUsageService(usage: UsageService): void {
+    this.usage = usage;
+  }
 
-    // Add response interceptor for logging
-    this.client.interceptors.response.use(
-      (response) => {
-        console.log(`[${this.provider}] Embeddings response received: ${response.status}`);
-        return response;
-      },
-      (error) => {
-        console.error(`[${this.provider}] Embeddings response error:`, error.response?.status, error.message);
-        return Promise.reject(error);
-      }
-    );
+  /**
+   * Starts background health checks of the embeddings servers
+   */
+  startHealthChecks(): void {
+    this.provider.startHealthChecks();
+  }
+
+  /**
+   * Stops background health checks of the embeddings servers
+   */
+  stopHealthChecks(): void {
+    this.provider.stopHealthChecks();
+  }
+
+  /**
+   * Gets the health of each embeddings server
+   * @returns Endpoint states in order of preference
+   */
+  getEndpointStatus(): EndpointStatus[] {
+    return this.provider.getStatus();
   }
 
   /**
@@ -63,40 +67,37 @@ export class EmbeddingsService {
    */
   async testConnection(): Promise<void> {
     try {
-      if (this.provider === 'docker-model-runner') {
-        await this.client.get('/engines/llama.cpp/v1/models');
-      } else {
-        await this.client.get('/api/tags');
-      }
-      console.log(`[${this.provider}] Embeddings connection test successful`);
+      await this.provider.checkHealth();
+      console.log(`[${this.provider.name}] Embeddings connection test successful`);
     } catch (error) {
-      console.error(`[${this.provider}] Embeddings connection test failed:`, error);
-      throw new Error(`Failed to connect to ${this.provider} for embeddings: ${error}`);
+      console.error(`[${this.provider.name}] Embeddings connection test failed:`, error);
+      throw new Error(`Failed to connect to ${this.provider.name} for embeddings: ${error}`);
     }
   }
 
   /**
    * Generates embeddings for the given text
    * @param text - Text to generate embeddings for
+   * @param tags - Who the embedding is generated for, recorded with its usage
    * @returns Promise resolving to the embedding vector
    */
-  async generateEmbedding(text: string): Promise<number[]> {
+  async generateEmbedding(text: string, tags: UsageTags = {}): Promise<number[]> {
     try {
       // Truncate text if too long (most embedding models have token limits)
       const maxLength = 8000; // Conservative limit for most embedding models
       const truncatedText = text.length > maxLength ? text.substring(0, maxLength) + '...' : text;
       
       if (text.length > maxLength) {
-        console.log(`[${this.provider}] Truncated text from ${text.length} to ${truncatedText.length} characters for embeddings`);
+        console.log(`[${this.provider.name}] Truncated text from ${text.length} to ${truncatedText.length} characters for embeddings`);
       }
 
-      if (this.provider === 'docker-model-runner') {
-        return await this.generateEmbeddingWithDockerModelRunner(truncatedText);
-      } else {
-        return await this.generateEmbeddingWithOllama(truncatedText);
+      if (!this.usage) {
+        return await this.provider.embed(truncatedText, this.model);
       }
+      return await this.usage.measure('embedding', 'Embedding', this.model, tags,
+        onUsage => this.provider.embed(truncatedText, this.model, onUsage));
     } catch (error) {
-      console.error(`[${this.provider}] Embedding generation error:`, error);
+      console.error(`[${this.provider.name}] Embedding generation error:`, error);
       throw this.handleError(error);
     }
   }
@@ -117,69 +118,28 @@ export class EmbeddingsService {
       }
       return embeddings;
     } catch (error) {
-      console.error(`[${this.provider}] Batch embedding generation error:`, error);
+      console.error(`[${this.provider.name}] Batch embedding generation error:`, error);
       throw this.handleError(error);
     }
   }
 
-  /**
-   * Handles embedding generation with Docker Model Runner (OpenAI-compatible API)
-   * @param text - Text to generate embeddings for
-   * @returns Promise resolving to the embedding vector
-   */
-  private async generateEmbeddingWithDockerModelRunner(text: string): Promise<number[]> {
-    const request: EmbeddingsRequest = {
-      model: this.model,
-      input: text,
-      encoding_format: 'float'
-    };
-
-    const response = await this.client.post<EmbeddingsResponse>(
-      '/engines/llama.cpp/v1/embeddings',
-      request
-    );
-
-    const embedding = response.data.data?.[0]?.embedding;
-    if (!embedding || !Array.isArray(embedding)) {
-      throw new Error('Invalid embedding response format from Docker Model Runner');
-    }
-
-    return embedding;
-  }
-
-  /**
-   * Handles embedding generation with Ollama
-   * @param text - Text to generate embeddings for
-   * @returns Promise resolving to the embedding vector
-   */
-  private async generateEmbeddingWithOllama(text: string): Promise<number[]> {
-    const request = {
-      model: this.model,
-      prompt: text
-    };
-
-    const response = await this.client.post('/api/embeddings', request);
-
-    const embedding = response.data.embedding;
-    if (!embedding || !Array.isArray(embedding)) {
-      throw new Error('Invalid embedding response format from Ollama');
-    }
-
-    return embedding;
-  }
-
   /**
    * Handles and formats errors from the embeddings service
    * @param error - The error to handle
    * @returns Formatted ApiError
    */
   private handleError(error: unknown): ApiError {
+    // Errors raised when every endpoint is down are already formatted
+    if (error && typeof error === 'object' && !(error instanceof Error) && 'code' in error && 'message' in error) {
+      return error as ApiError;
+    }
+
     if (axios.isAxiosError(error)) {
       const axiosError = error as AxiosError;
       
       if (axiosError.code === 'ECONNREFUSED') {
         return {
-          message: `Cannot connect to ${this.provider} for embeddings. Is it running?`,
+          message: `Cannot connect to ${this.provider.name} for embeddings. Is it running?`,
           code: 'CONNECTION_REFUSED',
           details: axiosError.message
         };
@@ -187,7 +147,7 @@ export class EmbeddingsService {
       
       if (axiosError.code === 'ECONNABORTED') {
         return {
-          message: `Embeddings request to ${this.provider} timed out`,
+          message: `Embeddings request to ${this.provider.name} timed out`,
           code: 'TIMEOUT',
           details: axiosError.message
         };
@@ -195,7 +155,7 @@ export class EmbeddingsService {
       
       if (axiosError.response) {
         return {
-          message: `${this.provider} embeddings API error: ${axiosError.response.status}`,
+          message: `${this.provider.name} embeddings API error: ${axiosError.response.status}`,
           code: axiosError.response.status.toString(),
           details: axiosError.response.data
         };
@@ -203,7 +163,7 @@ export class EmbeddingsService {
     }
     
     return {
-      message: `Unexpected error with ${this.provider} embeddings`,
+      message: `Unexpected error with ${this.provider.name} embeddings`,
       code: 'UNKNOWN_ERROR',
       details: error
     };
@@ -0,0 +1,331 @@
+import { KnownBlock } from '@slack/bolt';
+import { FormattedMessage } from '../types';
+import { appConfig } from '../config';
+
+/**
+ * Maximum characters of text in a section block (Slack limit)
+ */
+const SECTION_TEXT_LIMIT = 3000;
+
+/**
+ * Maximum number of blocks in one message (Slack limit)
+ */
+const MAX_BLOCKS_PER_MESSAGE = 50;
+
+/**
+ * Maximum characters of reply text in one message before it continues in a follow-up
+ */
+const MESSAGE_TEXT_LIMIT = 12000;
+
+/**
+ * Maximum characters of the preview posted alongside an uploaded reply
+ */
+const FILE_PREVIEW_LENGTH = 500;
+
+/**
+ * Separator row below a Markdown table header, e.g. "|---|:---:|"
+ */
+const TABLE_SEPARATOR = /^\s*\|?(\s*:?-+:?\s*\|)+\s*(:?-+:?\s*)?$/;
+
+/**
+ * A run of reply lines rendered the same way, already converted to mrkdwn
+ */
+interface Segment {
+  kind: 'text' | 'preformatted';
+  content: string;
+}
+
+/**
+ * Converts LLM Markdown into Slack mrkdwn and Block Kit messages
+ * Code blocks and tables become preformatted blocks, and replies exceeding
+ * Slack's size limits are split across sections and follow-up messages
+ */
+export class ResponseFormatter {
+  private fileThreshold: number;
+
+  /**
+   * Creates a new ResponseFormatter instance
+   * @param fileThreshold - Reply length above which the reply should be uploaded as a file (0 disables)
+   */
+  constructor(fileThreshold: number = appConfig.responseFileThreshold) {
+    this.fileThreshold = fileThreshold;
+  }
+
+  /**
+   * Converts Markdown to mrkdwn text, e.g. for previews of a partial reply
+   * @param markdown - Markdown text
+   * @returns Slack mrkdwn text
+   */
+  toMrkdwn(markdown: string): string {
+    return this.parseSegments(markdown)
+      .map(segment => segment.kind === 'text' ? segment.content : this.fence(segment.content))
+      .join('\n');
+  }
+
+  /**
+   * Renders a Markdown reply as one or more Slack messages
+   * @param markdown - Markdown reply from the LLM
+   * @returns Messages to post in order; the first is the reply, the rest are follow-ups
+   */
+  format(markdown: string): FormattedMessage[] {
+    const chunks = this.parseSegments(markdown).flatMap(segment => this.chunkSegment(segment));
+    if (chunks.length === 0) {
+      return [this.toMessage(['…'])];
+    }
+
+    const messages: FormattedMessage[] = [];
+    let current: string[] = [];
+    let length = 0;
+
+    for (const chunk of chunks) {
+      if (current.length > 0 && (current.length >= MAX_BLOCKS_PER_MESSAGE || length + chunk.length > MESSAGE_TEXT_LIMIT)) {
+        messages.push(this.toMessage(current));
+        current = [];
+        length = 0;
+      }
+      current.push(chunk);
+      length += chunk.length;
+    }
+    messages.push(this.toMessage(current));
+
+    return messages;
+  }
+
+  /**
+   * Checks whether a reply is too long to post and should be uploaded as a file
+   * @param markdown - Markdown reply from the LLM
+   */
+  shouldUploadAsFile(markdown: string): boolean {
+    return this.fileThreshold > 0 && markdown.length > this.fileThreshold;
+  }
+
+  /**
+   * Builds the message posted in place of a reply that is uploaded as a file
+   * Shows the opening paragraph of the reply as a preview
+   * @param markdown - Markdown reply from the LLM
+   */
+  formatFileNotice(markdown: string): FormattedMessage {
+    const firstText = this.parseSegments(markdown).find(segment => segment.kind === 'text')?.content ?? '';
+    let preview = firstText.split(/\n\s*\n/)[0]?.trim() ?? '';
+    if (preview.length > FILE_PREVIEW_LENGTH) {
+      const cut = preview.lastIndexOf(' ', FILE_PREVIEW_LENGTH - 1);
+      preview = `${preview.substring(0, cut > 0 ? cut : FILE_PREVIEW_LENGTH - 1)}…`;
+    }
+
+    const notice = `📄 The full answer (${markdown.length.toLocaleString('en-US')} characters) is attached as a file.`;
+    const blocks: KnownBlock[] = [{ type: 'context', elements: [{ type: 'mrkdwn', text: notice }] }];
+    if (preview) {
+      blocks.unshift({ type: 'section', text: { type: 'mrkdwn', text: preview } });
+    }
+
+    return { text: preview ? `${preview}\n${notice}` : notice, blocks };
+  }
+
+  /**
+   * Splits Markdown into prose and preformatted (code and table) segments
+   */
+  private parseSegments(markdown: string): Segment[] {
+    const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+    const segments: Segment[] = [];
+    let textLines: string[] = [];
+
+    const flushText = () => {
+      if (textLines.some(line => line.trim())) {
+        segments.push({ kind: 'text', content: this.renderText(textLines) });
+      }
+      textLines = [];
+    };
+
+    let i = 0;
+    while (i < lines.length) {
+      const line = lines[i] ?? '';
+      const fence = line.match(/^\s*(`{3,}|~{3,})/);
+
+      if (fence?.[1]) {
+        // Fenced code block; an unterminated fence (e.g. mid-stream) runs to the end
+        flushText();
+        const marker = fence[1];
+        const codeLines: string[] = [];
+        i++;
+        while (i < lines.length && !(lines[i] ?? '').trim().startsWith(marker)) {
+          codeLines.push(lines[i] ?? '');
+          i++;
+        }
+        i++;
+        segments.push({ kind: 'preformatted', content: this.escape(codeLines.join('\n')) });
+        continue;
+      }
+
+      if (line.includes('|') && TABLE_SEPARATOR.test(lines[i + 1] ?? '')) {
+        flushText();
+        const rows = [line];
+        i += 2;
+        while (i < lines.length && (lines[i] ?? '').includes('|')) {
+          rows.push(lines[i] ?? '');
+          i++;
+        }
+        segments.push({ kind: 'preformatted', content: this.escape(this.renderTable(rows)) });
+        continue;
+      }
+
+      textLines.push(line);
+      i++;
+    }
+    flushText();
+
+    return segments;
+  }
+
+  /**
+   * Converts prose lines to mrkdwn
+   */
+  private renderText(lines: string[]): string {
+    return lines.map(line => this.renderLine(line)).join('\n').trim();
+  }
+
+  /**
+   * Converts block-level Markdown on a single line: headings, rules, quotes and bullets
+   */
+  private renderLine(line: string): string {
+    const heading = line.match(/^\s{0,3}#{1,6}\s+(.+?)\s*#*\s*$/);
+    if (heading?.[1]) {
+      // Slack has no headings; bold is the closest match
+      return `*${this.renderInline(heading[1].replace(/\*\*|__/g, ''))}*`;
+    }
+
+    if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      return '──────────';
+    }
+
+    const quote = line.match(/^\s*>\s?(.*)$/);
+    if (quote) {
+      return `> ${this.renderLine(quote[1] ?? '')}`;
+    }
+
+    const bullet = line.match(/^(\s*)[-*+]\s+(.*)$/);
+    if (bullet) {
+      return `${bullet[1] ?? ''}• ${this.renderInline(bullet[2] ?? '')}`;
+    }
+
+    return this.renderInline(line);
+  }
+
+  /**
+   * Converts inline Markdown (emphasis, links, code spans) to mrkdwn and escapes the rest
+   */
+  private renderInline(text: string): string {
+    // Spans that must not be touched by emphasis conversion are set aside and restored at the end
+    const stash: string[] = [];
+    const keep = (value: string) => `\u0000${stash.push(value) - 1}\u0000`;
+
+    const converted = this.escape(
+      text
+        .replace(/`([^`\n]+)`/g, (_, code: string) => keep(`\`${this.escape(code)}\``))
+        // Slack's own markup (mentions, channel links, URLs) passes through untouched
+        .replace(/<(?:[@#!][^<>\s]+|(?:https?|mailto):[^<>\s]+)>/g, match => keep(match))
+        .replace(/!?\[([^\]\n]*)\]\(\s*<?([^()\s<>]+)>?(?:\s+"[^"]*")?\s*\)/g, (_, label: string, url: string) => {
+          const plainLabel = label.replace(/\*\*|__|`/g, '').trim();
+          return keep(plainLabel ? `<${this.escape(url)}|${this.escape(plainLabel)}>` : `<${this.escape(url)}>`);
+        })
+    )
+      .replace(/(?<![*\w])\*(?![\s*])([^*\n]+?)(?<![\s*])\*(?![*\w])/g, '_$1_')
+      .replace(/\*\*\*(?!\s)(.+?)(?<!\s)\*\*\*/g, '*_$1_*')
+      .replace(/\*\*(?!\s)(.+?)(?<!\s)\*\*/g, '*$1*')
+      .replace(/__(?!\s)(.+?)(?<!\s)__/g, '*$1*')
+      .replace(/~~(?!\s)(.+?)(?<!\s)~~/g, '~$1~');
+
+    return converted.replace(/\u0000(\d+)\u0000/g, (_, index: string) => stash[Number(index)] ?? '');
+  }
+
+  /**
+   * Renders Markdown table rows as aligned plain-text columns
+   * @param rows - Header row followed by body rows (separator row removed)
+   */
+  private renderTable(rows: string[]): string {
+    const cells = rows.map(row => this.splitCells(row));
+    const columnCount = Math.max(...cells.map(row => row.length));
+    const widths = Array.from({ length: columnCount }, (_, column) =>
+      Math.max(...cells.map(row => (row[column] ?? '').length))
+    );
+    const renderRow = (row: string[]) => widths.map((width, column) => (row[column] ?? '').padEnd(width)).join(' | ').trimEnd();
+
+    const [header = [], ...body] = cells;
+    return [
+      renderRow(header),
+      widths.map(width => '-'.repeat(width)).join('-+-'),
+      ...body.map(renderRow),
+    ].join('\n');
+  }
+
+  /**
+   * Splits a table row into cell texts, dropping inline emphasis and code markers
+   */
+  private splitCells(row: string): string[] {
+    return row
+      .trim()
+      .replace(/^\|/, '')
+      .replace(/\|$/, '')
+      .split(/(?<!\\)\|/)
+      .map(cell => cell.replace(/\\\|/g, '|').replace(/\*\*|__|`/g, '').trim());
+  }
+
+  /**
+   * Splits a segment into pieces that each fit in a section block
+   */
+  private chunkSegment(segment: Segment): string[] {
+    if (segment.kind === 'text') {
+      return this.splitText(segment.content, SECTION_TEXT_LIMIT, false);
+    }
+    // Leave room for the fences wrapped around each piece
+    return this.splitText(segment.content, SECTION_TEXT_LIMIT - 8, true).map(chunk => this.fence(chunk));
+  }
+
+  /**
+   * Splits text into chunks no longer than a limit
+   * Prose breaks at paragraphs, then lines, then words; preformatted text only at lines
+   */
+  private splitText(text: string, limit: number, preformatted: boolean): string[] {
+    const separators = preformatted ? ['\n'] : ['\n\n', '\n', ' '];
+    const chunks: string[] = [];
+    let rest = text;
+
+    while (rest.length > limit) {
+      let cut = -1;
+      for (const separator of separators) {
+        cut = rest.lastIndexOf(separator, limit);
+        if (cut > 0) break;
+      }
+      if (cut <= 0) cut = limit;
+
+      chunks.push(preformatted ? rest.substring(0, cut) : rest.substring(0, cut).trimEnd());
+      rest = preformatted ? rest.substring(cut).replace(/^\n/, '') : rest.substring(cut).trimStart();
+    }
+    if (rest) chunks.push(rest);
+
+    return chunks;
+  }
+
+  /**
+   * Wraps text in a code block
+   */
+  private fence(code: string): string {
+    return `\`\`\`\n${code}\n\`\`\``;
+  }
+
+  /**
+   * Escapes the characters Slack treats as markup
+   */
+  private escape(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
+  /**
+   * Builds a message with one section block per chunk
+   */
+  private toMessage(chunks: string[]): FormattedMessage {
+    return {
+      text: chunks.join('\n'),
+      blocks: chunks.map(chunk => ({ type: 'section', text: { type: 'mrkdwn', text: chunk } })),
+    };
+  }
+}
@@ -1,4 +1,19 @@
 export { LLMService } from './ollama';
 export { EmbeddingsService } from './embeddings';
 export { VectorStore } from './vectorstore';
-export { MemoryService } from './memory'; 
\ No newline at end of file
+export { MemoryService } from './memory';
+export { ThreadTracker } from './threads';
+export { RequestScheduler } from './scheduler';
+export { EventDeduplicator } from './dedup';
+export { ResponseFormatter } from './formatter';
+export { ParticipationEngine } from './participation';
+export { NameMatcher } from './names';
+export { SlackMarkup } from './markup';
+export { ReasoningRouter, DirectPipeline, StructuredPipeline, CritiquePipeline } from './reasoning';
+export { ContextBudgeter } from './budget';
+export { PersonaService } from './personas';
+export { PromptService, PromptSession } from './prompts';
+export { MemoryIntentParser } from './intents';
+export { UsageService } from './usage';
+export { RequestDeadline, isDeadlineExceeded } from './deadline';
+export { InFlightRequests } from './inflight';
@@ -0,0 +1,94 @@
+import { InFlightRequest } from '../types';
+import { appConfig } from '../config';
+
+/**
+ * Keeps track of the replies being generated so they can be stopped
+ * The asker or an admin can stop a request by reacting to the question or the reply, or by
+ * saying "stop" in the conversation; deleting the question stops it too
+ */
+export class InFlightRequests {
+  private requests: Set<InFlightRequest> = new Set();
+
+  /**
+   * Registers a request that is about to be generated
+   * @param channelId - Slack channel ID
+   * @param sourceTs - Timestamp of the message being answered
+   * @param threadTs - Thread the reply goes to, if any
+   * @param userId - Slack user ID of the asker
+   * @returns The request, whose controller's signal is passed to the LLM service
+   */
+  start(channelId: string, sourceTs: string, threadTs: string | undefined, userId: string): InFlightRequest {
+    const request: InFlightRequest = { channelId, sourceTs, threadTs, userId, questionDeleted: false, controller: new AbortController() };
+    this.requests.add(request);
+    return request;
+  }
+
+  /**
+   * Removes a request once it has been answered, failed or been stopped
+   * @param request - The request
+   */
+  finish(request: InFlightRequest): void {
+    this.requests.delete(request);
+  }
+
+  /**
+   * Stops the request for a message, found by the question or the reply
+   * @param channelId - Slack channel ID
+   * @param ts - Timestamp of the question or of the reply
+   * @param userId - Slack user ID of whoever asked to stop, or null when the question was deleted
+   * @returns Whether a request was stopped
+   */
+  cancelMessage(channelId: string, ts: string, userId: string | null): boolean {
+    const request = [...this.requests].find(request =>
+      request.channelId === channelId && (request.sourceTs === ts || request.replyTs === ts));
+    if (!request) {
+      return false;
+    }
+
+    if (userId === null) {
+      request.questionDeleted = true;
+      this.cancel(request, 'its question was deleted');
+      return true;
+    }
+    if (!this.mayCancel(request, userId)) {
+      console.log(`[InFlight] ${userId} may not stop ${request.userId}'s request in ${channelId}`);
+      return false;
+    }
+    this.cancel(request, `${userId} stopped it`);
+    return true;
+  }
+
+  /**
+   * Stops a user's requests in a conversation
+   * @param channelId - Slack channel ID
+   * @param threadTs - Thread to stop requests in, or undefined for the whole conversation
+   * @param userId - Slack user ID of whoever asked to stop
+   * @returns Number of requests stopped
+   */
+  cancelConversation(channelId: string, threadTs: string | undefined, userId: string): number {
+    const matching = [...this.requests].filter(request =>
+      !request.controller.signal.aborted &&
+      request.channelId === channelId &&
+      request.userId === userId &&
+      (threadTs === undefined || request.threadTs === threadTs || request.sourceTs === threadTs));
+
+    matching.forEach(request => this.cancel(request, `${userId} asked to stop`));
+    return matching.length;
+  }
+
+  /**
+   * Aborts a request unless it was already stopped
+   */
+  private cancel(request: InFlightRequest, reason: string): void {
+    if (request.controller.signal.aborted) return;
+    console.log(`[InFlight] Stopping reply to ${request.channelId}-${request.sourceTs}: ${reason}`);
+    request.controller.abort();
+  }
+
+  /**
+   * Checks whether a user may stop a request: the asker and admins may
+   */
+  private mayCancel(request: InFlightRequest, userId: string): boolean {
+    return request.userId === userId || appConfig.adminUserIds.includes(userId);
+  }
+}
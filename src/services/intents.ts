@@ -0,0 +1,78 @@
+import { MemoryIntent } from '../types';
+import { NameMatcher } from './names';
+
+/**
+ * "remember that …", "remember: …", "note that …", "keep in mind that …", "don't forget that …"
+ */
+const REMEMBER = /^(?:please\s+)?(?:remember|note|keep\s+in\s+mind|don['’]?t\s+forget)(?:\s+(?:that|this)\b\s*:?|\s*:)\s*([\s\S]+?)\s*$/i;
+
+/**
+ * Requests that name what is to be forgotten as something Aidan remembers or was told:
+ * "forget what I told you about …", "forget that I …", "forget your memories about …",
+ * "delete what you remember about …"; a bare "forget …" is usually just talk
+ */
+const FORGET = /^(?:please\s+)?(?:forget\s+(?:what|everything|anything)\s+(?:i|we)\s+(?:said|told\s+you|mentioned|shared)\s+(?:about|regarding|on)\s+([\s\S]+?)|forget\s+(?:that|the\s+fact\s+that)\s+((?:i|i['’]m|my|we|we['’]re|our)\b[\s\S]+?)|(?:forget|delete|remove|erase)\s+(?:your\s+|the\s+|my\s+|any\s+)?(?:memory|memories|notes?)\s+(?:about|of|on|regarding)\s+([\s\S]+?)|(?:delete|remove|erase)\s+(?:what|everything)\s+you\s+(?:remember|know|stored)\s+(?:about|regarding|on)\s+([\s\S]+?))[\s.!]*$/i;
+
+/**
+ * "what do you remember about …", "what do you know about …", "do you remember anything about …"
+ */
+const RECALL = /^(?:what\s+do\s+you\s+(?:remember|recall|know)|do\s+you\s+remember\s+anything|what\s+have\s+you\s+(?:got\s+)?(?:remembered|stored))\s+(?:about|on|regarding)\s+([\s\S]+?)[\s?.!]*$/i;
+
+/**
+ * Phrases that start like a forget request but are just a brush-off, or too sweeping to act on
+ */
+const NOT_A_FORGET_QUERY = /^(?:it|that|this|them|everything|all|all of it|me|about it)$/i;
+
+/**
+ * A question or a second sentence, which means a message is about more than Aidan's memory:
+ * "remember that outage last week? What caused it?" asks something, so it is answered instead
+ */
+const MORE_THAN_A_REQUEST = /[?]|[.!]\s+\S/;
+
+/**
+ * Recognises explicit requests about Aidan's memory, so they can be handled
+ * deterministically instead of hoping the model stays silent or answers sensibly
+ */
+export class MemoryIntentParser {
+  private namePrefix: RegExp;
+
+  /**
+   * Creates a new MemoryIntentParser instance
+   * @param nameMatcher - Recognises the bot's name, which may lead the request ("Aidan, remember that …")
+   */
+  constructor(nameMatcher: NameMatcher) {
+    this.namePrefix = new RegExp(`^\\s*${nameMatcher.alternation()}[\\s,:!-]+`, 'i');
+  }
+
+  /**
+   * Parses a message for a memory request
+   * @param text - Message text, with Slack markup already resolved
+   * @param requireName - Whether the request must be addressed to the bot by name, e.g. in threads
+   * @returns The request, or null if the message isn't one
+   */
+  parse(text: string, requireName = false): MemoryIntent | null {
+    const trimmed = text.trim();
+    const request = trimmed.replace(this.namePrefix, '');
+    if (requireName && request === trimmed) {
+      return null;
+    }
+
+    const remember = request.match(REMEMBER);
+    if (remember?.[1] && /\w/.test(remember[1]) && !MORE_THAN_A_REQUEST.test(remember[1])) {
+      return { kind: 'remember', fact: remember[1] };
+    }
+
+    const recall = request.match(RECALL);
+    if (recall?.[1]) {
+      return { kind: 'recall', query: recall[1] };
+    }
+
+    const forget = request.match(FORGET);
+    const query = forget?.slice(1).find(Boolean);
+    if (query && !NOT_A_FORGET_QUERY.test(query) && !MORE_THAN_A_REQUEST.test(query)) {
+      return { kind: 'forget', query };
+    }
+
+    return null;
+  }
+}
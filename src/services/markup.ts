@@ -0,0 +1,221 @@
+import { App } from '@slack/bolt';
+import { appConfig } from '../config';
+
+/**
+ * Display name used when a user can't be looked up
+ */
+const UNKNOWN_USER = 'Unknown User';
+
+/**
+ * Code blocks and code spans, whose contents are never turned into mentions
+ */
+const CODE_PATTERN = /```[\s\S]*?(?:```|$)|`[^`\n]*`/g;
+
+/**
+ * Translates between Slack's message markup and the readable text the LLM sees
+ * Incoming user, channel, link and special mentions are resolved to names, and
+ * "@Name" / "#channel" in replies are turned back into real Slack mentions
+ */
+export class SlackMarkup {
+  private client: App['client'];
+  private userNames: Map<string, string> = new Map(); // User ID -> display name
+  private channelNames: Map<string, string> = new Map(); // Channel ID -> channel name
+  private botUserId: string | undefined;
+
+  /**
+   * Creates a new SlackMarkup instance
+   * @param client - Slack Web API client used to look up users and channels
+   */
+  constructor(client: App['client']) {
+    this.client = client;
+  }
+
+  /**
+   * Sets the bot's own Slack user ID once resolved via auth.test
+   * @param userId - Slack user ID of the bot
+   */
+  setBotUserId(userId: string | undefined): void {
+    this.botUserId = userId;
+  }
+
+  /**
+   * Fetches a user's display name from the Slack API with caching
+   * @param userId - Slack user ID
+   * @returns Promise resolving to the user's display name
+   */
+  async getUserName(userId: string): Promise<string> {
+    const cached = this.userNames.get(userId);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const userInfo = await this.client.users.info({
+        user: userId
+      });
+
+      const user = userInfo.user as any; // Slack user object has these properties
+      const userName = user?.profile?.display_name ||
+                      user?.real_name ||
+                      user?.name ||
+                      UNKNOWN_USER;
+
+      this.userNames.set(userId, userName);
+      console.log(`[Markup] Fetched display name for ${userId}: ${userName}`);
+
+      return userName;
+    } catch (error) {
+      console.error(`[Markup] Error fetching user info for ${userId}:`, error);
+      return UNKNOWN_USER;
+    }
+  }
+
+  /**
+   * Fetches a channel's name from the Slack API with caching
+   * @param channelId - Slack channel ID
+   * @returns Promise resolving to the channel name, or undefined if it can't be read
+   */
+  async getChannelName(channelId: string): Promise<string | undefined> {
+    const cached = this.channelNames.get(channelId);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const { channel } = await this.client.conversations.info({ channel: channelId });
+      if (channel?.name) {
+        this.channelNames.set(channelId, channel.name);
+      }
+      return channel?.name;
+    } catch (error) {
+      console.warn(`[Markup] Could not look up channel ${channelId}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Converts a Slack message into readable text for the LLM
+   * A leading @mention of the bot is dropped; other mentions become "@Name" and "#channel",
+   * links become "label (url)" and HTML entities are unescaped
+   * @param text - Raw Slack message text
+   * @returns Promise resolving to the readable text
+   */
+  async toPlainText(text: string): Promise<string> {
+    const stripped = this.botUserId
+      ? text.replace(new RegExp(`^\\s*<@${this.botUserId}(?:\\|[^>]*)?>[\\s,:]*`), '')
+      : text;
+
+    const userIds = new Set([...stripped.matchAll(/<@([A-Z0-9]+)(?:\|[^>]*)?>/g)].map(match => match[1] ?? ''));
+    const channelIds = new Set([...stripped.matchAll(/<#([A-Z0-9]+)>/g)].map(match => match[1] ?? ''));
+
+    const userNames = new Map<string, string>();
+    const channelNames = new Map<string, string>();
+    await Promise.all([
+      ...[...userIds].map(async (id) => {
+        userNames.set(id, id === this.botUserId ? appConfig.botName : await this.getUserName(id));
+      }),
+      ...[...channelIds].map(async (id) => {
+        const name = await this.getChannelName(id);
+        if (name) channelNames.set(id, name);
+      }),
+    ]);
+
+    return stripped
+      .replace(/<@([A-Z0-9]+)(?:\|([^>]*))?>/g, (_, id: string, label?: string) => `@${userNames.get(id) ?? label ?? id}`)
+      .replace(/<#([A-Z0-9]+)(?:\|([^>]*))?>/g, (_, id: string, label?: string) => `#${label || channelNames.get(id) || id}`)
+      .replace(/<!subteam\^[A-Z0-9]+(?:\|([^>]*))?>/g, (_, label?: string) => label || '@group')
+      .replace(/<!date\^[^|>]*\|([^>]*)>/g, '$1')
+      .replace(/<!(\w+)(?:\|([^>]*))?>/g, (_, name: string, label?: string) => label || `@${name}`)
+      .replace(/<((?:https?|mailto|tel):[^|>\s]+)(?:\|([^>]*))?>/g, (_, url: string, label?: string) => this.linkText(url, label))
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&')
+      .trim();
+  }
+
+  /**
+   * Converts names in an LLM reply back into Slack mentions
+   * "@Name" of users and "#name" of channels seen before become real mentions; code is
+   * left alone, and broadcast mentions such as <!channel> are defused so replies never ping everyone
+   * @param text - Markdown reply from the LLM
+   * @returns The reply with Slack mentions
+   */
+  toSlack(text: string): string {
+    const users = this.uniqueNames(this.userNames, this.botUserId);
+    const channels = this.uniqueNames(this.channelNames);
+    const userPattern = users.size > 0 ? new RegExp(`(?<![\\w<@])@(${this.alternation(users)})(?![\\w-])`, 'gi') : null;
+    const channelPattern = channels.size > 0 ? new RegExp(`(?<![\\w<#])#(${this.alternation(channels)})(?![\\w-])`, 'gi') : null;
+
+    const convert = (prose: string) => {
+      let result = prose.replace(/<!(here|channel|everyone)(?:\|[^>]*)?>/g, '@$1');
+      if (userPattern) {
+        result = result.replace(userPattern, (match, name: string) => {
+          const id = users.get(this.normalizeName(name));
+          return id ? `<@${id}>` : match;
+        });
+      }
+      if (channelPattern) {
+        result = result.replace(channelPattern, (match, name: string) => {
+          const id = channels.get(this.normalizeName(name));
+          return id ? `<#${id}>` : match;
+        });
+      }
+      return result;
+    };
+
+    let output = '';
+    let last = 0;
+    for (const code of text.matchAll(CODE_PATTERN)) {
+      const start = code.index ?? 0;
+      output += convert(text.substring(last, start)) + code[0];
+      last = start + code[0].length;
+    }
+    return output + convert(text.substring(last));
+  }
+
+  /**
+   * Renders a link as readable text, omitting the label when it only repeats the address
+   */
+  private linkText(url: string, label: string | undefined): string {
+    const address = url.replace(/^(?:mailto|tel):/, '');
+    if (!label || label === url || label === address || url.replace(/^https?:\/\//, '') === label) {
+      return address;
+    }
+    return `${label} (${address})`;
+  }
+
+  /**
+   * Maps names to IDs, leaving out names shared by several IDs since they can't be told apart
+   */
+  private uniqueNames(names: Map<string, string>, excludeId?: string): Map<string, string> {
+    const byName = new Map<string, string>();
+    const ambiguous = new Set<string>();
+
+    for (const [id, name] of names) {
+      if (id === excludeId || name === UNKNOWN_USER) continue;
+      const key = this.normalizeName(name);
+      if (byName.has(key) && byName.get(key) !== id) ambiguous.add(key);
+      byName.set(key, id);
+    }
+    for (const key of ambiguous) byName.delete(key);
+
+    return byName;
+  }
+
+  /**
+   * Builds a regular expression alternation of names, longest first so "Ann Lee" wins over "Ann"
+   */
+  private alternation(names: Map<string, string>): string {
+    return [...names.keys()]
+      .sort((a, b) => b.length - a.length)
+      .map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+'))
+      .join('|');
+  }
+
+  /**
+   * Normalises a name for case- and whitespace-insensitive lookups
+   */
+  private normalizeName(name: string): string {
+    return name.trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+}
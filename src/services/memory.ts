@@ -1,8 +1,15 @@
 import { EmbeddingsService } from './embeddings';
 import { VectorStore } from './vectorstore';
-import { MemoryEntry, MemorySearchResult } from '../types';
+import { FeedbackSummary, MemoryEntry, MemorySearchResult, UserPreferences } from '../types';
 import { appConfig } from '../config';
 
+/**
+ * Preferences applied to users who haven't changed anything
+ */
+const DEFAULT_USER_PREFERENCES: UserPreferences = {
+  memoryOptOut: false
+};
+
 /**
  * Main memory service that orchestrates embeddings and vector storage
  * Provides high-level memory operations for the chatbot
@@ -69,12 +76,14 @@ export class MemoryService {
       console.log('[MemoryService] Storing new memory...');
       
       // Generate embedding for the user input
-      const embedding = await this.embeddingsService.generateEmbedding(userInput);
+      const embedding = await this.embeddingsService.generateEmbedding(userInput, { userId, channelId });
       
-      // Extract userName from metadata if provided
+      // Extract userName and surface from metadata if provided
       const userName = metadata?.userName;
+      const surface = metadata?.surface;
       const remainingMetadata = { ...metadata };
       delete remainingMetadata?.userName;
+      delete remainingMetadata?.surface;
       
       // Create memory entry
       const memoryEntry: MemoryEntry = {
@@ -85,6 +94,7 @@ export class MemoryService {
         ...(channelId && { channelId }),
         ...(userId && { userId }),
         ...(userName && { userName }),
+        ...(surface && { surface }),
         ...(Object.keys(remainingMetadata).length > 0 && { metadata: remainingMetadata })
       };
 
@@ -105,13 +115,18 @@ export class MemoryService {
    * @param channelId - Optional channel ID to filter by
    * @param userId - Optional user ID to filter by
    * @param limit - Maximum number of results to return
+   * @param visibleFrom - Optional channel ID of the conversation the results are shown in; memories
+   *                      from other private conversations are left out
+   * @param includeHidden - Whether to include memories hidden by negative feedback, e.g. to delete them
    * @returns Promise resolving to array of relevant memory search results
    */
   async searchMemories(
     query: string,
     channelId?: string,
     userId?: string,
-    limit: number = appConfig.maxMemoryResults
+    limit: number = appConfig.maxMemoryResults,
+    visibleFrom?: string,
+    includeHidden: boolean = false
   ): Promise<MemorySearchResult[]> {
     try {
       // Try to initialize if not already done
@@ -122,14 +137,16 @@ export class MemoryService {
       console.log(`[MemoryService] Searching memories for query: "${query.substring(0, 50)}${query.length > 50 ? '...' : ''}"`);
       
       // Generate embedding for the query
-      const queryEmbedding = await this.embeddingsService.generateEmbedding(query);
+      const queryEmbedding = await this.embeddingsService.generateEmbedding(query, { userId, channelId: visibleFrom ?? channelId });
       
       // Search vector store for similar memories
       const results = await this.vectorStore.searchSimilar(
         queryEmbedding,
         limit,
         channelId,
-        userId
+        userId,
+        visibleFrom,
+        includeHidden
       );
 
       console.log(`[MemoryService] Found ${results.length} relevant memories`);
@@ -145,19 +162,24 @@ export class MemoryService {
    * @param channelId - Optional channel ID to filter by
    * @param userId - Optional user ID to filter by
    * @param limit - Maximum number of results to return
+   * @param offset - Number of most recent memories to skip, for pagination
+   * @param visibleFrom - Optional channel ID of the conversation the results are shown in; memories
+   *                      from other private conversations are left out
    * @returns Promise resolving to array of recent memory entries
    */
   async getRecentMemories(
     channelId?: string,
     userId?: string,
-    limit: number = appConfig.maxMemoryResults
+    limit: number = appConfig.maxMemoryResults,
+    offset: number = 0,
+    visibleFrom?: string
   ): Promise<MemoryEntry[]> {
     this.ensureInitialized();
 
     try {
       console.log('[MemoryService] Retrieving recent memories...');
       
-      const memories = await this.vectorStore.getRecentMemories(limit, channelId, userId);
+      const memories = await this.vectorStore.getRecentMemories(limit, channelId, userId, offset, visibleFrom);
       
       console.log(`[MemoryService] Retrieved ${memories.length} recent memories`);
       return memories;
@@ -187,9 +209,8 @@ export class MemoryService {
       const timestamp = new Date(entry.timestamp).toISOString();
       const userLabel = entry.userName ? `${entry.userName}` : 'User';
       
-      formattedMemories += `Past conversation (similarity: ${similarity.toFixed(3)}, from ${timestamp}):\n`;
-      formattedMemories += `${userLabel}: ${entry.userInput}\n`;
-      formattedMemories += `Previous Assistant Response: ${entry.botResponse}\n\n`;
+      formattedMemories += `Past conversation (similarity: ${similarity.toFixed(3)}${this.formatFeedback(entry)}, from ${timestamp}):\n`;
+      formattedMemories += this.formatExchange(entry, userLabel, 'Previous Assistant Response');
       formattedMemories += '--- END RETRIEVED MEMORY ---\n\n';
       formattedMemories += 'EVALUATION INSTRUCTIONS:\n';
       formattedMemories += '• Compare this past response with your current knowledge\n';
@@ -207,9 +228,8 @@ export class MemoryService {
         const timestamp = new Date(entry.timestamp).toISOString();
         const userLabel = entry.userName ? `${entry.userName}` : 'User';
         
-        formattedMemories += `Memory ${index + 1} (similarity: ${similarity.toFixed(3)}, from ${timestamp}):\n`;
-        formattedMemories += `${userLabel}: ${entry.userInput}\n`;
-        formattedMemories += `Previous Response: ${entry.botResponse}\n\n`;
+        formattedMemories += `Memory ${index + 1} (similarity: ${similarity.toFixed(3)}${this.formatFeedback(entry)}, from ${timestamp}):\n`;
+        formattedMemories += this.formatExchange(entry, userLabel, 'Previous Response');
       });
       
       formattedMemories += '--- END RETRIEVED MEMORIES ---\n\n';
@@ -228,18 +248,46 @@ export class MemoryService {
   }
 
   /**
-   * Combines memory search with a user query for enhanced context
+   * Formats what a memory holds for the LLM: a question and its answer, or a fact a user asked to be remembered
+   * @param entry - Memory entry
+   * @param userLabel - Name of the user the memory came from
+   * @param responseLabel - Label of the bot's answer
+   * @returns Formatted memory text
+   */
+  private formatExchange(entry: MemoryEntry, userLabel: string, responseLabel: string): string {
+    if (entry.metadata?.userAsserted) {
+      return `${userLabel} asked me to remember (stated by the user, not verified): ${entry.userInput}\n\n`;
+    }
+    return `${userLabel}: ${entry.userInput}\n${responseLabel}: ${entry.botResponse}\n\n`;
+  }
+
+  /**
+   * Describes a memory's reaction feedback for the LLM, if it has any
+   * @param entry - Memory entry
+   * @returns Formatted feedback fragment, or an empty string
+   */
+  private formatFeedback(entry: MemoryEntry): string {
+    if (!entry.feedbackScore) {
+      return '';
+    }
+    const verdict = entry.feedbackScore > 0 ? 'users found this helpful' : 'users flagged this as a bad answer';
+    return `, feedback: ${entry.feedbackScore > 0 ? '+' : ''}${entry.feedbackScore} – ${verdict}`;
+  }
+
+  /**
+   * Finds memories relevant to a user query and formats them for the LLM
    * @param userQuery - The user's current query
    * @param channelId - Optional channel ID to filter by
    * @param userId - Optional user ID to filter by
-   * @param userName - Optional user display name for context
-   * @returns Promise resolving to enhanced context string
+   * @param fitsBudget - Optional check of the formatted memory block against a token budget;
+   *                     the least similar memories are left out until it passes
+   * @returns Promise resolving to the memory block, or an empty string if nothing relevant was found
    */
-  async getEnhancedContext(
+  async getMemoryContext(
     userQuery: string,
     channelId?: string,
     userId?: string,
-    userName?: string
+    fitsBudget?: (memoryContext: string) => boolean
   ): Promise<string> {
     try {
       // Try to initialize if not already done
@@ -250,24 +298,22 @@ export class MemoryService {
       // Search for relevant memories
       const memories = await this.searchMemories(userQuery, channelId, userId);
       
-      // Format memories for LLM context
-      const memoryContext = this.formatMemoriesForLLM(memories);
-      
-      // Combine with current query
-      let enhancedContext = userQuery;
-      
-      if (memoryContext) {
-        const userPrefix = userName ? `${userName} asks: ` : '';
-        enhancedContext = memoryContext + '\nCurrent Question: ' + userPrefix + userQuery;
-      } else if (userName) {
-        enhancedContext = `${userName} asks: ${userQuery}`;
+      // Format memories for LLM context, leaving out the least similar ones until they fit
+      let kept = memories;
+      let memoryContext = this.formatMemoriesForLLM(kept);
+      while (fitsBudget && kept.length > 0 && !fitsBudget(memoryContext)) {
+        kept = kept.slice(0, -1);
+        memoryContext = this.formatMemoriesForLLM(kept);
+      }
+      if (kept.length < memories.length) {
+        console.log(`[MemoryService] Left out ${memories.length - kept.length} of ${memories.length} memories to fit the context budget`);
       }
       
-      return enhancedContext;
+      return memoryContext;
     } catch (error) {
-      console.error('[MemoryService] Error getting enhanced context:', error);
-      // Return original query if memory enhancement fails
-      return userQuery;
+      console.error('[MemoryService] Error getting memory context:', error);
+      // Answer without memories if retrieval fails
+      return '';
     }
   }
 
@@ -281,18 +327,21 @@ export class MemoryService {
     embeddingsModel: string;
     databasePath: string;
     similarityThreshold: number;
+    feedback: FeedbackSummary;
   }> {
     this.ensureInitialized();
 
     try {
       const totalMemories = await this.vectorStore.getMemoryCount();
+      const feedback = await this.vectorStore.getFeedbackSummary();
       
       return {
         totalMemories,
         embeddingsProvider: appConfig.embeddingsProvider,
         embeddingsModel: appConfig.embeddingsModel,
         databasePath: appConfig.databasePath,
-        similarityThreshold: appConfig.similarityThreshold
+        similarityThreshold: appConfig.similarityThreshold,
+        feedback
       };
     } catch (error) {
       console.error('[MemoryService] Error getting stats:', error);
@@ -300,6 +349,111 @@ export class MemoryService {
     }
   }
 
+  /**
+   * Gets the number of memories stored for a user
+   * @param userId - Slack user ID
+   * @returns Promise resolving to the user's memory count
+   */
+  async getUserMemoryCount(userId: string): Promise<number> {
+    this.ensureInitialized();
+
+    try {
+      return await this.vectorStore.getMemoryCount(userId);
+    } catch (error) {
+      console.error('[MemoryService] Error getting user memory count:', error);
+      throw new Error(`Failed to get user memory count: ${error}`);
+    }
+  }
+
+  /**
+   * Gets a user's preferences, falling back to defaults for unset values
+   * Works without embeddings, so it does not require initialization
+   * @param userId - Slack user ID
+   * @returns Promise resolving to the user's preferences
+   */
+  async getUserPreferences(userId: string): Promise<UserPreferences> {
+    const stored = await this.vectorStore.getUserPreferences(userId);
+    return { ...DEFAULT_USER_PREFERENCES, ...stored };
+  }
+
+  /**
+   * Updates some of a user's preferences
+   * @param userId - Slack user ID
+   * @param changes - Preferences to change
+   * @returns Promise resolving to the updated preferences
+   */
+  async updateUserPreferences(userId: string, changes: Partial<UserPreferences>): Promise<UserPreferences> {
+    const preferences = { ...(await this.getUserPreferences(userId)), ...changes };
+    await this.vectorStore.saveUserPreferences(userId, preferences);
+    console.log(`[MemoryService] Updated preferences for ${userId}:`, preferences);
+    return preferences;
+  }
+
+  /**
+   * Records or withdraws a user's reaction feedback on one of Aidan's replies
+   * @param channelId - Channel containing the reply
+   * @param replyTs - Timestamp of the reply message
+   * @param userId - Slack user ID of the voter
+   * @param value - +1 for a 👍, -1 for a 👎
+   * @param added - Whether the reaction was added (true) or removed (false)
+   * @returns Promise resolving to the affected memory ID, or null if the reply has no memory
+   */
+  async recordFeedback(
+    channelId: string,
+    replyTs: string,
+    userId: string,
+    value: number,
+    added: boolean
+  ): Promise<number | null> {
+    const memoryId = await this.vectorStore.findMemoryByReplyTs(channelId, replyTs);
+    if (memoryId === null) {
+      return null;
+    }
+
+    if (added) {
+      await this.vectorStore.addFeedback(memoryId, userId, value);
+    } else {
+      await this.vectorStore.removeFeedback(memoryId, userId, value);
+    }
+
+    console.log(`[MemoryService] ${added ? 'Recorded' : 'Withdrew'} feedback ${value > 0 ? '+1' : '-1'} from ${userId} on memory ${memoryId}`);
+    return memoryId;
+  }
+
+  /**
+   * Gets the memories created from a user's message
+   * @param channelId - Channel containing the message
+   * @param sourceTs - Timestamp of the user's message
+   * @returns Promise resolving to the matching memories
+   */
+  async getMemoriesForMessage(channelId: string, sourceTs: string): Promise<MemoryEntry[]> {
+    const ids = await this.vectorStore.findMemoriesBySourceTs(channelId, sourceTs);
+    const entries = await Promise.all(ids.map(id => this.vectorStore.getMemoryById(id)));
+    return entries.filter((entry): entry is MemoryEntry => entry !== null);
+  }
+
+  /**
+   * Deletes the memories created from a user's message, e.g. after the message was deleted
+   * @param channelId - Channel containing the message
+   * @param sourceTs - Timestamp of the user's message
+   * @returns Promise resolving to the number of memories deleted
+   */
+  async forgetMessage(channelId: string, sourceTs: string): Promise<number> {
+    const ids = await this.vectorStore.findMemoriesBySourceTs(channelId, sourceTs);
+
+    let deleted = 0;
+    for (const id of ids) {
+      if (await this.vectorStore.deleteMemory(id)) {
+        deleted++;
+      }
+    }
+
+    if (deleted > 0) {
+      console.log(`[MemoryService] Forgot ${deleted} memories from message ${channelId}-${sourceTs}`);
+    }
+    return deleted;
+  }
+
   /**
    * Performs maintenance on the memory system
    * @returns Promise that resolves when maintenance is complete
@@ -319,6 +473,22 @@ export class MemoryService {
     }
   }
 
+  /**
+   * Gets a memory by ID
+   * @param id - ID of the memory to retrieve
+   * @returns Promise resolving to the memory entry, or null if not found
+   */
+  async getMemory(id: number): Promise<MemoryEntry | null> {
+    this.ensureInitialized();
+
+    try {
+      return await this.vectorStore.getMemoryById(id);
+    } catch (error) {
+      console.error('[MemoryService] Error getting memory:', error);
+      throw new Error(`Failed to get memory: ${error}`);
+    }
+  }
+
   /**
    * Deletes a memory by ID
    * @param id - ID of the memory to delete
@@ -335,6 +505,22 @@ export class MemoryService {
     }
   }
 
+  /**
+   * Gets vector store instance for external access
+   * @returns The vector store instance
+   */
+  getVectorStore(): VectorStore {
+    return this.vectorStore;
+  }
+
+  /**
+   * Gets embeddings service instance for external access
+   * @returns The embeddings service instance
+   */
+  getEmbeddingsService(): EmbeddingsService {
+    return this.embeddingsService;
+  }
+
   /**
    * Closes the memory service and cleans up resources
    */
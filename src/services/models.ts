@@ -0,0 +1,47 @@
+import { ModelProfile, ModelRole } from '../types';
+import { appConfig } from '../config';
+
+/**
+ * Lines that look like source code rather than prose
+ */
+const CODE_LINE = /^\s*(?:(?:def|class|function|import|from\s+\S+\s+import|const|let|var|return|if\s*\(|for\s*\(|while\s*\(|public|private|#include|package|func|fn|SELECT|INSERT|UPDATE)\b.*|.*[;{}]\s*)$/m;
+
+/**
+ * Checks whether a message contains code: a code block, inline code, or several lines that look like code
+ * @param text - Message text
+ * @returns True if the message contains code
+ */
+export function containsCode(text: string): boolean {
+  if (text.includes('```') || /`[^`\n]+`/.test(text)) {
+    return true;
+  }
+  return text.split('\n').filter(line => CODE_LINE.test(line)).length >= 2;
+}
+
+/**
+ * Picks the model for each kind of request
+ * Gating decisions go to the classifier model, answers to the main model, and
+ * questions containing code to the code model when one is configured
+ */
+export class ModelRouter {
+  /**
+   * Gets the model and generation settings for a role
+   * @param role - What the model is used for; 'code' falls back to the answer model if no code model is configured
+   * @returns The model profile
+   */
+  getProfile(role: ModelRole): ModelProfile {
+    if (role === 'code') {
+      return appConfig.models.code ?? appConfig.models.answer;
+    }
+    return appConfig.models[role];
+  }
+
+  /**
+   * Chooses the role that should answer a question
+   * @param userMessage - The user's question, without memory context
+   * @returns 'code' if a code model is configured and the question contains code, otherwise 'answer'
+   */
+  selectRole(userMessage: string): ModelRole {
+    return appConfig.models.code && containsCode(userMessage) ? 'code' : 'answer';
+  }
+}
@@ -0,0 +1,60 @@
+import { appConfig } from '../config';
+
+/**
+ * Recognises when a message refers to the bot, by @mention or by its name,
+ * an alias or a common misspelling
+ */
+export class NameMatcher {
+  private names: string[];
+  private namePattern: RegExp;
+  private botUserId: string | undefined;
+
+  /**
+   * Creates a new NameMatcher instance
+   * @param botName - The bot's name
+   * @param aliases - Nicknames and misspellings that also count as the bot's name
+   */
+  constructor(botName: string = appConfig.botName, aliases: string[] = appConfig.botAliases) {
+    const unique = new Map<string, string>();
+    for (const name of [botName, ...aliases]) {
+      const trimmed = name.trim();
+      if (trimmed) unique.set(trimmed.toLowerCase(), trimmed);
+    }
+    // Longest first so "aidan bot" wins over "aidan"
+    this.names = [...unique.values()].sort((a, b) => b.length - a.length);
+    this.namePattern = new RegExp(`(?<!\\w)${this.alternation()}(?!\\w)`, 'i');
+  }
+
+  /**
+   * Sets the bot's own Slack user ID once resolved via auth.test
+   * @param userId - Slack user ID of the bot
+   */
+  setBotUserId(userId: string | undefined): void {
+    this.botUserId = userId;
+  }
+
+  /**
+   * Checks whether a message @mentions the bot
+   * @param text - Raw message text
+   */
+  isMentioned(text: string): boolean {
+    return this.botUserId !== undefined && new RegExp(`<@${this.botUserId}(\\|[^>]*)?>`).test(text);
+  }
+
+  /**
+   * Checks whether a message contains the bot's name or one of its aliases
+   * Slack markup (mentions, channels, links) is ignored so a URL can't trigger a match
+   * @param text - Raw message text
+   */
+  containsName(text: string): boolean {
+    return this.namePattern.test(text.replace(/<[^>]*>/g, ' '));
+  }
+
+  /**
+   * Gets a regular expression fragment matching any of the bot's names, for building larger patterns
+   * @returns Non-capturing group of escaped names
+   */
+  alternation(): string {
+    return `(?:${this.names.map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+')).join('|')})`;
+  }
+}
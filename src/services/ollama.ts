@@ -1,65 +1,108 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
+import axios, { AxiosError } from 'axios';
 import { 
-  OllamaChatRequest, 
-  OllamaChatResponse, 
-  OpenAIChatRequest,
-  OpenAIChatResponse,
   ChatMessage, 
   ApiError,
-  LLMProvider 
+  CompletionOptions,
+  ContextPlan,
+  EndpointStatus,
+  ModelProfile,
+  PersonaProfile,
+  ReasoningStrategy,
+  RequestPriority,
+  ScheduleContext,
+  StreamHandlers,
+  ToolCall,
+  ToolContext,
+  UsageTags
 } from '../types';
 import { appConfig } from '../config';
+import { createFailoverProvider, FailoverProvider } from '../providers';
 import { MemoryService } from './memory';
+import { RequestScheduler } from './scheduler';
+import { ReasoningRouter } from './reasoning';
+import { ContextBudgeter } from './budget';
+import { ModelRouter } from './models';
+import { PersonaService } from './personas';
+import { PromptService, PromptSession } from './prompts';
+import { UsageService } from './usage';
+import { RequestDeadline } from './deadline';
+import { CalculatorTool, DateTimeTool, MemorySearchTool, ToolRegistry, UnitConversionTool } from '../tools';
 
 /**
- * Service class for interacting with LLM APIs (Ollama or Docker Model Runner)
- * Handles chat completions and error management for multiple providers
+ * Tool use within one chat request, shared by all of its phases
+ */
+interface ToolSession {
+  context: ToolContext;
+  roundsLeft: number;
+  results: Array<{ call: ToolCall; result: string }>;
+}
+
+/**
+ * How one pipeline phase is run
+ */
+interface PhaseRequest {
+  /** Who the request is for and its priority */
+  scheduleContext: ScheduleContext;
+  /** The request's deadline, which the phase gets a share of */
+  deadline: RequestDeadline;
+  /** Whether more phases follow this one */
+  intermediate: boolean;
+  /** Model and generation settings to run the phase with */
+  profile: ModelProfile;
+  /** Callbacks; onPhase fires when the phase starts, onToken streams its response */
+  streamHandlers: StreamHandlers;
+  /** Tool session the phase may call tools in, if any */
+  toolSession?: ToolSession | undefined;
+  /** Tool session whose earlier results the phase should see, if any */
+  gatheredTools?: ToolSession | undefined;
+  /** Cap on the phase's output, for phases whose output goes into later prompts */
+  maxTokens?: number | undefined;
+}
+
+/**
+ * Service class for interacting with the configured LLM provider
+ * Handles chat completions and error management; the provider itself
+ * (Ollama, Docker Model Runner, any OpenAI-compatible server) comes from the provider registry
  * Integrates with memory service for context-aware responses
  */
 export class LLMService {
-  private client: AxiosInstance;
-  private provider: LLMProvider;
+  private provider: FailoverProvider;
   private memoryService: MemoryService;
+  private scheduler: RequestScheduler;
+  private budget: ContextBudgeter;
+  private reasoning: ReasoningRouter = new ReasoningRouter();
+  private models: ModelRouter = new ModelRouter();
+  private personas: PersonaService;
+  private prompts: PromptService;
+  private usage: UsageService;
+  private resolveChannelName?: ((channelId: string) => Promise<string | undefined>) | undefined;
+  private tools: ToolRegistry = new ToolRegistry();
+  private toolsUnsupported: Set<string> = new Set(); // Models that rejected tool definitions
 
   /**
    * Creates a new LLMService instance
-   * Configures axios client with base URL and timeout based on provider
+   * Creates the configured provider for each LLM server, behind a failover provider
    */
   constructor() {
-    this.provider = appConfig.llmProvider;
-    this.memoryService = new MemoryService();
-    
-    this.client = axios.create({
-      baseURL: appConfig.llmBaseUrl,
+    this.provider = createFailoverProvider('LLM', {
+      name: appConfig.llmProvider,
+      apiPath: appConfig.llmApiPath,
       timeout: appConfig.llmTimeout,
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    // Add request interceptor for logging
-    this.client.interceptors.request.use(
-      (config) => {
-        console.log(`[${this.provider}] Making request to: ${config.method?.toUpperCase()} ${config.url}`);
-        return config;
-      },
-      (error) => {
-        console.error(`[${this.provider}] Request error:`, error);
-        return Promise.reject(error);
-      }
-    );
-
-    // Add response interceptor for logging
-    this.client.interceptors.response.use(
-      (response) => {
-        console.log(`[${this.provider}] Response received: ${response.status}`);
-        return response;
-      },
-      (error) => {
-        console.error(`[${this.provider}] Response error:`, error.response?.status, error.message);
-        return Promise.reject(error);
-      }
-    );
+      apiKey: appConfig.llmApiKey,
+    }, appConfig.llmBaseUrls, appConfig.failover);
+    this.memoryService = new MemoryService();
+    this.personas = new PersonaService(this.memoryService.getVectorStore());
+    this.prompts = new PromptService();
+    this.usage = new UsageService(this.memoryService.getVectorStore());
+    this.memoryService.getEmbeddingsService().setUsageService(this.usage);
+    this.scheduler = new RequestScheduler();
+    this.budget = new ContextBudgeter(this.provider);
+
+    // Built-in tools; Slack lookups are registered by the app, which owns the Slack client
+    this.tools.register(new MemorySearchTool(this.memoryService));
+    this.tools.register(new DateTimeTool());
+    this.tools.register(new CalculatorTool());
+    this.tools.register(new UnitConversionTool());
   }
 
   /**
@@ -68,40 +111,79 @@ export class LLMService {
    */
   async testConnection(): Promise<void> {
     try {
-      if (this.provider === 'docker-model-runner') {
-        await this.client.get('/engines/llama.cpp/v1/models');
-      } else {
-        await this.client.get('/api/tags');
-      }
-      console.log(`[${this.provider}] Connection test successful`);
+      await this.ping();
+      console.log(`[${this.provider.name}] Connection test successful`);
       
       // Initialize memory service
       try {
         await this.memoryService.initialize();
       } catch (error) {
-        console.warn(`[${this.provider}] Memory service initialization failed, continuing without memory:`, error);
+        console.warn(`[${this.provider.name}] Memory service initialization failed, continuing without memory:`, error);
       }
     } catch (error) {
-      console.error(`[${this.provider}] Connection test failed:`, error);
-      throw new Error(`Failed to connect to ${this.provider}: ${error}`);
+      console.error(`[${this.provider.name}] Connection test failed:`, error);
+      throw new Error(`Failed to connect to ${this.provider.name}: ${error}`);
     }
   }
 
+  /**
+   * Checks whether the LLM service is currently reachable
+   * @returns Promise resolving to true if the service responded
+   */
+  async isHealthy(): Promise<boolean> {
+    try {
+      await this.ping();
+      return true;
+    } catch (error) {
+      console.warn(`[${this.provider.name}] Health check failed:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Starts background health checks of the LLM and embeddings servers
+   */
+  startHealthChecks(): void {
+    this.provider.startHealthChecks();
+    this.memoryService.getEmbeddingsService().startHealthChecks();
+  }
+
+  /**
+   * Stops background health checks of the LLM and embeddings servers
+   */
+  stopHealthChecks(): void {
+    this.provider.stopHealthChecks();
+    this.memoryService.getEmbeddingsService().stopHealthChecks();
+  }
+
+  /**
+   * Gets the health of each LLM and embeddings server
+   * @returns Endpoint states in order of preference
+   */
+  getEndpointStatus(): { llm: EndpointStatus[]; embeddings: EndpointStatus[] } {
+    return {
+      llm: this.provider.getStatus(),
+      embeddings: this.memoryService.getEmbeddingsService().getEndpointStatus(),
+    };
+  }
+
+  /**
+   * Sends a lightweight request to the LLM service to verify it is reachable
+   * @returns Promise that resolves when the service responds
+   */
+  private async ping(): Promise<void> {
+    await this.provider.checkHealth();
+  }
+
   /**
    * Lists available models from the LLM service
    * @returns Promise resolving to array of model names
    */
   async listModels(): Promise<string[]> {
     try {
-      if (this.provider === 'docker-model-runner') {
-        const response = await this.client.get('/engines/llama.cpp/v1/models');
-        return response.data.data?.map((model: any) => model.id) || [];
-      } else {
-        const response = await this.client.get('/api/tags');
-        return response.data.models?.map((model: any) => model.name) || [];
-      }
+      return await this.provider.listModels();
     } catch (error) {
-      console.error(`[${this.provider}] Failed to list models:`, error);
+      console.error(`[${this.provider.name}] Failed to list models:`, error);
       return [];
     }
   }
@@ -113,210 +195,332 @@ export class LLMService {
    * @param channelId - Optional Slack channel ID for memory context
    * @param userId - Optional Slack user ID for memory context
    * @param userName - Optional user display name for memory context
+   * @param streamHandlers - Optional callbacks for phase changes and streamed tokens of the final response
+   * @param memoryMetadata - Optional metadata stored with the memory; may resolve later (e.g. once the reply is posted)
+   * @param priority - Scheduling priority against other requests to the LLM backend
+   * @param signal - Optional signal that stops the request, e.g. when the user cancels it
    * @returns Promise resolving to the LLM's response
+   * @throws ApiError with code CANCELLED if the signal aborted, or TIMEOUT if LLM_REQUEST_TIMEOUT ran out
    */
   async chat(
     userMessage: string, 
     conversationHistory: ChatMessage[] = [],
     channelId?: string,
     userId?: string,
-    userName?: string
+    userName?: string,
+    streamHandlers: StreamHandlers = {},
+    memoryMetadata: Record<string, any> | Promise<Record<string, any>> = {},
+    priority: RequestPriority = 'high',
+    signal?: AbortSignal
   ): Promise<string> {
     try {
-      // Get enhanced context with memory if available
-      let enhancedUserMessage = userMessage;
-      try {
-        enhancedUserMessage = await this.memoryService.getEnhancedContext(
-          userMessage,
-          channelId,
-          userId,
-          userName
-        );
-      } catch (error) {
-        console.warn(`[${this.provider}] Failed to enhance context with memory, using original message:`, error);
-      }
+      // Pick the reasoning pipeline from the channel's setting or the question's complexity
+      const strategy = this.reasoning.selectStrategy(userMessage, channelId);
+
+      // Questions containing code go to the code model, if one is configured; the conversation's
+      // persona brings its own system prompt and may override the model's generation settings
+      const role = this.models.selectRole(userMessage);
+      const persona = await this.personas.resolve(channelId, userId);
+      const profile = this.personas.applyTo(this.models.getProfile(role), persona);
+      const prompts = await this.preparePrompts(persona, channelId, userName);
+
+      // Share the context window out between memories, history and intermediate phase outputs
+      const question = prompts.render('question', { question: userMessage });
+      const intermediatePhases = this.reasoning.getPipeline(strategy).intermediatePhases;
+      const plan = await this.budget.plan(profile, [prompts.system, question], intermediatePhases);
+
+      // Present the question with whatever memories fit their share
+      const memory = await this.memoryService.getMemoryContext(
+        userMessage,
+        channelId,
+        userId,
+        memoryContext => this.budget.countTokens(memoryContext) <= plan.memoryTokens
+      );
+      const enhancedUserMessage = memory ? prompts.render('question', { question: userMessage, memory }) : question;
+
+      // History gets its own share plus whatever the memories left unused
+      const memoryTokens = Math.max(0, this.budget.countTokens(enhancedUserMessage) - this.budget.countTokens(question));
+      const history = this.budget.trimHistory(
+        conversationHistory,
+        plan.historyTokens + Math.max(0, plan.memoryTokens - memoryTokens)
+      );
 
-      // Use structured thinking process for question processing
-      const response = await this.processWithStructuredThinking(
+      const response = await this.processWithPipeline(
+        strategy,
         enhancedUserMessage,
-        conversationHistory
+        history,
+        streamHandlers,
+        { userId, channelId, priority, onQueued: streamHandlers.onQueued, signal },
+        new RequestDeadline(appConfig.llmRequestTimeout, intermediatePhases, signal),
+        plan,
+        profile,
+        persona,
+        prompts
       );
 
-      // Store only the original question and final summary in memory (async, don't wait)
-      // Note: Planning and reasoning phases are not stored - only the final response
-      this.storeMemoryAsync(userMessage, response, channelId, userId, userName);
+      // Store only the original question and final response in memory (async, don't wait)
+      // Note: Intermediate phases (planning, drafts) are not stored - only the final response
+      const metadata = Promise.resolve(memoryMetadata).then(extra => ({
+        ...extra,
+        reasoningStrategy: strategy,
+        model: profile.model,
+        persona: persona.name,
+        promptVersions: prompts.getVersions(),
+      }));
+      this.storeMemoryAsync(userMessage, response, channelId, userId, userName, metadata);
 
       return response;
     } catch (error) {
-      console.error(`[${this.provider}] Chat error:`, error);
+      // Whatever the abort interrupted, the request was stopped on purpose
+      if (signal?.aborted) {
+        console.log(`[${this.provider.name}] Chat request for ${userId || 'unknown'} was cancelled`);
+        const cancelled: ApiError = { message: 'Chat request was cancelled', code: 'CANCELLED' };
+        throw cancelled;
+      }
+      console.error(`[${this.provider.name}] Chat error:`, error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Prepares a request's prompts with the persona's system prompt, the asker and the channel
+   * @param persona - Persona answering
+   * @param channelId - Slack channel ID, if any
+   * @param userName - Display name of the asker, if known
+   * @returns Promise resolving to the request's prompts
+   */
+  private async preparePrompts(persona: PersonaProfile, channelId?: string, userName?: string): Promise<PromptSession> {
+    let channelName: string | undefined;
+    if (channelId && this.resolveChannelName) {
+      try {
+        channelName = await this.resolveChannelName(channelId);
+      } catch (error) {
+        console.warn(`[${this.provider.name}] Failed to look up the name of ${channelId}:`, error);
+      }
+    }
+    return this.prompts.forRequest(persona, userName, channelName);
+  }
+
+  /**
+   * Runs a single completion on the classifier model without memory or structured thinking, e.g. for yes/no decisions
+   * Nothing is stored in memory
+   * @param messages - Prompt messages
+   * @param scheduleContext - Who the request is for and its priority
+   * @returns Promise resolving to the raw completion
+   */
+  async classify(messages: ChatMessage[], scheduleContext: ScheduleContext): Promise<string> {
+    try {
+      return await this.scheduler.schedule(
+        () => this.runThinkingPhase(messages, 'Classification', this.models.getProfile('classifier'), scheduleContext),
+        scheduleContext
+      );
+    } catch (error) {
+      console.error(`[${this.provider.name}] Classification error:`, error);
       throw this.handleError(error);
     }
   }
 
   /**
-   * Processes a question through a 3-cycle structured thinking approach
-   * 1. Planning - Understand the question and plan the approach
-   * 2. Reasoning - Work through the logic and analysis
-   * 3. Summary - Provide the final concise response
+   * Runs a question through a reasoning pipeline
+   * @param strategy - Reasoning strategy to use
    * @param userMessage - The enhanced user message with context
    * @param conversationHistory - Previous conversation messages
-   * @returns Promise resolving to the final summary response
+   * @param streamHandlers - Callbacks for phase changes and streamed tokens of the final phase
+   * @param scheduleContext - Who the request is for, used to schedule each phase
+   * @param deadline - The request's deadline, shared out between its phases
+   * @param plan - The request's context budget
+   * @param profile - Model and generation settings for the answer
+   * @param persona - Persona answering, for logging
+   * @param prompts - The request's system prompt and phase templates
+   * @returns Promise resolving to the final response
    */
-  private async processWithStructuredThinking(
+  private async processWithPipeline(
+    strategy: ReasoningStrategy,
     userMessage: string,
-    conversationHistory: ChatMessage[]
+    conversationHistory: ChatMessage[],
+    streamHandlers: StreamHandlers,
+    scheduleContext: ScheduleContext,
+    deadline: RequestDeadline,
+    plan: ContextPlan,
+    profile: ModelProfile,
+    persona: PersonaProfile,
+    prompts: PromptSession
   ): Promise<string> {
-    console.log(`[${this.provider}] Starting structured thinking process...`);
-
-    // Cycle 1: Planning
-    console.log(`[${this.provider}] Phase 1: Planning`);
-    const planningPrompt = `${appConfig.systemPrompt}
-
-STRUCTURED THINKING - PHASE 1: PLANNING
-
-Your task is to plan how to approach the following question/request. Think about:
-- What is the user actually asking for?
-- What information or analysis do I need to provide?
-- What approach should I take to answer this effectively?
-- Are there any considerations or edge cases I should think about?
-
-Provide a clear plan for how you will approach this question. Be thorough but concise.
-
-User's question: ${userMessage}`;
-
-    const planningMessages: ChatMessage[] = [
-      { role: 'system', content: planningPrompt },
-      ...conversationHistory
-    ];
-
-    const planningResponse = await this.executeThinkingPhase(planningMessages, 'Planning');
-
-    // Cycle 2: Reasoning
-    console.log(`[${this.provider}] Phase 2: Reasoning`);
-    const reasoningPrompt = `${appConfig.systemPrompt}
-
-STRUCTURED THINKING - PHASE 2: REASONING
-
-Based on your planning, now work through the logic and analysis needed to answer the question.
-
-Your planning was:
-${planningResponse}
-
-Now execute that plan. Think through:
-- Step-by-step analysis or solution
-- Consider different perspectives or approaches
-- Work through any logic or calculations
-- Identify key insights or conclusions
-
-User's question: ${userMessage}`;
-
-    const reasoningMessages: ChatMessage[] = [
-      { role: 'system', content: reasoningPrompt },
-      ...conversationHistory
-    ];
-
-    const reasoningResponse = await this.executeThinkingPhase(reasoningMessages, 'Reasoning');
-
-    // Cycle 3: Summary
-    console.log(`[${this.provider}] Phase 3: Summary`);
-    const summaryPrompt = `${appConfig.systemPrompt}
-
-STRUCTURED THINKING - PHASE 3: SUMMARY
-
-Based on your planning and reasoning, provide the final response to the user.
-
-Your planning was:
-${planningResponse}
-
-Your reasoning was:
-${reasoningResponse}
-
-Now provide a clear, concise, and helpful final response that directly addresses the user's question. This is what will be sent to the user, so make it:
-- Clear and easy to understand
-- Complete but not overly verbose
-- Actionable when appropriate
-- In your characteristic personality/tone
-
-User's question: ${userMessage}`;
-
-    const summaryMessages: ChatMessage[] = [
-      { role: 'system', content: summaryPrompt },
-      ...conversationHistory
-    ];
+    const mode = this.reasoning.getMode(scheduleContext.channelId);
+    console.log(`[${this.provider.name}] Starting ${strategy} reasoning${mode === 'auto' ? ' (auto-routed)' : ''} with ${profile.model} as ${persona.name}...`);
+
+    const toolSession: ToolSession | undefined = appConfig.toolsEnabled && this.tools.size() > 0
+      ? {
+          context: { userId: scheduleContext.userId, channelId: scheduleContext.channelId },
+          roundsLeft: appConfig.toolMaxIterations,
+          results: [],
+        }
+      : undefined;
+
+    const response = await this.reasoning.getPipeline(strategy).run(
+      userMessage,
+      conversationHistory,
+      (messages, phaseName, phaseHandlers = {}, phaseOptions = {}) => this.executeThinkingPhase(messages, phaseName, {
+        scheduleContext,
+        deadline,
+        intermediate: !!phaseOptions.intermediate,
+        profile,
+        streamHandlers: phaseHandlers,
+        toolSession: phaseOptions.allowTools ? toolSession : undefined,
+        gatheredTools: toolSession,
+        maxTokens: phaseOptions.intermediate ? plan.phaseOutputTokens : undefined,
+      }),
+      streamHandlers,
+      prompts
+    );
 
-    const finalResponse = await this.executeThinkingPhase(summaryMessages, 'Summary');
-    
-    console.log(`[${this.provider}] Structured thinking process completed`);
-    console.log(`[${this.provider}] Final response ready for user and memory storage`);
-    return finalResponse;
+    console.log(`[${this.provider.name}] ${strategy} reasoning completed, response ready for user and memory storage`);
+    return response;
   }
 
   /**
-   * Executes a single phase of the thinking process
+   * Executes a single phase of the thinking process once the scheduler gives it a slot
+   * The phase's share of the request's deadline starts counting once it has the slot
    * @param messages - Messages for this thinking phase
    * @param phaseName - Name of the current phase for logging
+   * @param request - How to run the phase
    * @returns Promise resolving to the phase response
    */
-  private async executeThinkingPhase(messages: ChatMessage[], phaseName: string): Promise<string> {
-    let response: string;
-    if (this.provider === 'docker-model-runner') {
-      response = await this.chatWithDockerModelRunner(messages);
-    } else {
-      response = await this.chatWithOllama(messages);
-    }
-    
-    console.log(`[${this.provider}] ${phaseName} phase completed`);
-    return response;
+  private async executeThinkingPhase(
+    messages: ChatMessage[],
+    phaseName: string,
+    request: PhaseRequest
+  ): Promise<string> {
+    const { scheduleContext, deadline, intermediate, profile, streamHandlers, toolSession, gatheredTools, maxTokens } = request;
+    return this.scheduler.schedule(() => deadline.run(phaseName, intermediate, async (signal) => {
+      streamHandlers.onPhase?.(phaseName);
+      if (toolSession && !this.toolsUnsupported.has(profile.model)) {
+        return this.runToolLoop(messages, phaseName, profile, scheduleContext, toolSession, streamHandlers.onToken, maxTokens, signal);
+      }
+      const phaseMessages = gatheredTools ? this.withToolResults(messages, gatheredTools) : messages;
+      return this.runThinkingPhase(phaseMessages, phaseName, profile, scheduleContext, streamHandlers.onToken, maxTokens, signal);
+    }), scheduleContext);
   }
 
   /**
-   * Handles chat with Docker Model Runner (OpenAI-compatible API)
-   * @param messages - Array of chat messages
-   * @returns Promise resolving to the assistant's response
+   * Runs a phase in which the model may call tools
+   * The model is called with the tool definitions until it answers without calling
+   * any, or the request's tool rounds are used up and it has to answer with what it has
+   * @param messages - Messages for this phase
+   * @param phaseName - Name of the current phase for logging
+   * @param profile - Model and generation settings
+   * @param tags - Who the phase runs for, recorded with its usage
+   * @param session - The request's tool session
+   * @param onToken - Optional callback; receives the answer in one piece, since tool calls can't be streamed
+   * @param maxTokens - Optional cap on the answer's length
+   * @param signal - Optional signal that aborts the model calls and stops further tool calls
+   * @returns Promise resolving to the phase response
    */
-  private async chatWithDockerModelRunner(messages: ChatMessage[]): Promise<string> {
-    const request: OpenAIChatRequest = {
-      model: appConfig.llmModel,
-      messages,
-      max_tokens: 1000,
-      temperature: 0.7
-    };
+  private async runToolLoop(
+    messages: ChatMessage[],
+    phaseName: string,
+    profile: ModelProfile,
+    tags: UsageTags,
+    session: ToolSession,
+    onToken?: (token: string) => void,
+    maxTokens?: number,
+    signal?: AbortSignal
+  ): Promise<string> {
+    let conversation = this.withToolResults(messages, session);
+    const definitions = this.tools.getDefinitions();
 
-    const response = await this.client.post<OpenAIChatResponse>(
-      '/engines/llama.cpp/v1/chat/completions',
-      request
-    );
+    while (session.roundsLeft > 0) {
+      let reply: ChatMessage;
+      try {
+        // Tool results pile up with each round, so the prompt is checked against the window every time
+        conversation = await this.budget.fitMessages(conversation, profile);
+        const options = this.getCompletionOptions(profile, maxTokens);
+        reply = await this.usage.measure('chat', phaseName, profile.model, tags,
+          onUsage => this.provider.chatWithTools(conversation, { ...options, onUsage, signal }, definitions));
+      } catch (error) {
+        // Models without tool support reject the tools parameter outright
+        if (axios.isAxiosError(error) && error.response?.status === 400 && JSON.stringify(error.response.data ?? '').toLowerCase().includes('tool')) {
+          console.warn(`[${this.provider.name}] Model ${profile.model} does not support tools, continuing without them`);
+          this.toolsUnsupported.add(profile.model);
+          break;
+        }
+        throw error;
+      }
 
-    const choice = response.data.choices?.[0];
-    if (!choice?.message?.content) {
-      throw new Error('Invalid response format from Docker Model Runner');
+      if (!reply.toolCalls?.length) {
+        if (!reply.content) break;
+        onToken?.(reply.content);
+        console.log(`[${this.provider.name}] ${phaseName} phase completed`);
+        return reply.content;
+      }
+
+      session.roundsLeft--;
+      console.log(`[${this.provider.name}] ${phaseName} phase requested ${reply.toolCalls.length} tool call(s), ${session.roundsLeft} round(s) left`);
+      conversation.push(reply);
+
+      for (const call of reply.toolCalls) {
+        signal?.throwIfAborted();
+        const result = await this.tools.execute(call, session.context);
+        session.results.push({ call, result });
+        conversation.push({ role: 'tool', content: result, toolCallId: call.id, toolName: call.name });
+      }
     }
 
-    return choice.message.content;
+    // Answer with everything gathered so far, without offering tools again
+    return this.runThinkingPhase(this.withToolResults(messages, session), phaseName, profile, tags, onToken, maxTokens, signal);
   }
 
   /**
-   * Handles chat with Ollama
-   * @param messages - Array of chat messages
-   * @returns Promise resolving to the assistant's response
+   * Appends results of earlier tool calls to a phase's messages as plain context,
+   * so phases that can't call tools themselves still see what was looked up
+   * @param messages - Messages for the phase
+   * @param session - The request's tool session
+   * @returns Messages with the tool results appended, if there are any
    */
-  private async chatWithOllama(messages: ChatMessage[]): Promise<string> {
-    const request: OllamaChatRequest = {
-      model: appConfig.llmModel,
-      messages,
-      stream: false,
-      options: {
-        temperature: 0.7
-      }
-    };
+  private withToolResults(messages: ChatMessage[], session: ToolSession): ChatMessage[] {
+    if (session.results.length === 0) {
+      return [...messages];
+    }
 
-    const response = await this.client.post<OllamaChatResponse>('/api/chat', request);
+    const results = session.results
+      .map(({ call, result }) => `${call.name}(${JSON.stringify(call.arguments)}):\n${result}`)
+      .join('\n\n');
 
-    if (!response.data.message?.content) {
-      throw new Error('Invalid response format from Ollama');
-    }
+    return [
+      ...messages,
+      { role: 'system', content: `Information looked up with tools while answering this request:\n\n${results}` },
+    ];
+  }
+
+  /**
+   * Runs a single phase of the thinking process against the provider
+   * @param messages - Messages for this thinking phase
+   * @param phaseName - Name of the current phase for logging
+   * @param profile - Model and generation settings
+   * @param tags - Who the phase runs for, recorded with its usage
+   * @param onToken - Optional callback to stream the phase response token by token
+   * @param maxTokens - Optional cap on the response's length, on top of the profile's own
+   * @param signal - Optional signal that aborts the call
+   * @returns Promise resolving to the phase response
+   */
+  private async runThinkingPhase(
+    messages: ChatMessage[],
+    phaseName: string,
+    profile: ModelProfile,
+    tags: UsageTags,
+    onToken?: (token: string) => void,
+    maxTokens?: number,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const options = this.getCompletionOptions(profile, maxTokens);
+    const fitted = await this.budget.fitMessages(messages, profile);
 
-    return response.data.message.content;
+    const response = await this.usage.measure('chat', phaseName, profile.model, tags, onUsage => onToken
+      ? this.provider.stream(fitted, { ...options, onUsage, signal }, onToken)
+      : this.provider.chat(fitted, { ...options, onUsage, signal }));
+    
+    console.log(`[${this.provider.name}] ${phaseName} phase completed`);
+    return response;
   }
 
   /**
@@ -325,12 +529,17 @@ User's question: ${userMessage}`;
    * @returns Formatted ApiError
    */
   private handleError(error: unknown): ApiError {
+    // Errors raised by the scheduler, or when every endpoint is down, are already formatted
+    if (error && typeof error === 'object' && !(error instanceof Error) && 'code' in error && 'message' in error) {
+      return error as ApiError;
+    }
+
     if (axios.isAxiosError(error)) {
       const axiosError = error as AxiosError;
       
       if (axiosError.code === 'ECONNREFUSED') {
         return {
-          message: `Cannot connect to ${this.provider}. Is it running?`,
+          message: `Cannot connect to ${this.provider.name}. Is it running?`,
           code: 'CONNECTION_REFUSED',
           details: axiosError.message
         };
@@ -338,7 +547,7 @@ User's question: ${userMessage}`;
       
       if (axiosError.code === 'ECONNABORTED') {
         return {
-          message: `Request to ${this.provider} timed out`,
+          message: `Request to ${this.provider.name} timed out`,
           code: 'TIMEOUT',
           details: axiosError.message
         };
@@ -346,7 +555,7 @@ User's question: ${userMessage}`;
       
       if (axiosError.response) {
         return {
-          message: `${this.provider} API error: ${axiosError.response.status}`,
+          message: `${this.provider.name} API error: ${axiosError.response.status}`,
           code: axiosError.response.status.toString(),
           details: axiosError.response.data
         };
@@ -354,7 +563,7 @@ User's question: ${userMessage}`;
     }
     
     return {
-      message: `Unexpected error with ${this.provider}`,
+      message: `Unexpected error with ${this.provider.name}`,
       code: 'UNKNOWN_ERROR',
       details: error
     };
@@ -367,24 +576,95 @@ User's question: ${userMessage}`;
    * @param channelId - Optional Slack channel ID
    * @param userId - Optional Slack user ID
    * @param userName - Optional user display name
+   * @param metadata - Additional metadata, awaited before storing
    */
   private storeMemoryAsync(
     userInput: string,
     botResponse: string,
     channelId?: string,
     userId?: string,
-    userName?: string
+    userName?: string,
+    metadata: Record<string, any> | Promise<Record<string, any>> = {}
   ): void {
-    // Store memory asynchronously without blocking the response
-    this.memoryService.storeMemory(userInput, botResponse, channelId, userId, { userName })
-      .then((entry) => {
-        console.log(`[${this.provider}] Memory stored with ID: ${entry.id}`);
+    // Store memory asynchronously without blocking the response, unless the user opted out
+    const optedOut = userId
+      ? this.memoryService.getUserPreferences(userId).then(preferences => preferences.memoryOptOut)
+      : Promise.resolve(false);
+
+    optedOut
+      .then(async (skip) => {
+        if (skip) {
+          console.log(`[${this.provider.name}] User ${userId} opted out of memory storage, skipping`);
+          return;
+        }
+        const extraMetadata = await metadata;
+        const entry = await this.memoryService.storeMemory(userInput, botResponse, channelId, userId, { ...extraMetadata, userName });
+        console.log(`[${this.provider.name}] Memory stored with ID: ${entry.id}`);
       })
       .catch((error) => {
-        console.warn(`[${this.provider}] Failed to store memory:`, error);
+        console.warn(`[${this.provider.name}] Failed to store memory:`, error);
       });
   }
 
+  /**
+   * Gets the model and sampling settings for completions
+   * @param profile - Model and generation settings of the role
+   * @param maxTokens - Optional cap on the completion's length; the lower of it and the profile's cap applies
+   */
+  private getCompletionOptions(profile: ModelProfile, maxTokens?: number): CompletionOptions {
+    const caps = [profile.maxTokens, maxTokens].filter((cap): cap is number => cap !== undefined);
+    return {
+      model: profile.model,
+      temperature: profile.temperature,
+      ...(caps.length > 0 && { maxTokens: Math.min(...caps) }),
+      ...(profile.topP !== undefined && { topP: profile.topP }),
+      // A persona's or configured window is passed on so servers that take it per request (Ollama) run with the same one
+      ...(profile.contextLength
+        ? { contextLength: profile.contextLength }
+        : appConfig.contextWindow > 0 && { contextLength: appConfig.contextWindow }),
+    };
+  }
+
+  /**
+   * Gets the tool registry, e.g. to register tools that need the Slack client
+   * @returns The tool registry
+   */
+  getTools(): ToolRegistry {
+    return this.tools;
+  }
+
+  /**
+   * Sets how channel names are looked up for prompt templates; the app owns the Slack client
+   * @param resolver - Resolves a channel ID to its name, or undefined for DMs
+   */
+  setChannelNameResolver(resolver: (channelId: string) => Promise<string | undefined>): void {
+    this.resolveChannelName = resolver;
+  }
+
+  /**
+   * Gets the prompt template service
+   * @returns The prompt service
+   */
+  getPrompts(): PromptService {
+    return this.prompts;
+  }
+
+  /**
+   * Gets the usage accounting service, e.g. for usage reports
+   * @returns The usage service
+   */
+  getUsageService(): UsageService {
+    return this.usage;
+  }
+
+  /**
+   * Gets the persona service, e.g. to manage persona assignments from Slack
+   * @returns The persona service
+   */
+  getPersonaService(): PersonaService {
+    return this.personas;
+  }
+
   /**
    * Gets memory service instance for external access
    * @returns The memory service instance
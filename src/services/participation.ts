@@ -0,0 +1,192 @@
+import { ChatMessage, Chattiness, ParticipationDecision, ParticipationTrigger } from '../types';
+import { appConfig } from '../config';
+import { LLMService } from './ollama';
+
+/**
+ * How each chattiness level scales the unprompted reply limit (and, inversely, the cooldown)
+ */
+const CHATTINESS_SCALE: Record<Chattiness, number> = {
+  off: 0,
+  quiet: 0.5,
+  normal: 1,
+  chatty: 2,
+};
+
+/**
+ * Number of earlier messages shown to the classifier as context
+ */
+const CONTEXT_MESSAGES = 6;
+
+/**
+ * Aidan's unprompted activity in one thread
+ */
+interface ThreadParticipation {
+  unpromptedReplies: number;
+  lastReplyAt: number;
+  lastUnpromptedAt?: number | undefined;
+}
+
+/**
+ * Decides whether Aidan joins a conversation it wasn't @mentioned in
+ * Per-channel chattiness, a per-thread cooldown and a cap on unprompted replies are
+ * checked first; only then is the LLM asked whether the message is addressed to Aidan.
+ * The cooldown and the cap only count unprompted replies, and never hold back a
+ * message that directly follows Aidan's own last answer
+ */
+export class ParticipationEngine {
+  private llmService: LLMService;
+  private threads: Map<string, ThreadParticipation> = new Map();
+
+  /**
+   * Creates a new ParticipationEngine instance
+   * @param llmService - LLM service used for the classifier
+   */
+  constructor(llmService: LLMService) {
+    this.llmService = llmService;
+  }
+
+  /**
+   * Decides whether Aidan should reply to a message and logs the reason
+   * @param trigger - Why a reply is being considered
+   * @param channelId - Slack channel ID
+   * @param threadTs - Thread the reply would go in, or undefined for the conversation itself
+   * @param userId - Slack user ID of the sender
+   * @param userName - Display name of the sender
+   * @param messageText - The message being considered
+   * @param history - Earlier messages of the conversation
+   * @returns Promise resolving to the decision
+   */
+  async decide(
+    trigger: ParticipationTrigger,
+    channelId: string,
+    threadTs: string | undefined,
+    userId: string,
+    userName: string,
+    messageText: string,
+    history: ChatMessage[]
+  ): Promise<ParticipationDecision> {
+    const decision = this.checkLimits(channelId, threadTs, history)
+      ?? await this.classify(trigger, channelId, userId, userName, messageText, history);
+
+    console.log(`[Participation] ${trigger} message in ${this.getThreadKey(channelId, threadTs)}: ${decision.respond ? 'RESPOND' : 'STAY_QUIET'} (${decision.reason})`);
+    return decision;
+  }
+
+  /**
+   * Records that Aidan replied in a thread
+   * An @mention counts as a fresh invitation and resets the unprompted reply count
+   * @param channelId - Slack channel ID
+   * @param threadTs - Thread replied in, or undefined for the conversation itself
+   * @param prompted - Whether Aidan was @mentioned
+   */
+  recordReply(channelId: string, threadTs: string | undefined, prompted: boolean): void {
+    const now = Date.now();
+    const key = this.getThreadKey(channelId, threadTs);
+    const state = this.threads.get(key);
+
+    this.threads.set(key, {
+      unpromptedReplies: prompted ? 0 : (state?.unpromptedReplies ?? 0) + 1,
+      lastReplyAt: now,
+      lastUnpromptedAt: prompted ? state?.lastUnpromptedAt : now,
+    });
+
+    // Forget threads that have gone quiet
+    for (const [threadKey, thread] of this.threads) {
+      if (now - thread.lastReplyAt > appConfig.threadExpiryMs) {
+        this.threads.delete(threadKey);
+      }
+    }
+  }
+
+  /**
+   * Applies chattiness, the reply cap and the cooldown
+   * A reply to Aidan's own last answer is left to the classifier whatever the limits say
+   * @returns A decision to stay quiet, or null if the classifier should decide
+   */
+  private checkLimits(channelId: string, threadTs: string | undefined, history: ChatMessage[]): ParticipationDecision | null {
+    const chattiness = appConfig.channelChattiness[channelId] ?? appConfig.defaultChattiness;
+    const scale = CHATTINESS_SCALE[chattiness];
+    if (scale === 0) {
+      return { respond: false, reason: 'chattiness is off' };
+    }
+
+    const state = this.threads.get(this.getThreadKey(channelId, threadTs));
+    if (!state || history[history.length - 1]?.role === 'assistant') {
+      return null;
+    }
+
+    if (appConfig.participationMaxUnprompted > 0) {
+      const maxReplies = Math.max(1, Math.floor(appConfig.participationMaxUnprompted * scale));
+      if (state.unpromptedReplies >= maxReplies) {
+        return { respond: false, reason: `already sent ${state.unpromptedReplies}/${maxReplies} unprompted replies (${chattiness})` };
+      }
+    }
+
+    const remainingMs = state.lastUnpromptedAt !== undefined
+      ? state.lastUnpromptedAt + appConfig.participationCooldownMs / scale - Date.now()
+      : 0;
+    if (remainingMs > 0) {
+      return { respond: false, reason: `cooling down for another ${Math.ceil(remainingMs / 1000)}s (${chattiness})` };
+    }
+
+    return null;
+  }
+
+  /**
+   * Asks the LLM whether the message is addressed to Aidan
+   */
+  private async classify(
+    trigger: ParticipationTrigger,
+    channelId: string,
+    userId: string,
+    userName: string,
+    messageText: string,
+    history: ChatMessage[]
+  ): Promise<ParticipationDecision> {
+    const botName = appConfig.botName;
+    const aliases = appConfig.botAliases.length > 0 ? ` (also called ${appConfig.botAliases.join(', ')})` : '';
+    const situation = trigger === 'name'
+      ? `The latest message contains ${botName}'s name.`
+      : `${botName} has replied earlier in this thread.`;
+
+    const prompt = `You decide whether ${botName}${aliases}, an AI assistant in a Slack workspace, should reply to the latest message in a conversation. ${botName} was not @mentioned. ${situation}
+
+Answer YES only if the latest message is addressed to ${botName}, or asks something ${botName} is clearly expected to answer.
+Answer NO if people are talking to each other, mention ${botName} only in passing, or a reply would interrupt.
+
+Respond in exactly this format:
+DECISION: YES or NO
+REASON: one short sentence`;
+
+    const transcript = history
+      .slice(-CONTEXT_MESSAGES)
+      .map(message => message.role === 'assistant' ? `${botName}: ${message.content}` : message.content)
+      .join('\n');
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: prompt },
+      { role: 'user', content: `Recent conversation:\n${transcript || '(none)'}\n\nLatest message:\n${userName}: ${messageText}` },
+    ];
+
+    try {
+      const output = await this.llmService.classify(messages, { userId, channelId, priority: 'low' });
+      const answer = output.match(/DECISION:\W*(YES|NO)\b/i)?.[1] ?? output.trim().match(/^\W*(YES|NO)\b/i)?.[1];
+      if (!answer) {
+        return { respond: false, reason: `unreadable classifier output "${output.trim().substring(0, 80)}"` };
+      }
+
+      const reason = output.match(/REASON:\s*(.+)/i)?.[1]?.trim() || 'no reason given';
+      return { respond: answer.toUpperCase() === 'YES', reason: `classifier: ${reason}` };
+    } catch (error) {
+      const message = error && typeof error === 'object' && 'message' in error ? error.message : error;
+      return { respond: false, reason: `classifier failed: ${message}` };
+    }
+  }
+
+  /**
+   * Generates a unique key for a thread, or for a conversation without threads
+   */
+  private getThreadKey(channelId: string, threadTs: string | undefined): string {
+    return threadTs ? `${channelId}-${threadTs}` : channelId;
+  }
+}
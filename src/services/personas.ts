@@ -0,0 +1,138 @@
+import { ModelProfile, PersonaAssignment, PersonaProfile } from '../types';
+import { appConfig } from '../config';
+import { VectorStore } from './vectorstore';
+
+/**
+ * Chooses the persona Aidan answers with in each conversation
+ * Personas are defined in configuration; which one a channel, or a user's DMs, gets is
+ * stored in the database so it can be changed from Slack
+ */
+export class PersonaService {
+  private vectorStore: VectorStore;
+
+  /**
+   * Creates a new PersonaService instance
+   * @param vectorStore - Store holding persona assignments
+   */
+  constructor(vectorStore: VectorStore) {
+    this.vectorStore = vectorStore;
+  }
+
+  /**
+   * Lists the configured personas
+   * @returns Persona profiles, the built-in default first
+   */
+  listPersonas(): PersonaProfile[] {
+    return Object.values(appConfig.personas);
+  }
+
+  /**
+   * Gets a persona by name
+   * @param name - Persona name, case-insensitive
+   * @returns The persona, or undefined if none has that name
+   */
+  getPersona(name: string): PersonaProfile | undefined {
+    return appConfig.personas[name.trim().toLowerCase()];
+  }
+
+  /**
+   * Gets the persona used where none is assigned
+   * @returns The default persona
+   */
+  getDefaultPersona(): PersonaProfile {
+    return appConfig.personas[appConfig.defaultPersona] ?? appConfig.personas.default!;
+  }
+
+  /**
+   * Gets the key a conversation's persona is stored under: the user for 1:1 DMs, otherwise the channel
+   * @param channelId - Slack channel ID, if any
+   * @param userId - Slack user ID, if any
+   * @returns The scope ID, or undefined if the conversation can't have its own persona
+   */
+  getScopeId(channelId?: string, userId?: string): string | undefined {
+    if (channelId?.startsWith('D')) {
+      return userId;
+    }
+    return channelId;
+  }
+
+  /**
+   * Gets the persona for a conversation
+   * Falls back to the default persona if none is assigned, or the assigned one is no longer configured
+   * @param channelId - Slack channel ID, if any
+   * @param userId - Slack user ID, if any
+   * @returns Promise resolving to the persona
+   */
+  async resolve(channelId?: string, userId?: string): Promise<PersonaProfile> {
+    const scopeId = this.getScopeId(channelId, userId);
+    const assignment = scopeId ? await this.getAssignment(scopeId) : null;
+    if (!assignment) {
+      return this.getDefaultPersona();
+    }
+
+    const persona = this.getPersona(assignment.persona);
+    if (!persona) {
+      console.warn(`[Personas] Persona "${assignment.persona}" assigned to ${scopeId} is not configured, using ${appConfig.defaultPersona}`);
+      return this.getDefaultPersona();
+    }
+    return persona;
+  }
+
+  /**
+   * Gets the persona assignment of a channel or a user's DMs
+   * @param scopeId - Channel ID, or user ID for DMs
+   * @returns Promise resolving to the assignment, or null if none is stored
+   */
+  async getAssignment(scopeId: string): Promise<PersonaAssignment | null> {
+    return this.vectorStore.getPersonaAssignment(scopeId);
+  }
+
+  /**
+   * Assigns a persona to a channel or a user's DMs
+   * @param scopeId - Channel ID, or user ID for DMs
+   * @param name - Persona name
+   * @param assignedBy - Slack user ID of whoever made the change
+   * @returns Promise resolving to the assigned persona
+   * @throws Error if no persona has that name
+   */
+  async assign(scopeId: string, name: string, assignedBy: string): Promise<PersonaProfile> {
+    const persona = this.getPersona(name);
+    if (!persona) {
+      throw new Error(`Unknown persona "${name}"`);
+    }
+
+    await this.vectorStore.savePersonaAssignment({ scopeId, persona: persona.name, assignedBy, assignedAt: Date.now() });
+    console.log(`[Personas] ${assignedBy} assigned persona "${persona.name}" to ${scopeId}`);
+    return persona;
+  }
+
+  /**
+   * Removes the persona assignment of a channel or a user's DMs, returning them to the default persona
+   * @param scopeId - Channel ID, or user ID for DMs
+   * @param clearedBy - Slack user ID of whoever made the change
+   * @returns Promise resolving to true if there was an assignment to remove
+   */
+  async clear(scopeId: string, clearedBy: string): Promise<boolean> {
+    const cleared = await this.vectorStore.deletePersonaAssignment(scopeId);
+    if (cleared) {
+      console.log(`[Personas] ${clearedBy} cleared the persona of ${scopeId}`);
+    }
+    return cleared;
+  }
+
+  /**
+   * Applies a persona's generation settings on top of a model role's
+   * @param profile - Model and generation settings of the role answering
+   * @param persona - Persona answering
+   * @returns The profile with the persona's settings where it has them
+   */
+  applyTo(profile: ModelProfile, persona: PersonaProfile): ModelProfile {
+    return {
+      ...profile,
+      ...(persona.temperature !== undefined && { temperature: persona.temperature }),
+      ...(persona.topP !== undefined && { topP: persona.topP }),
+      ...(persona.maxTokens !== undefined && { maxTokens: persona.maxTokens }),
+      ...(persona.contextLength !== undefined && { contextLength: persona.contextLength }),
+    };
+  }
+}
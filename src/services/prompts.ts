@@ -0,0 +1,334 @@
+import { createHash } from 'crypto';
+import { FSWatcher, readFileSync, promises as fs, watch } from 'fs';
+import { join } from 'path';
+import { PersonaProfile, PromptName, PromptTemplateInfo, PromptVariables, RequestPrompts } from '../types';
+import { appConfig } from '../config';
+
+/**
+ * Variables every template can use
+ */
+const COMMON_VARIABLES: Array<keyof PromptVariables> = ['botName', 'time', 'userName', 'channelName'];
+
+/**
+ * Variables each template may use; anything else is rejected when the template is loaded
+ */
+const TEMPLATE_VARIABLES: Record<PromptName, Array<keyof PromptVariables>> = {
+  system: COMMON_VARIABLES,
+  question: [...COMMON_VARIABLES, 'memory', 'question'],
+  planning: [...COMMON_VARIABLES, 'system', 'question'],
+  reasoning: [...COMMON_VARIABLES, 'system', 'question', 'planning'],
+  summary: [...COMMON_VARIABLES, 'system', 'question', 'planning', 'reasoning'],
+  review: [...COMMON_VARIABLES, 'system', 'question', 'draft'],
+};
+
+/**
+ * Time to wait for an editor to finish writing a changed file before reloading it
+ */
+const RELOAD_DELAY_MS = 200;
+
+/**
+ * {{name}}, {{#name}} or {{/name}}
+ */
+const TAG = /\{\{\s*([#/]?)\s*([A-Za-z]+)\s*\}\}/g;
+
+/**
+ * Piece of a parsed template
+ */
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; name: keyof PromptVariables }
+  | { type: 'section'; name: keyof PromptVariables; children: TemplateNode[] };
+
+/**
+ * A parsed, validated template
+ */
+interface CompiledTemplate extends PromptTemplateInfo {
+  nodes: TemplateNode[];
+}
+
+/**
+ * Parses a template and checks it only uses the variables it is given
+ * @param source - Template text
+ * @param allowed - Variables the template may use
+ * @returns The parsed template
+ * @throws Error naming the line of the first problem
+ */
+function parseTemplate(source: string, allowed: Array<keyof PromptVariables>): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ name: string; children: TemplateNode[]; line: number }> = [];
+  const lineAt = (index: number) => source.substring(0, index).split('\n').length;
+  let children = root;
+  let position = 0;
+
+  const addText = (text: string, index: number) => {
+    const stray = text.search(/\{\{|\}\}/);
+    if (stray >= 0) {
+      throw new Error(`line ${lineAt(index + stray)}: malformed tag, expected {{name}}, {{#name}} or {{/name}}`);
+    }
+    if (text) children.push({ type: 'text', text });
+  };
+
+  for (const match of source.matchAll(TAG)) {
+    const index = match.index ?? 0;
+    const [tag, kind, name = ''] = match;
+    addText(source.substring(position, index), position);
+    position = index + tag.length;
+
+    if (!allowed.includes(name as keyof PromptVariables)) {
+      throw new Error(`line ${lineAt(index)}: unknown variable "${name}" (available: ${allowed.join(', ')})`);
+    }
+
+    if (kind === '#') {
+      const section: TemplateNode = { type: 'section', name: name as keyof PromptVariables, children: [] };
+      children.push(section);
+      stack.push({ name, children, line: lineAt(index) });
+      children = section.children;
+    } else if (kind === '/') {
+      const open = stack.pop();
+      if (!open || open.name !== name) {
+        throw new Error(`line ${lineAt(index)}: {{/${name}}} without a matching {{#${name}}}`);
+      }
+      children = open.children;
+    } else {
+      children.push({ type: 'variable', name: name as keyof PromptVariables });
+    }
+  }
+
+  addText(source.substring(position), position);
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new Error(`line ${unclosed.line}: {{#${unclosed.name}}} is never closed`);
+  }
+  return root;
+}
+
+/**
+ * Fills in a parsed template; unset variables are empty, and sections are left out unless their variable is set
+ * @param nodes - Parsed template
+ * @param variables - Variable values
+ * @returns The rendered text
+ */
+function renderNodes(nodes: TemplateNode[], variables: Partial<PromptVariables>): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'variable':
+        return variables[node.name] ?? '';
+      case 'section':
+        return variables[node.name] ? renderNodes(node.children, variables) : '';
+    }
+  }).join('');
+}
+
+/**
+ * Gets the version of a template: a short hash of its content
+ */
+function versionOf(source: string): string {
+  return createHash('sha256').update(source).digest('hex').substring(0, 8);
+}
+
+/**
+ * Loads prompt templates from the prompts directory and renders them
+ * Every template is validated when it is loaded: a missing or invalid template stops the bot
+ * from starting. Changed files are reloaded while running; a change that doesn't validate is
+ * logged and the previous version stays in use.
+ */
+export class PromptService {
+  private directory: string;
+  private templates: Map<PromptName, CompiledTemplate> = new Map();
+  private personaTemplates: Map<string, CompiledTemplate> = new Map(); // Persona system prompt -> parsed template
+  private watcher: FSWatcher | null = null;
+  private reloadTimers: Map<PromptName, NodeJS.Timeout> = new Map();
+  private formatter: Intl.DateTimeFormat;
+
+  /**
+   * Creates a new PromptService instance and loads every template
+   * @throws Error if a template is missing or invalid
+   */
+  constructor() {
+    this.directory = appConfig.promptsDir;
+    this.formatter = new Intl.DateTimeFormat('en-US', { dateStyle: 'full', timeStyle: 'long', timeZone: appConfig.timezone });
+
+    for (const name of Object.keys(TEMPLATE_VARIABLES) as PromptName[]) {
+      const path = this.pathOf(name);
+      try {
+        this.templates.set(name, this.compile(name, path, readFileSync(path, 'utf8')));
+      } catch (error) {
+        throw new Error(`Invalid prompt template ${path}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    console.log(`[Prompts] Loaded ${this.templates.size} templates from ${this.directory}`);
+
+    if (appConfig.promptsHotReload) {
+      this.watch();
+    }
+  }
+
+  /**
+   * Lists the loaded templates
+   * @returns Template names, versions and files
+   */
+  getTemplates(): PromptTemplateInfo[] {
+    return [...this.templates.values()].map(({ name, version, path, loadedAt }) => ({ name, version, path, loadedAt }));
+  }
+
+  /**
+   * Prepares the prompts of one request, filling in what is known up front
+   * @param persona - Persona answering; its own system prompt replaces the system template
+   * @param userName - Display name of the user asking, if known
+   * @param channelName - Name of the channel, if any
+   * @returns The request's prompts, which also record the template versions used
+   */
+  forRequest(persona: PersonaProfile, userName?: string, channelName?: string): PromptSession {
+    const variables: Partial<PromptVariables> = {
+      botName: appConfig.botName,
+      time: this.formatter.format(new Date()),
+      userName: userName ?? '',
+      channelName: channelName ?? '',
+    };
+
+    const system = persona.systemPrompt ? this.getPersonaTemplate(persona) : this.templates.get('system')!;
+    return new PromptSession(name => this.templates.get(name)!, system, variables);
+  }
+
+  /**
+   * Stops watching the prompts directory
+   */
+  close(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    this.reloadTimers.forEach(timer => clearTimeout(timer));
+    this.reloadTimers.clear();
+  }
+
+  /**
+   * Gets a persona's own system prompt as a template
+   * A prompt that doesn't validate is used as plain text, so a typo doesn't take the persona down
+   */
+  private getPersonaTemplate(persona: PersonaProfile): CompiledTemplate {
+    const source = persona.systemPrompt!;
+    let template = this.personaTemplates.get(source);
+    if (!template) {
+      try {
+        template = this.compile('system', `persona ${persona.name}`, source);
+      } catch (error) {
+        console.warn(`[Prompts] System prompt of persona "${persona.name}" is not a valid template, using it as plain text:`, error instanceof Error ? error.message : error);
+        template = { name: 'system', version: versionOf(source), path: `persona ${persona.name}`, loadedAt: Date.now(), nodes: [{ type: 'text', text: source }] };
+      }
+      this.personaTemplates.set(source, template);
+    }
+    return template;
+  }
+
+  /**
+   * Parses and validates one template
+   * @param name - Template name, which decides the variables it may use
+   * @param path - Where the template came from
+   * @param source - Template text
+   * @returns The compiled template
+   */
+  private compile(name: PromptName, path: string, source: string): CompiledTemplate {
+    const text = source.trim();
+    if (!text) {
+      throw new Error('template is empty');
+    }
+    return { name, version: versionOf(text), path, loadedAt: Date.now(), nodes: parseTemplate(text, TEMPLATE_VARIABLES[name]) };
+  }
+
+  /**
+   * Watches the prompts directory, reloading templates shortly after their files change
+   */
+  private watch(): void {
+    try {
+      this.watcher = watch(this.directory, { persistent: false }, (_event, filename) => {
+        const name = filename?.toString().match(/^(\w+)\.md$/)?.[1] as PromptName | undefined;
+        if (!name || !(name in TEMPLATE_VARIABLES)) return;
+
+        clearTimeout(this.reloadTimers.get(name));
+        const timer = setTimeout(() => {
+          this.reloadTimers.delete(name);
+          void this.reload(name);
+        }, RELOAD_DELAY_MS);
+        timer.unref();
+        this.reloadTimers.set(name, timer);
+      });
+      this.watcher.on('error', error => console.warn('[Prompts] Stopped watching prompt templates:', error));
+    } catch (error) {
+      console.warn(`[Prompts] Cannot watch ${this.directory}, templates will not be reloaded:`, error);
+    }
+  }
+
+  /**
+   * Reloads a changed template, keeping the current version if the new one doesn't validate
+   * @param name - Template name
+   */
+  private async reload(name: PromptName): Promise<void> {
+    const current = this.templates.get(name)!;
+    try {
+      const template = this.compile(name, current.path, await fs.readFile(current.path, 'utf8'));
+      if (template.version === current.version) return;
+
+      this.templates.set(name, template);
+      console.log(`[Prompts] Reloaded ${name} template, version ${current.version} -> ${template.version}`);
+    } catch (error) {
+      console.error(`[Prompts] Keeping version ${current.version} of the ${name} template, the changed file is invalid:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Gets the file a template is loaded from
+   */
+  private pathOf(name: PromptName): string {
+    return join(this.directory, `${name}.md`);
+  }
+}
+
+/**
+ * Prompts of one request
+ * Templates are looked up when rendered, so a reload takes effect from the next phase; the versions
+ * actually rendered are recorded for the request's memory
+ */
+export class PromptSession implements RequestPrompts {
+  readonly system: string;
+  private getTemplate: (name: PromptName) => CompiledTemplate;
+  private variables: Partial<PromptVariables>;
+  private versions: Partial<Record<PromptName, string>> = {};
+
+  /**
+   * Creates a new PromptSession instance
+   * @param getTemplate - Looks up the current version of a template
+   * @param system - System prompt template of the persona answering
+   * @param variables - Variables known for the whole request
+   */
+  constructor(getTemplate: (name: PromptName) => CompiledTemplate, system: CompiledTemplate, variables: Partial<PromptVariables>) {
+    this.getTemplate = getTemplate;
+    this.system = renderNodes(system.nodes, variables);
+    this.versions.system = system.version;
+    this.variables = { ...variables, system: this.system };
+  }
+
+  /**
+   * Renders a template
+   * @param name - Template name
+   * @param variables - Variables not already filled in, such as the question and phase outputs
+   * @returns The rendered prompt
+   */
+  render(name: PromptName, variables: Partial<PromptVariables> = {}): string {
+    if (name === 'system') {
+      return this.system;
+    }
+
+    const template = this.getTemplate(name);
+    this.versions[name] = template.version;
+    return renderNodes(template.nodes, { ...this.variables, ...variables });
+  }
+
+  /**
+   * Gets the version of each template rendered so far
+   * @returns Versions keyed by template name
+   */
+  getVersions(): Partial<Record<PromptName, string>> {
+    return { ...this.versions };
+  }
+}
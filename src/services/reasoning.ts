@@ -0,0 +1,252 @@
+import {
+  ChatMessage,
+  PhaseRunner,
+  ReasoningMode,
+  ReasoningPipeline,
+  ReasoningStrategy,
+  RequestPrompts,
+  StreamHandlers
+} from '../types';
+import { appConfig } from '../config';
+import { containsCode } from './models';
+import { isDeadlineExceeded } from './deadline';
+
+/**
+ * Messages this short (in words) without signs of complexity are answered directly
+ */
+const SIMPLE_MESSAGE_WORDS = 12;
+
+/**
+ * Messages this long (in words) always get the full structured treatment
+ */
+const COMPLEX_MESSAGE_WORDS = 80;
+
+/**
+ * Small talk that never needs more than one call
+ */
+const SMALL_TALK = /^\W*(hi|hello|hey|yo|thanks|thank you|thx|ty|cheers|good (morning|afternoon|evening|night)|ok(ay)?|cool|nice|great|bye)\b/i;
+
+/**
+ * Requests to produce a piece of writing, which benefit from a draft and a review
+ */
+const WRITING_REQUEST = /\b(write|draft|rewrite|rephrase|compose|polish|proofread|summari[sz]e|announcement|e-?mail|blog post|release notes|description)\b/i;
+
+/**
+ * Questions that call for analysis, which benefit from planning and reasoning
+ */
+const ANALYTICAL_REQUEST = /\b(why|how (do|does|can|should|would)|explain|compare|trade-?offs?|pros and cons|design|architect\w*|debug|troubleshoot|diagnose|calculate|estimate|prove|step[- ]by[- ]step|plan|best (way|approach|practices?))\b/i;
+
+/**
+ * Answers with a single completion
+ */
+export class DirectPipeline implements ReasoningPipeline {
+  readonly intermediatePhases = 0;
+
+  /**
+   * Generates the reply in one call
+   * @param userMessage - The question, enhanced with memory context
+   * @param conversationHistory - Previous conversation messages
+   * @param runPhase - Runs a single LLM call
+   * @param streamHandlers - Callbacks for phase changes and streamed tokens
+   * @param prompts - The request's system prompt and phase templates
+   * @returns Promise resolving to the reply
+   */
+  async run(
+    userMessage: string,
+    conversationHistory: ChatMessage[],
+    runPhase: PhaseRunner,
+    streamHandlers: StreamHandlers,
+    prompts: RequestPrompts
+  ): Promise<string> {
+    const messages: ChatMessage[] = [
+      { role: 'system', content: prompts.system },
+      ...conversationHistory,
+      { role: 'user', content: userMessage }
+    ];
+
+    return runPhase(messages, 'Answering', streamHandlers, { allowTools: true });
+  }
+}
+
+/**
+ * Processes a question through a 3-cycle structured thinking approach
+ * 1. Planning - Understand the question and plan the approach
+ * 2. Reasoning - Work through the logic and analysis
+ * 3. Summary - Provide the final concise response
+ * If planning runs out of time the question is answered directly instead; if reasoning
+ * does, the summary is written from the plan alone
+ */
+export class StructuredPipeline implements ReasoningPipeline {
+  readonly intermediatePhases = 2;
+  private fallback: DirectPipeline = new DirectPipeline();
+
+  /**
+   * Generates the reply in planning, reasoning and summary phases
+   * @param userMessage - The question, enhanced with memory context
+   * @param conversationHistory - Previous conversation messages
+   * @param runPhase - Runs a single LLM call
+   * @param streamHandlers - Callbacks for phase changes and streamed tokens of the summary phase
+   * @param prompts - The request's system prompt and phase templates
+   * @returns Promise resolving to the final summary response
+   */
+  async run(
+    userMessage: string,
+    conversationHistory: ChatMessage[],
+    runPhase: PhaseRunner,
+    streamHandlers: StreamHandlers,
+    prompts: RequestPrompts
+  ): Promise<string> {
+    // Cycle 1: Planning
+    const planningPrompt = prompts.render('planning', { question: userMessage });
+
+    let planningResponse: string;
+    try {
+      planningResponse = await runPhase(
+        [{ role: 'system', content: planningPrompt }, ...conversationHistory],
+        'Planning',
+        { onPhase: streamHandlers.onPhase },
+        { allowTools: true, intermediate: true }
+      );
+    } catch (error) {
+      if (!isDeadlineExceeded(error)) throw error;
+      console.warn('[Reasoning] Planning ran out of time, answering directly instead');
+      return this.fallback.run(userMessage, conversationHistory, runPhase, streamHandlers, prompts);
+    }
+
+    // Cycle 2: Reasoning
+    const reasoningPrompt = prompts.render('reasoning', { question: userMessage, planning: planningResponse });
+
+    let reasoningResponse = '';
+    try {
+      reasoningResponse = await runPhase(
+        [{ role: 'system', content: reasoningPrompt }, ...conversationHistory],
+        'Reasoning',
+        { onPhase: streamHandlers.onPhase },
+        { intermediate: true }
+      );
+    } catch (error) {
+      if (!isDeadlineExceeded(error)) throw error;
+      console.warn('[Reasoning] Reasoning ran out of time, answering from the plan');
+    }
+
+    // Cycle 3: Summary; the template leaves out the reasoning section when there is none
+    const summaryPrompt = prompts.render('summary', { question: userMessage, planning: planningResponse, reasoning: reasoningResponse });
+
+    // Only the summary is shown to the user, so it is the only phase worth streaming
+    return runPhase(
+      [{ role: 'system', content: summaryPrompt }, ...conversationHistory],
+      'Summary',
+      streamHandlers
+    );
+  }
+}
+
+/**
+ * Writes a draft answer, then reviews it and sends the improved version
+ * If the review runs out of time, the draft is sent as it is
+ */
+export class CritiquePipeline implements ReasoningPipeline {
+  readonly intermediatePhases = 1;
+
+  /**
+   * Generates the reply in draft and review phases
+   * @param userMessage - The question, enhanced with memory context
+   * @param conversationHistory - Previous conversation messages
+   * @param runPhase - Runs a single LLM call
+   * @param streamHandlers - Callbacks for phase changes and streamed tokens of the review phase
+   * @param prompts - The request's system prompt and phase templates
+   * @returns Promise resolving to the revised reply
+   */
+  async run(
+    userMessage: string,
+    conversationHistory: ChatMessage[],
+    runPhase: PhaseRunner,
+    streamHandlers: StreamHandlers,
+    prompts: RequestPrompts
+  ): Promise<string> {
+    const draft = await runPhase(
+      [
+        { role: 'system', content: prompts.system },
+        ...conversationHistory,
+        { role: 'user', content: userMessage }
+      ],
+      'Drafting',
+      { onPhase: streamHandlers.onPhase },
+      { allowTools: true, intermediate: true }
+    );
+
+    const reviewPrompt = prompts.render('review', { question: userMessage, draft });
+
+    try {
+      return await runPhase(
+        [{ role: 'system', content: reviewPrompt }, ...conversationHistory],
+        'Reviewing',
+        streamHandlers
+      );
+    } catch (error) {
+      if (!isDeadlineExceeded(error)) throw error;
+      console.warn('[Reasoning] Review ran out of time, sending the draft');
+      return draft;
+    }
+  }
+}
+
+/**
+ * Picks the reasoning pipeline for each question
+ * Channels use their configured mode; in 'auto' mode a heuristic router judges the
+ * question's complexity without an extra LLM call
+ */
+export class ReasoningRouter {
+  private pipelines: Record<ReasoningStrategy, ReasoningPipeline> = {
+    direct: new DirectPipeline(),
+    structured: new StructuredPipeline(),
+    critique: new CritiquePipeline(),
+  };
+
+  /**
+   * Gets the configured reasoning mode for a channel
+   * @param channelId - Slack channel ID, if any
+   */
+  getMode(channelId?: string): ReasoningMode {
+    return (channelId && appConfig.channelReasoning[channelId]) || appConfig.defaultReasoning;
+  }
+
+  /**
+   * Chooses the strategy for a question
+   * @param userMessage - The user's question, without memory context
+   * @param channelId - Slack channel ID, if any
+   * @returns The strategy to use
+   */
+  selectStrategy(userMessage: string, channelId?: string): ReasoningStrategy {
+    const mode = this.getMode(channelId);
+    return mode === 'auto' ? this.route(userMessage) : mode;
+  }
+
+  /**
+   * Gets the pipeline implementing a strategy
+   * @param strategy - Reasoning strategy
+   */
+  getPipeline(strategy: ReasoningStrategy): ReasoningPipeline {
+    return this.pipelines[strategy];
+  }
+
+  /**
+   * Judges a question's complexity from its length and wording
+   */
+  private route(userMessage: string): ReasoningStrategy {
+    const text = userMessage.trim();
+    const words = text.split(/\s+/).filter(Boolean).length;
+    const hasCode = containsCode(text);
+
+    if (words >= COMPLEX_MESSAGE_WORDS || (hasCode && words > SIMPLE_MESSAGE_WORDS) || ANALYTICAL_REQUEST.test(text)) {
+      return 'structured';
+    }
+    if (WRITING_REQUEST.test(text)) {
+      return 'critique';
+    }
+    if (words <= SIMPLE_MESSAGE_WORDS || SMALL_TALK.test(text)) {
+      return 'direct';
+    }
+    return text.includes('?') && words > SIMPLE_MESSAGE_WORDS * 2 ? 'structured' : 'direct';
+  }
+}
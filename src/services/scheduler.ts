@@ -0,0 +1,191 @@
+import { ApiError, RequestPriority, ScheduleContext } from '../types';
+import { appConfig } from '../config';
+
+/**
+ * Numeric rank of each priority; higher runs first
+ */
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  high: 1,
+  low: 0,
+};
+
+/**
+ * A task waiting for an execution slot
+ */
+interface QueuedTask {
+  seq: number;
+  context: ScheduleContext;
+  start: () => void;
+  lastNotifiedPosition?: number;
+}
+
+/**
+ * Schedules LLM calls against a shared backend
+ * Limits concurrency and picks the next task by priority, then by whichever
+ * user and channel were served least recently, then in arrival order
+ */
+export class RequestScheduler {
+  private maxConcurrency: number;
+  private maxQueueSize: number;
+  private running = 0;
+  private queue: QueuedTask[] = [];
+  private nextSeq = 0;
+  private servedCounter = 0;
+  private lastServedUser: Map<string, number> = new Map();
+  private lastServedChannel: Map<string, number> = new Map();
+
+  /**
+   * Creates a new RequestScheduler instance
+   * @param maxConcurrency - Maximum number of tasks running at once
+   * @param maxQueueSize - Maximum number of waiting tasks before new ones are rejected
+   */
+  constructor(
+    maxConcurrency: number = appConfig.llmMaxConcurrency,
+    maxQueueSize: number = appConfig.llmMaxQueueSize
+  ) {
+    this.maxConcurrency = Math.max(1, maxConcurrency);
+    this.maxQueueSize = maxQueueSize;
+  }
+
+  /**
+   * Runs a task as soon as a slot is available and it is its turn
+   * @param task - Task to run
+   * @param context - Who the task is for and how urgent it is
+   * @returns Promise resolving to the task's result
+   * @throws ApiError with code QUEUE_FULL if too many tasks are waiting, or CANCELLED if the context's signal aborts first
+   */
+  async schedule<T>(task: () => Promise<T>, context: ScheduleContext): Promise<T> {
+    if (context.signal?.aborted) {
+      throw this.cancelled();
+    }
+
+    if (this.running < this.maxConcurrency && this.queue.length === 0) {
+      this.markServed(context);
+      this.running++;
+    } else {
+      // dispatch() reserves the slot before resolving
+      await this.waitForTurn(context);
+    }
+
+    try {
+      return await task();
+    } finally {
+      this.running--;
+      this.dispatch();
+    }
+  }
+
+  /**
+   * Gets the current load for logging and status displays
+   * @returns Number of running and waiting tasks
+   */
+  getLoad(): { running: number; queued: number } {
+    return { running: this.running, queued: this.queue.length };
+  }
+
+  /**
+   * Queues a task and resolves once it has been picked to run and holds a slot
+   */
+  private waitForTurn(context: ScheduleContext): Promise<void> {
+    if (this.queue.length >= this.maxQueueSize) {
+      const error: ApiError = {
+        message: `LLM request queue is full (${this.queue.length} waiting)`,
+        code: 'QUEUE_FULL',
+      };
+      return Promise.reject(error);
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const seq = this.nextSeq++;
+      const { signal } = context;
+
+      // A task stopped while it waits leaves the line without taking a slot
+      const leave = () => {
+        this.queue = this.queue.filter(queued => queued !== task);
+        console.log(`[Scheduler] Request for ${context.userId || 'system'} cancelled while waiting (${this.queue.length} waiting)`);
+        this.notifyPositions();
+        reject(this.cancelled());
+      };
+      const task: QueuedTask = {
+        seq,
+        context,
+        start: () => {
+          signal?.removeEventListener('abort', leave);
+          resolve();
+        },
+      };
+
+      signal?.addEventListener('abort', leave, { once: true });
+      this.queue.push(task);
+      console.log(`[Scheduler] Queued ${context.priority} request for ${context.userId || 'system'} (${this.queue.length} waiting, ${this.running} running)`);
+      this.notifyPositions();
+    });
+  }
+
+  /**
+   * Builds the error a cancelled task is rejected with
+   */
+  private cancelled(): ApiError {
+    return { message: 'LLM request was cancelled', code: 'CANCELLED' };
+  }
+
+  /**
+   * Starts waiting tasks while slots are free
+   */
+  private dispatch(): void {
+    while (this.running < this.maxConcurrency && this.queue.length > 0) {
+      const next = this.orderedQueue()[0];
+      this.queue = this.queue.filter(task => task !== next);
+      this.markServed(next.context);
+      // Reserve the slot now; schedule() releases it when the task ends
+      this.running++;
+      next.start();
+    }
+    this.notifyPositions();
+  }
+
+  /**
+   * Orders waiting tasks by the order they would be picked in
+   */
+  private orderedQueue(): QueuedTask[] {
+    return [...this.queue].sort((a, b) =>
+      PRIORITY_RANK[b.context.priority] - PRIORITY_RANK[a.context.priority] ||
+      this.lastServed(this.lastServedUser, a.context.userId) - this.lastServed(this.lastServedUser, b.context.userId) ||
+      this.lastServed(this.lastServedChannel, a.context.channelId) - this.lastServed(this.lastServedChannel, b.context.channelId) ||
+      a.seq - b.seq
+    );
+  }
+
+  /**
+   * Tells each waiting task its position in line
+   */
+  private notifyPositions(): void {
+    this.orderedQueue().forEach((task, index) => {
+      const position = index + 1;
+      if (task.lastNotifiedPosition === position) return;
+      task.lastNotifiedPosition = position;
+
+      try {
+        task.context.onQueued?.(position);
+      } catch (error) {
+        console.warn('[Scheduler] Queue position callback failed:', error);
+      }
+    });
+  }
+
+  /**
+   * Records that a user and channel were just served
+   */
+  private markServed(context: ScheduleContext): void {
+    const served = ++this.servedCounter;
+    if (context.userId) this.lastServedUser.set(context.userId, served);
+    if (context.channelId) this.lastServedChannel.set(context.channelId, served);
+  }
+
+  /**
+   * Gets when a user or channel was last served; never-served keys go first
+   */
+  private lastServed(servedMap: Map<string, number>, key: string | undefined): number {
+    return key ? servedMap.get(key) ?? 0 : 0;
+  }
+}
@@ -0,0 +1,175 @@
+import { App, KnownBlock } from '@slack/bolt';
+import { FormattedMessage } from '../types';
+import { appConfig } from '../config';
+import { ResponseFormatter } from './formatter';
+
+type SlackClient = App['client'];
+
+/**
+ * Maximum characters shown while a reply is still being written
+ * Longer partial replies show their most recent part
+ */
+const PREVIEW_LENGTH = 3500;
+
+/**
+ * Slack message that is progressively edited while a reply is generated
+ * Posts a placeholder, throttles chat.update calls as tokens arrive and
+ * replaces the placeholder with the final text when generation completes
+ */
+export class StreamingMessage {
+  private client: SlackClient;
+  private channelId: string;
+  private threadTs: string | undefined;
+  private updateIntervalMs: number;
+  private messageTs: string | undefined;
+  private text = '';
+  private lastUpdate = 0;
+  private pendingUpdate: NodeJS.Timeout | undefined;
+  private inFlight: Promise<void> = Promise.resolve();
+  private finished = false;
+  private formatter: ResponseFormatter = new ResponseFormatter();
+
+  /**
+   * Creates a new StreamingMessage instance
+   * @param client - Slack Web API client
+   * @param channelId - Channel to post the reply in
+   * @param threadTs - Optional thread to post the reply in
+   * @param updateIntervalMs - Minimum interval between message updates
+   */
+  constructor(
+    client: SlackClient,
+    channelId: string,
+    threadTs?: string,
+    updateIntervalMs: number = appConfig.streamUpdateIntervalMs
+  ) {
+    this.client = client;
+    this.channelId = channelId;
+    this.threadTs = threadTs;
+    this.updateIntervalMs = updateIntervalMs;
+  }
+
+  /**
+   * Posts the placeholder message
+   * @param placeholder - Text shown until tokens arrive
+   */
+  async start(placeholder: string): Promise<void> {
+    const result = await this.client.chat.postMessage({
+      channel: this.channelId,
+      text: placeholder,
+      ...(this.threadTs && { thread_ts: this.threadTs }),
+    });
+    this.messageTs = result.ts;
+    this.lastUpdate = Date.now();
+  }
+
+  /**
+   * Gets the timestamp of the posted message, once the placeholder exists
+   */
+  get ts(): string | undefined {
+    return this.messageTs;
+  }
+
+  /**
+   * Replaces the placeholder with a status line while no tokens have arrived yet
+   * @param status - Status text to show
+   */
+  setStatus(status: string): void {
+    if (this.text || this.finished) return;
+    this.enqueueUpdate(status);
+  }
+
+  /**
+   * Appends a generated token and schedules a throttled update
+   * @param token - Newly generated text
+   */
+  append(token: string): void {
+    if (this.finished) return;
+    this.text += token;
+    this.scheduleUpdate();
+  }
+
+  /**
+   * Replaces the placeholder with the final reply
+   * @param message - First message of the formatted reply
+   * @returns Promise resolving to the timestamp of the reply message
+   */
+  async finish(message: FormattedMessage): Promise<string | undefined> {
+    this.finished = true;
+    this.cancelPendingUpdate();
+    this.enqueueUpdate(message.text, message.blocks);
+    await this.inFlight;
+    return this.messageTs;
+  }
+
+  /**
+   * Removes the placeholder, e.g. when generation failed
+   */
+  async discard(): Promise<void> {
+    this.finished = true;
+    this.cancelPendingUpdate();
+    await this.inFlight;
+
+    if (!this.messageTs) return;
+    try {
+      await this.client.chat.delete({ channel: this.channelId, ts: this.messageTs });
+    } catch (error) {
+      console.warn('[StreamingMessage] Failed to delete placeholder:', error);
+    }
+  }
+
+  /**
+   * Schedules an update no sooner than the configured interval after the previous one
+   */
+  private scheduleUpdate(): void {
+    if (this.pendingUpdate) return;
+
+    const delay = Math.max(0, this.lastUpdate + this.updateIntervalMs - Date.now());
+    this.pendingUpdate = setTimeout(() => {
+      this.pendingUpdate = undefined;
+      if (!this.finished) {
+        // The cursor shows the reply is still being written
+        this.enqueueUpdate(`${this.preview()} ▌`);
+      }
+    }, delay);
+  }
+
+  /**
+   * Cancels a scheduled update that has not started yet
+   */
+  private cancelPendingUpdate(): void {
+    if (this.pendingUpdate) {
+      clearTimeout(this.pendingUpdate);
+      this.pendingUpdate = undefined;
+    }
+  }
+
+  /**
+   * Renders the partial reply as mrkdwn, keeping only its tail when too long
+   */
+  private preview(): string {
+    const text = this.formatter.toMrkdwn(this.text);
+    return text.length > PREVIEW_LENGTH ? `…${text.substring(text.length - PREVIEW_LENGTH)}` : text;
+  }
+
+  /**
+   * Queues a chat.update after any update already in flight, keeping edits in order
+   * @param text - Text to set on the message
+   * @param blocks - Optional blocks to set on the message
+   */
+  private enqueueUpdate(text: string, blocks?: KnownBlock[]): void {
+    this.inFlight = this.inFlight.then(async () => {
+      if (!this.messageTs) return;
+      try {
+        await this.client.chat.update({
+          channel: this.channelId,
+          ts: this.messageTs,
+          text,
+          ...(blocks && { blocks }),
+        });
+      } catch (error) {
+        console.warn('[StreamingMessage] Failed to update message:', error);
+      }
+      this.lastUpdate = Date.now();
+    });
+  }
+}
@@ -0,0 +1,145 @@
+import { VectorStore } from './vectorstore';
+import { appConfig } from '../config';
+
+/**
+ * Share of the expiry time a followed thread's stored last activity may lag behind
+ * Saving it on every message would export the whole database each time; after a restart,
+ * a thread may expire this much earlier than it would have
+ */
+const PERSIST_INTERVAL_FRACTION = 0.1;
+
+/**
+ * Tracks the threads Aidan is participating in
+ * Keeps an in-memory cache backed by the SQLite database so participation survives restarts
+ */
+export class ThreadTracker {
+  private vectorStore: VectorStore;
+  private threads: Map<string, number> = new Map(); // Thread key -> last activity
+  private persisted: Map<string, number> = new Map(); // Thread key -> last activity in the database
+  private expiryMs: number;
+
+  /**
+   * Creates a new ThreadTracker instance
+   * @param vectorStore - Vector store used to persist thread participation
+   * @param expiryMs - Idle time after which a thread is no longer followed
+   */
+  constructor(vectorStore: VectorStore, expiryMs: number = appConfig.threadExpiryMs) {
+    this.vectorStore = vectorStore;
+    this.expiryMs = expiryMs;
+  }
+
+  /**
+   * Loads persisted threads from the database, discarding expired ones
+   * @returns Promise resolving to the number of threads loaded
+   */
+  async load(): Promise<number> {
+    try {
+      const cutoff = Date.now() - this.expiryMs;
+      await this.vectorStore.deleteExpiredThreads(cutoff);
+
+      const threads = await this.vectorStore.getActiveThreads(cutoff);
+      for (const thread of threads) {
+        const threadKey = this.getThreadKey(thread.channelId, thread.threadTs);
+        this.threads.set(threadKey, thread.lastActivity);
+        this.persisted.set(threadKey, thread.lastActivity);
+      }
+
+      console.log(`[ThreadTracker] Loaded ${threads.length} active threads`);
+      return threads.length;
+    } catch (error) {
+      console.error('[ThreadTracker] Failed to load active threads:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Checks whether Aidan is following a thread, expiring it if it has gone idle
+   * @param channelId - Slack channel ID
+   * @param threadTs - Thread timestamp
+   * @returns Whether the thread is active
+   */
+  isActive(channelId: string, threadTs: string): boolean {
+    const threadKey = this.getThreadKey(channelId, threadTs);
+    const lastActivity = this.threads.get(threadKey);
+
+    if (lastActivity === undefined) {
+      return false;
+    }
+
+    if (Date.now() - lastActivity > this.expiryMs) {
+      console.log(`[ThreadTracker] Thread ${threadKey} expired after inactivity`);
+      this.remove(channelId, threadTs);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Starts following a thread, or refreshes its last activity if already followed
+   * The database is only updated once the stored activity is a share of the expiry time old
+   * @param channelId - Slack channel ID
+   * @param threadTs - Thread timestamp
+   */
+  track(channelId: string, threadTs: string): void {
+    const threadKey = this.getThreadKey(channelId, threadTs);
+    const lastActivity = Date.now();
+    this.threads.set(threadKey, lastActivity);
+
+    const persistedActivity = this.persisted.get(threadKey);
+    if (persistedActivity !== undefined && lastActivity - persistedActivity < this.expiryMs * PERSIST_INTERVAL_FRACTION) {
+      return;
+    }
+
+    this.persisted.set(threadKey, lastActivity);
+    this.vectorStore.saveActiveThread({ channelId, threadTs, lastActivity })
+      .catch((error) => {
+        console.warn(`[ThreadTracker] Failed to persist thread ${threadKey}:`, error);
+        this.persisted.delete(threadKey);
+      });
+  }
+
+  /**
+   * Stops following a thread
+   * @param channelId - Slack channel ID
+   * @param threadTs - Thread timestamp
+   * @returns Whether the thread was being followed
+   */
+  leave(channelId: string, threadTs: string): boolean {
+    const threadKey = this.getThreadKey(channelId, threadTs);
+    const wasActive = this.threads.has(threadKey);
+    this.remove(channelId, threadTs);
+
+    console.log(`[ThreadTracker] Left thread ${threadKey}`);
+    return wasActive;
+  }
+
+  /**
+   * Gets the number of threads currently followed
+   * @returns Number of tracked threads
+   */
+  get size(): number {
+    return this.threads.size;
+  }
+
+  /**
+   * Removes a thread from the cache and the database
+   */
+  private remove(channelId: string, threadTs: string): void {
+    const threadKey = this.getThreadKey(channelId, threadTs);
+    this.threads.delete(threadKey);
+    this.persisted.delete(threadKey);
+
+    this.vectorStore.deleteActiveThread(channelId, threadTs)
+      .catch((error) => {
+        console.warn(`[ThreadTracker] Failed to remove thread ${threadKey}:`, error);
+      });
+  }
+
+  /**
+   * Builds the cache key for a thread
+   */
+  private getThreadKey(channelId: string, threadTs: string): string {
+    return `${channelId}-${threadTs}`;
+  }
+}
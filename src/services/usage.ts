@@ -0,0 +1,213 @@
+import { ProviderUsage, UsageDimension, UsageKind, UsageRecord, UsageSummaryRow, UsageTags } from '../types';
+import { appConfig } from '../config';
+import { VectorStore } from './vectorstore';
+
+/**
+ * How long records wait in memory before they are written, so a busy bot doesn't save the database after every call
+ */
+const FLUSH_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Pending records that trigger a write straight away
+ */
+const MAX_PENDING_RECORDS = 100;
+
+/**
+ * Pending records kept while writes keep failing; the oldest are dropped beyond this
+ */
+const MAX_UNSAVED_RECORDS = 5000;
+
+/**
+ * Minimum time between removals of records past the retention period
+ */
+const PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Records the token counts and latency of every model call and reports on them
+ * Chat phases and embedding calls are measured as they complete and written to the
+ * database in batches; reports aggregate them by user, channel, model, phase or day
+ */
+export class UsageService {
+  private vectorStore: VectorStore;
+  private pending: UsageRecord[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+  private unsaved = false; // Whether stored records are still waiting for the database to be saved
+  private lastPrunedAt = 0;
+
+  /**
+   * Creates a new UsageService instance
+   * @param vectorStore - Store to write usage records to
+   */
+  constructor(vectorStore: VectorStore) {
+    this.vectorStore = vectorStore;
+  }
+
+  /**
+   * Runs a model call and records its usage once it succeeds
+   * Failed calls are not recorded; their errors are passed on unchanged
+   * @param kind - Kind of call
+   * @param phase - Pipeline phase, or "Embedding"
+   * @param model - Model the call is made to
+   * @param tags - Who the call is made for
+   * @param call - Makes the call, passing what the server reports to onUsage
+   * @returns Promise resolving to the call's result
+   */
+  async measure<T>(
+    kind: UsageKind,
+    phase: string,
+    model: string,
+    tags: UsageTags,
+    call: (onUsage: (usage: ProviderUsage) => void) => Promise<T>
+  ): Promise<T> {
+    const startedAt = Date.now();
+    let usage: ProviderUsage = {};
+    const result = await call(reported => { usage = reported; });
+
+    this.record({
+      timestamp: Date.now(),
+      kind,
+      phase,
+      model,
+      userId: tags.userId,
+      channelId: tags.channelId,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      latencyMs: Date.now() - startedAt,
+      generationMs: usage.generationMs,
+    });
+    return result;
+  }
+
+  /**
+   * Queues a usage record to be written with the next batch
+   * @param record - Usage of one model call
+   */
+  record(record: UsageRecord): void {
+    this.pending.push(record);
+    if (record.kind === 'chat') {
+      const tokens = `${record.promptTokens ?? '?'} prompt + ${record.completionTokens ?? '?'} generated tokens`;
+      console.log(`[Usage] ${record.phase} on ${record.model}: ${tokens} in ${record.latencyMs}ms`);
+    }
+
+    if (this.pending.length >= MAX_PENDING_RECORDS) {
+      void this.flush();
+    } else {
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * Writes pending records, and removes records past the retention period about once a day
+   * A failed write keeps the records for the next attempt; failures are logged, never thrown
+   * @returns Promise that resolves once the records are written or the write failed
+   */
+  async flush(): Promise<void> {
+    // One write at a time; records queued meanwhile wait for the next one
+    while (this.flushing) {
+      await this.flushing;
+    }
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    this.flushing = this.write().finally(() => { this.flushing = null; });
+    await this.flushing;
+  }
+
+  /**
+   * Aggregates recent usage per user, channel, model, phase or day
+   * @param groupBy - What to group by
+   * @param days - How many days back to look
+   * @param limit - Maximum number of rows
+   * @returns Promise resolving to the rows, heaviest users first (newest first for days)
+   */
+  async getSummary(groupBy: UsageDimension, days: number, limit: number): Promise<UsageSummaryRow[]> {
+    await this.flush();
+    return this.vectorStore.getUsageSummary(groupBy, this.since(days), limit);
+  }
+
+  /**
+   * Aggregates all recent usage, or one user's
+   * @param days - How many days back to look
+   * @param userId - Optional Slack user ID to total the usage of
+   * @returns Promise resolving to the totals
+   */
+  async getTotals(days: number, userId?: string): Promise<UsageSummaryRow> {
+    await this.flush();
+    return this.vectorStore.getUsageTotals(this.since(days), userId);
+  }
+
+  /**
+   * Writes whatever is still pending, e.g. before shutting down
+   * @returns Promise that resolves once pending records are written
+   */
+  async close(): Promise<void> {
+    await this.flush();
+  }
+
+  /**
+   * Writes the pending records in one batch
+   */
+  private async write(): Promise<void> {
+    const batch = this.pending;
+    this.pending = [];
+
+    if (batch.length > 0) {
+      try {
+        await this.vectorStore.storeUsageRecords(batch);
+        this.unsaved = true;
+      } catch (error) {
+        // Nothing of a failed batch was stored, so all of it can be written again
+        console.warn(`[Usage] Failed to write ${batch.length} usage records, will retry:`, error);
+        this.pending = [...batch, ...this.pending].slice(-MAX_UNSAVED_RECORDS);
+        this.scheduleFlush();
+        return;
+      }
+    }
+
+    // Stored records are only saved again, never stored twice
+    if (this.unsaved) {
+      try {
+        await this.vectorStore.save();
+        this.unsaved = false;
+      } catch (error) {
+        console.warn('[Usage] Failed to save usage records, will retry:', error);
+        this.scheduleFlush();
+        return;
+      }
+    }
+
+    if (appConfig.usageRetentionDays > 0 && Date.now() - this.lastPrunedAt >= PRUNE_INTERVAL_MS) {
+      this.lastPrunedAt = Date.now();
+      try {
+        const removed = await this.vectorStore.deleteUsageBefore(this.since(appConfig.usageRetentionDays));
+        if (removed > 0) {
+          console.log(`[Usage] Removed ${removed} usage records older than ${appConfig.usageRetentionDays} days`);
+        }
+      } catch (error) {
+        console.warn('[Usage] Failed to remove old usage records, will retry tomorrow:', error);
+      }
+    }
+  }
+
+  /**
+   * Arms the timer that writes pending records, unless it is already armed
+   */
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      void this.flush();
+    }, FLUSH_INTERVAL_MS);
+    this.flushTimer.unref();
+  }
+
+  /**
+   * Gets the start of a period reaching back a number of days from now
+   */
+  private since(days: number): number {
+    return Date.now() - days * 24 * 60 * 60 * 1000;
+  }
+}
@@ -1,5 +1,16 @@
 import initSqlJs, { Database } from 'sql.js';
-import { MemoryEntry, MemorySearchResult } from '../types';
+import {
+  ActiveThread,
+  ConversationSurface,
+  FeedbackSummary,
+  MemoryEntry,
+  MemorySearchResult,
+  PersonaAssignment,
+  UsageDimension,
+  UsageRecord,
+  UsageSummaryRow,
+  UserPreferences
+} from '../types';
 import { appConfig } from '../config';
 import { promises as fs } from 'fs';
 import { dirname } from 'path';
@@ -11,6 +22,7 @@ import { dirname } from 'path';
 export class VectorStore {
   private db?: Database;
   private initialized = false;
+  private writing: Promise<void> = Promise.resolve(); // Last queued write of the database file
 
   /**
    * Creates a new VectorStore instance
@@ -78,30 +90,132 @@ export class VectorStore {
       )
     `;
 
+    const createActiveThreadsTable = `
+      CREATE TABLE IF NOT EXISTS active_threads (
+        channel_id TEXT NOT NULL,
+        thread_ts TEXT NOT NULL,
+        last_activity INTEGER NOT NULL,
+        PRIMARY KEY (channel_id, thread_ts)
+      )
+    `;
+
+    const createUserPreferencesTable = `
+      CREATE TABLE IF NOT EXISTS user_preferences (
+        user_id TEXT PRIMARY KEY,
+        preferences TEXT NOT NULL
+      )
+    `;
+
+    const createMemoryFeedbackTable = `
+      CREATE TABLE IF NOT EXISTS memory_feedback (
+        memory_id INTEGER NOT NULL,
+        user_id TEXT NOT NULL,
+        value INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        PRIMARY KEY (memory_id, user_id, value)
+      )
+    `;
+
+    const createPersonaAssignmentsTable = `
+      CREATE TABLE IF NOT EXISTS persona_assignments (
+        scope_id TEXT PRIMARY KEY,
+        persona TEXT NOT NULL,
+        assigned_by TEXT NOT NULL,
+        assigned_at INTEGER NOT NULL
+      )
+    `;
+
+    const createModelUsageTable = `
+      CREATE TABLE IF NOT EXISTS model_usage (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp INTEGER NOT NULL,
+        kind TEXT NOT NULL,
+        phase TEXT NOT NULL,
+        model TEXT NOT NULL,
+        user_id TEXT,
+        channel_id TEXT,
+        prompt_tokens INTEGER,
+        completion_tokens INTEGER,
+        latency_ms INTEGER NOT NULL,
+        generation_ms INTEGER
+      )
+    `;
+
     const createIndexes = [
       'CREATE INDEX IF NOT EXISTS idx_memories_timestamp ON memories(timestamp)',
       'CREATE INDEX IF NOT EXISTS idx_memories_channel_id ON memories(channel_id)',
-      'CREATE INDEX IF NOT EXISTS idx_memories_user_id ON memories(user_id)'
+      'CREATE INDEX IF NOT EXISTS idx_memories_user_id ON memories(user_id)',
+      'CREATE INDEX IF NOT EXISTS idx_active_threads_last_activity ON active_threads(last_activity)',
+      'CREATE INDEX IF NOT EXISTS idx_model_usage_timestamp ON model_usage(timestamp)'
     ];
 
     this.db.run(createMemoriesTable);
+    this.migrateMemoriesTable();
+    this.db.run(createActiveThreadsTable);
+    this.db.run(createUserPreferencesTable);
+    this.db.run(createMemoryFeedbackTable);
+    this.db.run(createPersonaAssignmentsTable);
+    this.db.run(createModelUsageTable);
     createIndexes.forEach(indexSql => this.db!.run(indexSql));
   }
 
   /**
-   * Saves the database to disk
+   * Adds columns introduced after the memories table was first created
    */
-  private async saveDatabase(): Promise<void> {
-    if (!this.db) return;
+  private migrateMemoriesTable(): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const columns = (this.db.exec('PRAGMA table_info(memories)')[0]?.values || []).map(row => row[1] as string);
+    if (!columns.includes('surface')) {
+      this.db.run('ALTER TABLE memories ADD COLUMN surface TEXT');
+      // Best effort for existing rows: DM and legacy private channel IDs have distinct prefixes
+      this.db.run(`
+        UPDATE memories SET surface = CASE
+          WHEN channel_id LIKE 'D%' THEN 'im'
+          WHEN channel_id LIKE 'G%' THEN 'group'
+          ELSE 'channel'
+        END
+        WHERE channel_id IS NOT NULL
+      `);
+      console.log('[VectorStore] Added surface column to memories');
+    }
+  }
+
+  /**
+   * Saves the database to disk, passing on a failed write
+   * For callers that keep what they changed until it is safely on disk
+   * @returns Promise that resolves once the database is written
+   */
+  async save(): Promise<void> {
+    await this.ensureInitialized();
+    await this.writeDatabase();
+  }
 
+  /**
+   * Saves the database to disk, logging a failed write
+   */
+  private async saveDatabase(): Promise<void> {
     try {
-      const data = this.db.export();
-      await fs.writeFile(appConfig.databasePath, data);
+      await this.writeDatabase();
     } catch (error) {
       console.error('[VectorStore] Failed to save database:', error);
     }
   }
 
+  /**
+   * Writes the database to disk
+   * The database is exported straight away, but writes wait for the previous one to finish,
+   * as overlapping writes to the same file can leave it corrupted
+   */
+  private async writeDatabase(): Promise<void> {
+    if (!this.db) return;
+
+    const data = this.db.export();
+    const write = this.writing.then(() => fs.writeFile(appConfig.databasePath, data));
+    this.writing = write.catch(() => {});
+    await write;
+  }
+
   /**
    * Stores a memory entry in the vector store
    */
@@ -111,8 +225,8 @@ export class VectorStore {
 
     try {
       const stmt = this.db.prepare(`
-        INSERT INTO memories (timestamp, user_input, bot_response, embedding, channel_id, user_id, user_name, metadata)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        INSERT INTO memories (timestamp, user_input, bot_response, embedding, channel_id, user_id, user_name, surface, metadata)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
 
       stmt.run([
@@ -123,6 +237,7 @@ export class VectorStore {
         entry.channelId || null,
         entry.userId || null,
         entry.userName || null,
+        entry.surface || null,
         entry.metadata ? JSON.stringify(entry.metadata) : null
       ]);
 
@@ -143,21 +258,28 @@ export class VectorStore {
 
   /**
    * Searches for similar memories using vector similarity
+   * Memories voted down past the hide threshold are left out unless includeHidden is set
    */
   async searchSimilar(
     queryEmbedding: number[], 
     limit: number = appConfig.maxMemoryResults,
     channelId?: string,
-    userId?: string
+    userId?: string,
+    visibleFrom?: string,
+    includeHidden: boolean = false
   ): Promise<MemorySearchResult[]> {
     await this.ensureInitialized();
     if (!this.db) throw new Error('Database not initialized');
 
     try {
-      // Build dynamic query based on filters
+      // Build dynamic query based on filters, joining each memory's net feedback
       let query = `
-        SELECT id, timestamp, user_input, bot_response, embedding, channel_id, user_id, user_name, metadata
+        SELECT id, timestamp, user_input, bot_response, embedding, channel_id, user_id, user_name, metadata, surface,
+               COALESCE(feedback.score, 0) AS feedback_score
         FROM memories
+        LEFT JOIN (
+          SELECT memory_id, SUM(value) AS score FROM memory_feedback GROUP BY memory_id
+        ) AS feedback ON feedback.memory_id = memories.id
       `;
       
       const conditions: string[] = [];
@@ -173,6 +295,11 @@ export class VectorStore {
         params.push(userId);
       }
 
+      if (visibleFrom) {
+        conditions.push(this.visibilityCondition());
+        params.push(visibleFrom);
+      }
+
       if (conditions.length > 0) {
         query += ` WHERE ${conditions.join(' AND ')}`;
       }
@@ -184,7 +311,14 @@ export class VectorStore {
       const results: MemorySearchResult[] = [];
 
       for (const row of rows) {
-        const [id, timestamp, userInput, botResponse, embeddingStr, channelId, userId, userName, metadataStr] = row;
+        const [id, timestamp, userInput, botResponse, embeddingStr, channelId, userId, userName, metadataStr, surface, feedbackScore] = row;
+        const score = feedbackScore as number;
+
+        // Answers voted down enough are dropped entirely, except when looking them up to manage them
+        if (!includeHidden && score <= appConfig.feedbackHideThreshold) {
+          continue;
+        }
+
         const embedding: number[] = JSON.parse(embeddingStr as string);
         const similarity = this.calculateCosineSimilarity(queryEmbedding, embedding);
 
@@ -198,14 +332,17 @@ export class VectorStore {
             channelId: channelId as string || undefined,
             userId: userId as string || undefined,
             userName: userName as string || undefined,
-            metadata: metadataStr ? JSON.parse(metadataStr as string) : undefined
+            surface: surface as ConversationSurface || undefined,
+            metadata: metadataStr ? JSON.parse(metadataStr as string) : undefined,
+            feedbackScore: score
           };
 
-          results.push({ entry, similarity });
+          const rankScore = similarity + score * appConfig.feedbackWeight;
+          results.push({ entry, similarity, rankScore });
         }
       }
 
-      results.sort((a, b) => b.similarity - a.similarity);
+      results.sort((a, b) => b.rankScore - a.rankScore);
       const limitedResults = results.slice(0, limit);
 
       console.log(`[VectorStore] Found ${limitedResults.length} similar memories (threshold: ${appConfig.similarityThreshold})`);
@@ -217,14 +354,16 @@ export class VectorStore {
   }
 
   /**
-   * Gets total number of stored memories
+   * Gets total number of stored memories, optionally for a single user
    */
-  async getMemoryCount(): Promise<number> {
+  async getMemoryCount(userId?: string): Promise<number> {
     await this.ensureInitialized();
     if (!this.db) return 0;
 
     try {
-      const result = this.db.exec('SELECT COUNT(*) as count FROM memories')[0];
+      const result = userId
+        ? this.db.exec('SELECT COUNT(*) as count FROM memories WHERE user_id = ?', [userId])[0]
+        : this.db.exec('SELECT COUNT(*) as count FROM memories')[0];
       return result ? (result.values[0][0] as number) : 0;
     } catch (error) {
       console.error('[VectorStore] Error getting memory count:', error);
@@ -238,14 +377,16 @@ export class VectorStore {
   async getRecentMemories(
     limit: number = appConfig.maxMemoryResults,
     channelId?: string,
-    userId?: string
+    userId?: string,
+    offset: number = 0,
+    visibleFrom?: string
   ): Promise<MemoryEntry[]> {
     await this.ensureInitialized();
     if (!this.db) return [];
 
     try {
       let query = `
-        SELECT id, timestamp, user_input, bot_response, embedding, channel_id, user_id, user_name, metadata
+        SELECT id, timestamp, user_input, bot_response, embedding, channel_id, user_id, user_name, metadata, surface
         FROM memories
       `;
       
@@ -262,17 +403,22 @@ export class VectorStore {
         params.push(userId);
       }
 
+      if (visibleFrom) {
+        conditions.push(this.visibilityCondition());
+        params.push(visibleFrom);
+      }
+
       if (conditions.length > 0) {
         query += ` WHERE ${conditions.join(' AND ')}`;
       }
 
-      query += ' ORDER BY timestamp DESC LIMIT ?';
-      params.push(limit);
+      query += ' ORDER BY timestamp DESC LIMIT ? OFFSET ?';
+      params.push(limit, offset);
 
       const rows = this.db.exec(query, params)[0]?.values || [];
 
       const memories: MemoryEntry[] = rows.map(row => {
-        const [id, timestamp, userInput, botResponse, embeddingStr, channelId, userId, userName, metadataStr] = row;
+        const [id, timestamp, userInput, botResponse, embeddingStr, channelId, userId, userName, metadataStr, surface] = row;
         return {
           id: id as number,
           timestamp: timestamp as number,
@@ -282,6 +428,7 @@ export class VectorStore {
           channelId: channelId as string || undefined,
           userId: userId as string || undefined,
           userName: userName as string || undefined,
+          surface: surface as ConversationSurface || undefined,
           metadata: metadataStr ? JSON.parse(metadataStr as string) : undefined
         };
       });
@@ -294,6 +441,173 @@ export class VectorStore {
     }
   }
 
+  /**
+   * SQL condition (one parameter: the viewing conversation's channel ID) matching memories
+   * that may be shown there: those from public channels, plus any from that conversation itself
+   */
+  private visibilityCondition(): string {
+    return `(surface IS NULL OR surface = 'channel' OR channel_id = ?)`;
+  }
+
+  /**
+   * Retrieves a single memory entry by ID
+   */
+  async getMemoryById(id: number): Promise<MemoryEntry | null> {
+    await this.ensureInitialized();
+    if (!this.db) return null;
+
+    try {
+      const rows = this.db.exec(`
+        SELECT id, timestamp, user_input, bot_response, embedding, channel_id, user_id, user_name, metadata, surface
+        FROM memories
+        WHERE id = ?
+      `, [id])[0]?.values || [];
+
+      if (rows.length === 0) {
+        return null;
+      }
+
+      const [rowId, timestamp, userInput, botResponse, embeddingStr, channelId, userId, userName, metadataStr, surface] = rows[0];
+      return {
+        id: rowId as number,
+        timestamp: timestamp as number,
+        userInput: userInput as string,
+        botResponse: botResponse as string,
+        embedding: JSON.parse(embeddingStr as string),
+        channelId: channelId as string || undefined,
+        userId: userId as string || undefined,
+        userName: userName as string || undefined,
+        surface: surface as ConversationSurface || undefined,
+        metadata: metadataStr ? JSON.parse(metadataStr as string) : undefined
+      };
+    } catch (error) {
+      console.error('[VectorStore] Error retrieving memory:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Finds the memory whose reply was posted as the given Slack message
+   */
+  async findMemoryByReplyTs(channelId: string, replyTs: string): Promise<number | null> {
+    await this.ensureInitialized();
+    if (!this.db) return null;
+
+    try {
+      const rows = this.db.exec(
+        `SELECT id FROM memories WHERE channel_id = ? AND json_extract(metadata, '$.replyTs') = ? LIMIT 1`,
+        [channelId, replyTs]
+      )[0]?.values || [];
+      return rows.length > 0 ? (rows[0][0] as number) : null;
+    } catch (error) {
+      console.error('[VectorStore] Error finding memory by reply ts:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Finds the memories created from a user's message
+   * @param channelId - Channel containing the message
+   * @param sourceTs - Timestamp of the user's message
+   * @returns Promise resolving to the IDs of the matching memories
+   */
+  async findMemoriesBySourceTs(channelId: string, sourceTs: string): Promise<number[]> {
+    await this.ensureInitialized();
+    if (!this.db) return [];
+
+    try {
+      const rows = this.db.exec(
+        `SELECT id FROM memories WHERE channel_id = ? AND json_extract(metadata, '$.sourceTs') = ?`,
+        [channelId, sourceTs]
+      )[0]?.values || [];
+      return rows.map(row => row[0] as number);
+    } catch (error) {
+      console.error('[VectorStore] Error finding memories by source ts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Records a user's vote on a memory (+1 or -1)
+   */
+  async addFeedback(memoryId: number, userId: string, value: number): Promise<void> {
+    await this.ensureInitialized();
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      const stmt = this.db.prepare(`
+        INSERT OR REPLACE INTO memory_feedback (memory_id, user_id, value, timestamp)
+        VALUES (?, ?, ?, ?)
+      `);
+      stmt.run([memoryId, userId, value, Date.now()]);
+      stmt.free();
+
+      await this.saveDatabase();
+    } catch (error) {
+      console.error('[VectorStore] Error adding feedback:', error);
+      throw new Error(`Failed to add feedback: ${error}`);
+    }
+  }
+
+  /**
+   * Withdraws a user's vote on a memory
+   */
+  async removeFeedback(memoryId: number, userId: string, value: number): Promise<boolean> {
+    await this.ensureInitialized();
+    if (!this.db) return false;
+
+    try {
+      const stmt = this.db.prepare('DELETE FROM memory_feedback WHERE memory_id = ? AND user_id = ? AND value = ?');
+      stmt.run([memoryId, userId, value]);
+      stmt.free();
+
+      const removed = this.db.getRowsModified() > 0;
+      if (removed) {
+        await this.saveDatabase();
+      }
+      return removed;
+    } catch (error) {
+      console.error('[VectorStore] Error removing feedback:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Aggregates reaction feedback across all memories
+   */
+  async getFeedbackSummary(): Promise<FeedbackSummary> {
+    const empty: FeedbackSummary = { upvotes: 0, downvotes: 0, ratedMemories: 0, hiddenMemories: 0 };
+    await this.ensureInitialized();
+    if (!this.db) return empty;
+
+    try {
+      const totals = this.db.exec(`
+        SELECT
+          COALESCE(SUM(CASE WHEN value > 0 THEN 1 ELSE 0 END), 0),
+          COALESCE(SUM(CASE WHEN value < 0 THEN 1 ELSE 0 END), 0),
+          COUNT(DISTINCT memory_id)
+        FROM memory_feedback
+      `)[0]?.values[0];
+
+      const hidden = this.db.exec(`
+        SELECT COUNT(*) FROM (
+          SELECT memory_id FROM memory_feedback GROUP BY memory_id HAVING SUM(value) <= ?
+        )
+      `, [appConfig.feedbackHideThreshold])[0]?.values[0];
+
+      if (!totals) return empty;
+      return {
+        upvotes: totals[0] as number,
+        downvotes: totals[1] as number,
+        ratedMemories: totals[2] as number,
+        hiddenMemories: (hidden?.[0] as number) || 0
+      };
+    } catch (error) {
+      console.error('[VectorStore] Error getting feedback summary:', error);
+      return empty;
+    }
+  }
+
   /**
    * Deletes a memory entry by ID
    */
@@ -309,6 +623,7 @@ export class VectorStore {
       const deleted = changes > 0;
       
       if (deleted) {
+        this.db.run('DELETE FROM memory_feedback WHERE memory_id = ?', [id]);
         await this.saveDatabase();
         console.log(`[VectorStore] Deleted memory with ID: ${id}`);
       } else {
@@ -322,6 +637,351 @@ export class VectorStore {
     }
   }
 
+  /**
+   * Inserts or refreshes an active thread record
+   */
+  async saveActiveThread(thread: ActiveThread): Promise<void> {
+    await this.ensureInitialized();
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      const stmt = this.db.prepare(`
+        INSERT OR REPLACE INTO active_threads (channel_id, thread_ts, last_activity)
+        VALUES (?, ?, ?)
+      `);
+      stmt.run([thread.channelId, thread.threadTs, thread.lastActivity]);
+      stmt.free();
+
+      await this.saveDatabase();
+    } catch (error) {
+      console.error('[VectorStore] Error saving active thread:', error);
+      throw new Error(`Failed to save active thread: ${error}`);
+    }
+  }
+
+  /**
+   * Retrieves active threads with activity since the given time
+   */
+  async getActiveThreads(since: number): Promise<ActiveThread[]> {
+    await this.ensureInitialized();
+    if (!this.db) return [];
+
+    try {
+      const rows = this.db.exec(
+        'SELECT channel_id, thread_ts, last_activity FROM active_threads WHERE last_activity >= ?',
+        [since]
+      )[0]?.values || [];
+
+      return rows.map(([channelId, threadTs, lastActivity]) => ({
+        channelId: channelId as string,
+        threadTs: threadTs as string,
+        lastActivity: lastActivity as number
+      }));
+    } catch (error) {
+      console.error('[VectorStore] Error retrieving active threads:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Removes an active thread record
+   */
+  async deleteActiveThread(channelId: string, threadTs: string): Promise<boolean> {
+    await this.ensureInitialized();
+    if (!this.db) return false;
+
+    try {
+      const stmt = this.db.prepare('DELETE FROM active_threads WHERE channel_id = ? AND thread_ts = ?');
+      stmt.run([channelId, threadTs]);
+      stmt.free();
+
+      const deleted = this.db.getRowsModified() > 0;
+      if (deleted) {
+        await this.saveDatabase();
+      }
+      return deleted;
+    } catch (error) {
+      console.error('[VectorStore] Error deleting active thread:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Removes active thread records with no activity since the given time
+   */
+  async deleteExpiredThreads(before: number): Promise<number> {
+    await this.ensureInitialized();
+    if (!this.db) return 0;
+
+    try {
+      const stmt = this.db.prepare('DELETE FROM active_threads WHERE last_activity < ?');
+      stmt.run([before]);
+      stmt.free();
+
+      const removed = this.db.getRowsModified();
+      if (removed > 0) {
+        await this.saveDatabase();
+        console.log(`[VectorStore] Removed ${removed} expired active threads`);
+      }
+      return removed;
+    } catch (error) {
+      console.error('[VectorStore] Error deleting expired threads:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Retrieves a user's stored preferences
+   */
+  async getUserPreferences(userId: string): Promise<Partial<UserPreferences>> {
+    await this.ensureInitialized();
+    if (!this.db) return {};
+
+    try {
+      const rows = this.db.exec('SELECT preferences FROM user_preferences WHERE user_id = ?', [userId])[0]?.values || [];
+      return rows.length > 0 ? JSON.parse(rows[0][0] as string) : {};
+    } catch (error) {
+      console.error('[VectorStore] Error retrieving user preferences:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Stores a user's preferences
+   */
+  async saveUserPreferences(userId: string, preferences: UserPreferences): Promise<void> {
+    await this.ensureInitialized();
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      const stmt = this.db.prepare('INSERT OR REPLACE INTO user_preferences (user_id, preferences) VALUES (?, ?)');
+      stmt.run([userId, JSON.stringify(preferences)]);
+      stmt.free();
+
+      await this.saveDatabase();
+    } catch (error) {
+      console.error('[VectorStore] Error saving user preferences:', error);
+      throw new Error(`Failed to save user preferences: ${error}`);
+    }
+  }
+
+  /**
+   * Retrieves the persona assigned to a channel or a user's DMs
+   */
+  async getPersonaAssignment(scopeId: string): Promise<PersonaAssignment | null> {
+    await this.ensureInitialized();
+    if (!this.db) return null;
+
+    try {
+      const rows = this.db.exec(
+        'SELECT scope_id, persona, assigned_by, assigned_at FROM persona_assignments WHERE scope_id = ?',
+        [scopeId]
+      )[0]?.values || [];
+      if (rows.length === 0) return null;
+
+      const [id, persona, assignedBy, assignedAt] = rows[0]!;
+      return {
+        scopeId: id as string,
+        persona: persona as string,
+        assignedBy: assignedBy as string,
+        assignedAt: assignedAt as number
+      };
+    } catch (error) {
+      console.error('[VectorStore] Error retrieving persona assignment:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Assigns a persona to a channel or a user's DMs, replacing any earlier assignment
+   */
+  async savePersonaAssignment(assignment: PersonaAssignment): Promise<void> {
+    await this.ensureInitialized();
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      const stmt = this.db.prepare(`
+        INSERT OR REPLACE INTO persona_assignments (scope_id, persona, assigned_by, assigned_at)
+        VALUES (?, ?, ?, ?)
+      `);
+      stmt.run([assignment.scopeId, assignment.persona, assignment.assignedBy, assignment.assignedAt]);
+      stmt.free();
+
+      await this.saveDatabase();
+    } catch (error) {
+      console.error('[VectorStore] Error saving persona assignment:', error);
+      throw new Error(`Failed to save persona assignment: ${error}`);
+    }
+  }
+
+  /**
+   * Removes the persona assigned to a channel or a user's DMs
+   */
+  async deletePersonaAssignment(scopeId: string): Promise<boolean> {
+    await this.ensureInitialized();
+    if (!this.db) return false;
+
+    try {
+      const stmt = this.db.prepare('DELETE FROM persona_assignments WHERE scope_id = ?');
+      stmt.run([scopeId]);
+      stmt.free();
+
+      const deleted = this.db.getRowsModified() > 0;
+      if (deleted) {
+        await this.saveDatabase();
+      }
+      return deleted;
+    } catch (error) {
+      console.error('[VectorStore] Error deleting persona assignment:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Stores a batch of usage records in one transaction, so a failed batch leaves nothing behind
+   * The database isn't saved; the caller saves it with save() and retries only that if it fails
+   */
+  async storeUsageRecords(records: UsageRecord[]): Promise<void> {
+    await this.ensureInitialized();
+    if (!this.db) throw new Error('Database not initialized');
+
+    const stmt = this.db.prepare(`
+      INSERT INTO model_usage (timestamp, kind, phase, model, user_id, channel_id, prompt_tokens, completion_tokens, latency_ms, generation_ms)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    this.db.run('BEGIN');
+    try {
+      for (const record of records) {
+        stmt.run([
+          record.timestamp,
+          record.kind,
+          record.phase,
+          record.model,
+          record.userId ?? null,
+          record.channelId ?? null,
+          record.promptTokens ?? null,
+          record.completionTokens ?? null,
+          Math.round(record.latencyMs),
+          record.generationMs !== undefined ? Math.round(record.generationMs) : null
+        ]);
+      }
+      this.db.run('COMMIT');
+    } catch (error) {
+      this.db.run('ROLLBACK');
+      console.error('[VectorStore] Error storing usage records:', error);
+      throw new Error(`Failed to store usage records: ${error}`);
+    } finally {
+      stmt.free();
+    }
+  }
+
+  /**
+   * Removes usage records older than a cut-off
+   */
+  async deleteUsageBefore(before: number): Promise<number> {
+    await this.ensureInitialized();
+    if (!this.db) return 0;
+
+    try {
+      this.db.run('DELETE FROM model_usage WHERE timestamp < ?', [before]);
+      const deleted = this.db.getRowsModified();
+      if (deleted > 0) {
+        await this.saveDatabase();
+      }
+      return deleted;
+    } catch (error) {
+      console.error('[VectorStore] Error deleting old usage records:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Aggregates usage since a point in time, per user, channel, model, phase or day
+   * Days are ordered newest first, everything else by tokens used
+   */
+  async getUsageSummary(groupBy: UsageDimension, since: number, limit: number): Promise<UsageSummaryRow[]> {
+    await this.ensureInitialized();
+    if (!this.db) return [];
+
+    const keys: Record<UsageDimension, string> = {
+      user: "COALESCE(user_id, '')",
+      channel: "COALESCE(channel_id, '')",
+      model: 'model',
+      phase: 'phase',
+      day: "strftime('%Y-%m-%d', timestamp / 1000, 'unixepoch')",
+    };
+    const order = groupBy === 'day' ? 'key DESC' : 'COALESCE(SUM(prompt_tokens), 0) + COALESCE(SUM(completion_tokens), 0) DESC, COUNT(*) DESC';
+
+    try {
+      const rows = this.db.exec(`
+        ${this.usageColumns(keys[groupBy])}
+        FROM model_usage
+        WHERE timestamp >= ?
+        GROUP BY key
+        ORDER BY ${order}
+        LIMIT ?
+      `, [since, limit])[0]?.values || [];
+      return rows.map(row => this.toUsageSummaryRow(row));
+    } catch (error) {
+      console.error('[VectorStore] Error summarizing usage:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Aggregates all usage since a point in time, or one user's
+   */
+  async getUsageTotals(since: number, userId?: string): Promise<UsageSummaryRow> {
+    const empty: UsageSummaryRow = { key: 'total', calls: 0, promptTokens: 0, completionTokens: 0, averageLatencyMs: 0, maxLatencyMs: 0 };
+    await this.ensureInitialized();
+    if (!this.db) return empty;
+
+    try {
+      const row = this.db.exec(`
+        ${this.usageColumns("'total'")}
+        FROM model_usage
+        WHERE timestamp >= ?${userId ? ' AND user_id = ?' : ''}
+      `, userId ? [since, userId] : [since])[0]?.values[0];
+      return row ? this.toUsageSummaryRow(row) : empty;
+    } catch (error) {
+      console.error('[VectorStore] Error totalling usage:', error);
+      return empty;
+    }
+  }
+
+  /**
+   * Builds the SELECT clause of a usage aggregate
+   */
+  private usageColumns(key: string): string {
+    return `
+      SELECT ${key} AS key,
+             COUNT(*),
+             COALESCE(SUM(prompt_tokens), 0),
+             COALESCE(SUM(completion_tokens), 0),
+             COALESCE(AVG(latency_ms), 0),
+             COALESCE(MAX(latency_ms), 0),
+             SUM(CASE WHEN generation_ms > 0 THEN completion_tokens END),
+             SUM(CASE WHEN generation_ms > 0 THEN generation_ms END)
+    `;
+  }
+
+  /**
+   * Converts a row selected with usageColumns
+   */
+  private toUsageSummaryRow(row: unknown[]): UsageSummaryRow {
+    const generatedTokens = row[6] as number | null;
+    const generationMs = row[7] as number | null;
+    return {
+      key: String(row[0] ?? ''),
+      calls: row[1] as number,
+      promptTokens: row[2] as number,
+      completionTokens: row[3] as number,
+      averageLatencyMs: row[4] as number,
+      maxLatencyMs: row[5] as number,
+      ...(generatedTokens && generationMs && { tokensPerSecond: generatedTokens / (generationMs / 1000) })
+    };
+  }
+
   /**
    * Calculates cosine similarity between two vectors
    */
@@ -0,0 +1,77 @@
+import { Tokenizer } from '../types';
+
+/**
+ * Registered tokenizers by name
+ */
+const tokenizers: Map<string, Tokenizer> = new Map();
+
+/**
+ * Registers a tokenizer so it can be selected with TOKENIZER
+ * @param name - Tokenizer name used in configuration
+ * @param tokenizer - Implementation
+ */
+export function registerTokenizer(name: string, tokenizer: Tokenizer): void {
+  tokenizers.set(name, tokenizer);
+}
+
+/**
+ * Gets a registered tokenizer
+ * @param name - Tokenizer name
+ * @returns The tokenizer, or undefined if none has that name
+ */
+export function getTokenizer(name: string): Tokenizer | undefined {
+  return tokenizers.get(name);
+}
+
+/**
+ * Lists the names of all registered tokenizers
+ * @returns Tokenizer names in registration order
+ */
+export function getTokenizerNames(): string[] {
+  return [...tokenizers.keys()];
+}
+
+/**
+ * Estimates tokens from the shape of the text: about four letters or three digits per
+ * token, one per punctuation mark, and one per character in scripts without spaces (CJK)
+ * Errs slightly high for English so budgets keep a margin without a model-specific vocabulary
+ */
+export class HeuristicTokenizer implements Tokenizer {
+  /**
+   * Counts the tokens in a text
+   * @param text - Text to measure
+   * @returns Estimated token count
+   */
+  count(text: string): number {
+    let tokens = 0;
+    for (const piece of text.match(/\p{L}+|\p{N}+|[^\s\p{L}\p{N}]/gu) ?? []) {
+      if (/^\p{N}/u.test(piece)) {
+        tokens += Math.ceil(piece.length / 3);
+      } else if (/^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}]/u.test(piece)) {
+        tokens += piece.length;
+      } else if (/^\p{L}/u.test(piece)) {
+        tokens += Math.ceil(piece.length / 4);
+      } else {
+        tokens += 1;
+      }
+    }
+    return tokens;
+  }
+}
+
+/**
+ * The classic rule of thumb of four characters per token
+ */
+export class CharacterTokenizer implements Tokenizer {
+  /**
+   * Counts the tokens in a text
+   * @param text - Text to measure
+   * @returns Estimated token count
+   */
+  count(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+}
+
+registerTokenizer('heuristic', new HeuristicTokenizer());
+registerTokenizer('characters', new CharacterTokenizer());
@@ -0,0 +1,234 @@
+import { Tool, ToolDefinition } from '../types';
+
+/**
+ * Longest expression accepted, to keep evaluation cheap
+ */
+const MAX_EXPRESSION_LENGTH = 500;
+
+/**
+ * Named constants available in expressions
+ */
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+/**
+ * Functions available in expressions, with their arity (-1 for any number of arguments)
+ */
+const FUNCTIONS: Record<string, { arity: number; apply: (...args: number[]) => number }> = {
+  sqrt: { arity: 1, apply: Math.sqrt },
+  cbrt: { arity: 1, apply: Math.cbrt },
+  abs: { arity: 1, apply: Math.abs },
+  round: { arity: 1, apply: Math.round },
+  floor: { arity: 1, apply: Math.floor },
+  ceil: { arity: 1, apply: Math.ceil },
+  ln: { arity: 1, apply: Math.log },
+  log: { arity: 1, apply: Math.log10 },
+  log2: { arity: 1, apply: Math.log2 },
+  exp: { arity: 1, apply: Math.exp },
+  sin: { arity: 1, apply: Math.sin },
+  cos: { arity: 1, apply: Math.cos },
+  tan: { arity: 1, apply: Math.tan },
+  min: { arity: -1, apply: Math.min },
+  max: { arity: -1, apply: Math.max },
+};
+
+/**
+ * Evaluates arithmetic expressions with a small parser instead of eval,
+ * so nothing but arithmetic can ever run
+ */
+export class CalculatorTool implements Tool {
+  readonly definition: ToolDefinition = {
+    name: 'calculate',
+    description: 'Evaluate an arithmetic expression exactly instead of calculating in your head. ' +
+      'Supports + - * / % ^, parentheses, 0x/0b/0o literals, pi, e and sqrt, cbrt, abs, round, floor, ceil, ln, log, log2, exp, sin, cos, tan, min, max.',
+    parameters: {
+      type: 'object',
+      properties: {
+        expression: { type: 'string', description: 'Expression such as "(1200 * 1.07^3) / 12"' },
+      },
+      required: ['expression'],
+    },
+  };
+
+  /**
+   * Evaluates the expression
+   * @param args - Validated arguments
+   * @returns Promise resolving to the result, or an error description
+   */
+  async execute(args: Record<string, unknown>): Promise<string> {
+    const expression = String(args.expression);
+    if (expression.length > MAX_EXPRESSION_LENGTH) {
+      return `Error: expression is longer than ${MAX_EXPRESSION_LENGTH} characters`;
+    }
+
+    try {
+      const result = new ExpressionParser(expression).parse();
+      if (!Number.isFinite(result)) {
+        return `Error: the result is not a finite number`;
+      }
+      return `${expression} = ${Number(result.toPrecision(15))}`;
+    } catch (error) {
+      return `Error: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+}
+
+/**
+ * Recursive-descent parser and evaluator for arithmetic expressions
+ */
+class ExpressionParser {
+  private tokens: string[];
+  private position = 0;
+
+  /**
+   * Creates a parser for one expression
+   * @param expression - Expression text
+   * @throws Error on characters that aren't part of an expression
+   */
+  constructor(expression: string) {
+    // "x" is only a times sign when set apart from a number, so "0x10" stays a hexadecimal literal
+    const normalized = expression.replace(/\*\*/g, '^').replace(/×/g, '*').replace(/(?<=[\d)]\s+|\))x(?=\s*[\d(.])/g, '*').replace(/÷/g, '/');
+    this.tokens = normalized.match(/0x[\da-f]+|0b[01]+|0o[0-7]+|\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?|[a-z_][a-z0-9_]*|[-+*/%^(),]|\S/gi) ?? [];
+
+    const invalid = this.tokens.find(token => /^[^\w.+\-*/%^(),]$/.test(token));
+    if (invalid) {
+      throw new Error(`unexpected character "${invalid}"`);
+    }
+  }
+
+  /**
+   * Parses and evaluates the whole expression
+   * @returns The value
+   */
+  parse(): number {
+    const value = this.parseSum();
+    if (this.position < this.tokens.length) {
+      throw new Error(`unexpected "${this.tokens[this.position]}"`);
+    }
+    return value;
+  }
+
+  /**
+   * sum := product (("+" | "-") product)*
+   */
+  private parseSum(): number {
+    let value = this.parseProduct();
+    while (this.peek() === '+' || this.peek() === '-') {
+      const operator = this.next();
+      const right = this.parseProduct();
+      value = operator === '+' ? value + right : value - right;
+    }
+    return value;
+  }
+
+  /**
+   * product := unary (("*" | "/" | "%") unary)*
+   */
+  private parseProduct(): number {
+    let value = this.parseUnary();
+    while (this.peek() === '*' || this.peek() === '/' || this.peek() === '%') {
+      const operator = this.next();
+      const right = this.parseUnary();
+      if ((operator === '/' || operator === '%') && right === 0) {
+        throw new Error('division by zero');
+      }
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  }
+
+  /**
+   * unary := ("-" | "+") unary | power
+   */
+  private parseUnary(): number {
+    if (this.peek() === '-') {
+      this.next();
+      return -this.parseUnary();
+    }
+    if (this.peek() === '+') {
+      this.next();
+      return this.parseUnary();
+    }
+    return this.parsePower();
+  }
+
+  /**
+   * power := primary ("^" unary)?  (right-associative)
+   */
+  private parsePower(): number {
+    const base = this.parsePrimary();
+    if (this.peek() === '^') {
+      this.next();
+      return Math.pow(base, this.parseUnary());
+    }
+    return base;
+  }
+
+  /**
+   * primary := number | constant | function "(" arguments ")" | "(" sum ")"
+   */
+  private parsePrimary(): number {
+    const token = this.next();
+    if (token === undefined) {
+      throw new Error('unexpected end of expression');
+    }
+
+    if (/^[\d.]/.test(token)) {
+      return Number(token);
+    }
+
+    if (token === '(') {
+      const value = this.parseSum();
+      this.expect(')');
+      return value;
+    }
+
+    const name = token.toLowerCase();
+    const fn = FUNCTIONS[name];
+    if (fn) {
+      this.expect('(');
+      const args = [this.parseSum()];
+      while (this.peek() === ',') {
+        this.next();
+        args.push(this.parseSum());
+      }
+      this.expect(')');
+      if (fn.arity >= 0 && args.length !== fn.arity) {
+        throw new Error(`${name} takes ${fn.arity} argument${fn.arity === 1 ? '' : 's'}`);
+      }
+      return fn.apply(...args);
+    }
+
+    const constant = CONSTANTS[name];
+    if (constant !== undefined) {
+      return constant;
+    }
+
+    throw new Error(`unknown name or symbol "${token}"`);
+  }
+
+  /**
+   * Gets the next token without consuming it
+   */
+  private peek(): string | undefined {
+    return this.tokens[this.position];
+  }
+
+  /**
+   * Consumes the next token
+   */
+  private next(): string | undefined {
+    return this.tokens[this.position++];
+  }
+
+  /**
+   * Consumes a token that must be present
+   */
+  private expect(token: string): void {
+    if (this.next() !== token) {
+      throw new Error(`expected "${token}"`);
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { Tool, ToolDefinition } from '../types';
+
+/**
+ * Tells the current date and time in a timezone
+ */
+export class DateTimeTool implements Tool {
+  readonly definition: ToolDefinition = {
+    name: 'current_datetime',
+    description: 'Get the current date, weekday and time. Use it for anything relative to today, e.g. "next Friday" or "how long until".',
+    parameters: {
+      type: 'object',
+      properties: {
+        timezone: { type: 'string', description: 'IANA timezone such as "Europe/Berlin" or "America/New_York" (default UTC)' },
+      },
+    },
+  };
+
+  /**
+   * Formats the current time
+   * @param args - Validated arguments
+   * @returns Promise resolving to the date and time
+   */
+  async execute(args: Record<string, unknown>): Promise<string> {
+    const timeZone = typeof args.timezone === 'string' && args.timezone.trim() ? args.timezone.trim() : 'UTC';
+    const now = new Date();
+
+    try {
+      const formatted = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        weekday: 'long',
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+        timeZoneName: 'longOffset',
+      }).format(now);
+
+      return `${formatted} (${timeZone}); UTC timestamp ${now.toISOString()}`;
+    } catch {
+      return `Error: unknown timezone "${timeZone}". Use an IANA name such as "Europe/London".`;
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import { Tool, ToolCall, ToolContext, ToolDefinition } from '../types';
+
+/**
+ * Maximum characters of a tool result passed back to the model
+ */
+const MAX_RESULT_LENGTH = 4000;
+
+/**
+ * Maximum characters of a tool result shown in the logs
+ */
+const LOG_PREVIEW_LENGTH = 200;
+
+/**
+ * Holds the tools available to the model, validates calls against their
+ * schemas and runs them, logging each call and result
+ */
+export class ToolRegistry {
+  private tools: Map<string, Tool> = new Map();
+
+  /**
+   * Makes a tool available to the model
+   * @param tool - Tool to register; replaces any tool with the same name
+   */
+  register(tool: Tool): void {
+    this.tools.set(tool.definition.name, tool);
+  }
+
+  /**
+   * Gets the definitions of all registered tools, for the provider's tools parameter
+   * @returns Tool definitions in registration order
+   */
+  getDefinitions(): ToolDefinition[] {
+    return [...this.tools.values()].map(tool => tool.definition);
+  }
+
+  /**
+   * Gets the number of registered tools
+   */
+  size(): number {
+    return this.tools.size;
+  }
+
+  /**
+   * Runs a tool call requested by the model
+   * Problems (unknown tool, invalid arguments, failures) are returned as an error text
+   * so the model can correct itself instead of the whole request failing
+   * @param call - Tool call from the model
+   * @param context - Who the request is for
+   * @returns Promise resolving to the result text for the model
+   */
+  async execute(call: ToolCall, context: ToolContext): Promise<string> {
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      console.warn(`[Tools] Model called unknown tool ${call.name}`);
+      return `Error: unknown tool "${call.name}". Available tools: ${[...this.tools.keys()].join(', ')}`;
+    }
+
+    const validated = this.validateArguments(tool.definition, call.arguments);
+    if (typeof validated === 'string') {
+      console.warn(`[Tools] Rejected ${call.name}(${JSON.stringify(call.arguments)}): ${validated}`);
+      return `Error: ${validated}`;
+    }
+
+    console.log(`[Tools] Calling ${call.name}(${JSON.stringify(validated)}) for ${context.userId || 'system'} in ${context.channelId || 'no channel'}`);
+    const startedAt = Date.now();
+
+    try {
+      let result = await tool.execute(validated, context);
+      if (result.length > MAX_RESULT_LENGTH) {
+        result = `${result.substring(0, MAX_RESULT_LENGTH)}\n… (truncated)`;
+      }
+
+      const preview = result.replace(/\s+/g, ' ').substring(0, LOG_PREVIEW_LENGTH);
+      console.log(`[Tools] ${call.name} returned ${result.length} characters in ${Date.now() - startedAt}ms: ${preview}`);
+      return result;
+    } catch (error) {
+      console.error(`[Tools] ${call.name} failed:`, error);
+      const message = error instanceof Error ? error.message : String(error);
+      return `Error: ${call.name} failed: ${message}`;
+    }
+  }
+
+  /**
+   * Checks arguments against a tool's schema
+   * Numbers and booleans sent as strings are converted, since small models often quote them
+   * @returns The cleaned arguments, or a description of the problem
+   */
+  private validateArguments(definition: ToolDefinition, args: Record<string, unknown>): Record<string, unknown> | string {
+    const { properties, required = [] } = definition.parameters;
+    const cleaned: Record<string, unknown> = {};
+
+    for (const name of required) {
+      if (args[name] === undefined || args[name] === null || args[name] === '') {
+        return `missing required argument "${name}"`;
+      }
+    }
+
+    for (const [name, schema] of Object.entries(properties)) {
+      let value = args[name];
+      if (value === undefined || value === null) continue;
+
+      if ((schema.type === 'number' || schema.type === 'integer') && typeof value === 'string' && value.trim() !== '') {
+        value = Number(value);
+      } else if (schema.type === 'boolean' && typeof value === 'string') {
+        value = value === 'true' ? true : value === 'false' ? false : value;
+      }
+
+      const valid = schema.type === 'integer' ? Number.isInteger(value)
+        : schema.type === 'number' ? typeof value === 'number' && Number.isFinite(value)
+        : typeof value === schema.type;
+      if (!valid) {
+        return `argument "${name}" must be of type ${schema.type}`;
+      }
+      if (schema.enum && !schema.enum.includes(value as string)) {
+        return `argument "${name}" must be one of: ${schema.enum.join(', ')}`;
+      }
+
+      cleaned[name] = value;
+    }
+
+    return cleaned;
+  }
+}
+
+export { MemorySearchTool } from './memory';
+export { SlackUserLookupTool, SlackChannelLookupTool } from './slack';
+export { DateTimeTool } from './datetime';
+export { CalculatorTool } from './calculator';
+export { UnitConversionTool } from './units';
@@ -0,0 +1,77 @@
+import { Tool, ToolContext, ToolDefinition } from '../types';
+import { MemoryService } from '../services/memory';
+
+/**
+ * Maximum characters of a remembered question or answer included in a result
+ */
+const PREVIEW_LENGTH = 300;
+
+/**
+ * Largest number of memories one search may return
+ */
+const MAX_LIMIT = 10;
+
+/**
+ * Searches stored memories of past conversations
+ * Memories from other private conversations are never returned
+ */
+export class MemorySearchTool implements Tool {
+  readonly definition: ToolDefinition = {
+    name: 'search_memories',
+    description: 'Search your memory of past conversations in this Slack workspace by meaning. ' +
+      'Use it when the user refers to something discussed before, or asks what you remember.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'What to look for, in natural language' },
+        channel: { type: 'string', enum: ['current', 'any'], description: 'Only this conversation ("current") or all conversations ("any", the default)' },
+        author: { type: 'string', enum: ['me', 'anyone'], description: 'Only conversations with the user asking ("me") or with anyone ("anyone", the default)' },
+        limit: { type: 'integer', description: `Maximum number of memories to return, 1-${MAX_LIMIT} (default 5)` },
+      },
+      required: ['query'],
+    },
+  };
+
+  private memoryService: MemoryService;
+
+  /**
+   * Creates a new MemorySearchTool instance
+   * @param memoryService - Memory service to search
+   */
+  constructor(memoryService: MemoryService) {
+    this.memoryService = memoryService;
+  }
+
+  /**
+   * Searches memories
+   * @param args - Validated arguments
+   * @param context - Who the request is for
+   * @returns Promise resolving to the matching memories as text
+   */
+  async execute(args: Record<string, unknown>, context: ToolContext): Promise<string> {
+    const query = String(args.query);
+    const limit = Math.min(MAX_LIMIT, Math.max(1, typeof args.limit === 'number' ? args.limit : 5));
+    const channelId = args.channel === 'current' ? context.channelId : undefined;
+    const userId = args.author === 'me' ? context.userId : undefined;
+
+    const results = await this.memoryService.searchMemories(query, channelId, userId, limit, context.channelId);
+    if (results.length === 0) {
+      return 'No matching memories found.';
+    }
+
+    return results.map(({ entry, similarity }) => {
+      const date = new Date(entry.timestamp).toISOString().substring(0, 10);
+      const who = entry.userName || entry.userId || 'someone';
+      return `[memory #${entry.id}, ${date}, ${Math.round(similarity * 100)}% match] ${who} asked: ${this.truncate(entry.userInput)}\n` +
+        `You answered: ${this.truncate(entry.botResponse)}`;
+    }).join('\n\n');
+  }
+
+  /**
+   * Truncates text to the preview length
+   */
+  private truncate(text: string): string {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    return flat.length > PREVIEW_LENGTH ? `${flat.substring(0, PREVIEW_LENGTH - 1)}…` : flat;
+  }
+}
@@ -0,0 +1,201 @@
+import { App } from '@slack/bolt';
+import { Tool, ToolContext, ToolDefinition } from '../types';
+
+type SlackClient = App['client'];
+
+/**
+ * A workspace member as users.list returns it (the UsersListResponse member type)
+ */
+type SlackMember = NonNullable<Awaited<ReturnType<SlackClient['users']['list']>>['members']>[number];
+
+/**
+ * A user as users.info returns it
+ */
+type SlackUser = NonNullable<Awaited<ReturnType<SlackClient['users']['info']>>['user']>;
+
+/**
+ * Page size for users.list and conversations.list
+ */
+const PAGE_SIZE = 200;
+
+/**
+ * Maximum number of pages read when searching by name
+ */
+const MAX_PAGES = 5;
+
+/**
+ * Maximum number of partial name matches listed
+ */
+const MAX_MATCHES = 5;
+
+/**
+ * Looks up a Slack user by ID or name
+ * Returns profile basics only; email addresses and phone numbers are left out
+ */
+export class SlackUserLookupTool implements Tool {
+  readonly definition: ToolDefinition = {
+    name: 'lookup_slack_user',
+    description: 'Look up a person in this Slack workspace: their names, title, timezone and local time. ' +
+      'Accepts a user ID (U…), a mention, or a display or real name.',
+    parameters: {
+      type: 'object',
+      properties: {
+        user: { type: 'string', description: 'User ID, @mention or name of the person' },
+      },
+      required: ['user'],
+    },
+  };
+
+  private client: App['client'];
+
+  /**
+   * Creates a new SlackUserLookupTool instance
+   * @param client - Slack Web API client
+   */
+  constructor(client: App['client']) {
+    this.client = client;
+  }
+
+  /**
+   * Looks up the user
+   * @param args - Validated arguments
+   * @returns Promise resolving to a description of the matching users
+   */
+  async execute(args: Record<string, unknown>): Promise<string> {
+    const query = String(args.user).trim().replace(/^@/, '');
+    const id = query.match(/^<?@?([UW][A-Z0-9]{6,})(?:\|[^>]*)?>?$/)?.[1];
+
+    if (id) {
+      const { user } = await this.client.users.info({ user: id });
+      return user ? this.describe(user) : `No user with ID ${id}.`;
+    }
+
+    const needle = query.toLowerCase();
+    const exact: SlackMember[] = [];
+    const partial: SlackMember[] = [];
+    let cursor: string | undefined;
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const result = await this.client.users.list({ limit: PAGE_SIZE, ...(cursor && { cursor }) });
+      for (const user of result.members ?? []) {
+        if (user.deleted) continue;
+        const names = [user.name, user.real_name, user.profile?.display_name].filter(Boolean).map(name => name!.toLowerCase());
+        if (names.includes(needle)) {
+          exact.push(user);
+        } else if (names.some(name => name.includes(needle))) {
+          partial.push(user);
+        }
+      }
+      cursor = result.response_metadata?.next_cursor || undefined;
+      if (!cursor || exact.length > 0) break;
+    }
+
+    const matches = exact.length > 0 ? exact : partial.slice(0, MAX_MATCHES);
+    if (matches.length === 0) {
+      return `No user found matching "${query}".`;
+    }
+    return matches.map(user => this.describe(user)).join('\n');
+  }
+
+  /**
+   * Describes a user in one line
+   */
+  private describe(user: SlackMember | SlackUser): string {
+    const details = [
+      `ID ${user.id}`,
+      user.profile?.display_name && `display name "${user.profile.display_name}"`,
+      user.profile?.title && `title "${user.profile.title}"`,
+      user.tz && `timezone ${user.tz} (local time ${this.localTime(user.tz)})`,
+      user.is_bot && 'bot',
+      user.deleted && 'deactivated',
+    ].filter(Boolean);
+
+    return `${user.real_name || user.name} (@${user.name}): ${details.join(', ')}`;
+  }
+
+  /**
+   * Formats the current time in a timezone
+   */
+  private localTime(timeZone: string): string {
+    try {
+      return new Intl.DateTimeFormat('en-GB', { timeZone, weekday: 'short', hour: '2-digit', minute: '2-digit' }).format(new Date());
+    } catch {
+      return 'unknown';
+    }
+  }
+}
+
+/**
+ * Looks up a Slack channel by ID or name
+ * Private channels are only described from within that channel
+ */
+export class SlackChannelLookupTool implements Tool {
+  readonly definition: ToolDefinition = {
+    name: 'lookup_slack_channel',
+    description: 'Look up a Slack channel: its name, topic, purpose and member count. ' +
+      'Accepts a channel ID (C…), a #channel link or a channel name.',
+    parameters: {
+      type: 'object',
+      properties: {
+        channel: { type: 'string', description: 'Channel ID, #link or name of the channel' },
+      },
+      required: ['channel'],
+    },
+  };
+
+  private client: App['client'];
+
+  /**
+   * Creates a new SlackChannelLookupTool instance
+   * @param client - Slack Web API client
+   */
+  constructor(client: App['client']) {
+    this.client = client;
+  }
+
+  /**
+   * Looks up the channel
+   * @param args - Validated arguments
+   * @param context - Who the request is for
+   * @returns Promise resolving to a description of the channel
+   */
+  async execute(args: Record<string, unknown>, context: ToolContext): Promise<string> {
+    const query = String(args.channel).trim();
+    let id = query.match(/^<?#?([CG][A-Z0-9]{6,})(?:\|[^>]*)?>?$/)?.[1];
+
+    if (!id) {
+      const name = query.replace(/^#/, '').toLowerCase();
+      let cursor: string | undefined;
+      for (let page = 0; page < MAX_PAGES && !id; page++) {
+        const result = await this.client.conversations.list({
+          types: 'public_channel',
+          exclude_archived: true,
+          limit: PAGE_SIZE,
+          ...(cursor && { cursor }),
+        });
+        id = result.channels?.find(channel => channel.name?.toLowerCase() === name)?.id;
+        cursor = result.response_metadata?.next_cursor || undefined;
+        if (!cursor) break;
+      }
+      if (!id) {
+        return `No public channel named #${name}.`;
+      }
+    }
+
+    const { channel } = await this.client.conversations.info({ channel: id, include_num_members: true });
+    if (!channel || ((channel.is_private || channel.is_im || channel.is_mpim) && channel.id !== context.channelId)) {
+      return `Channel ${id} is private or unknown.`;
+    }
+
+    const details = [
+      `ID ${channel.id}`,
+      channel.topic?.value && `topic "${channel.topic.value}"`,
+      channel.purpose?.value && `purpose "${channel.purpose.value}"`,
+      channel.num_members !== undefined && `${channel.num_members} members`,
+      channel.created && `created ${new Date(channel.created * 1000).toISOString().substring(0, 10)}`,
+      channel.is_archived && 'archived',
+    ].filter(Boolean);
+
+    return `#${channel.name}: ${details.join(', ')}`;
+  }
+}
@@ -0,0 +1,144 @@
+import { Tool, ToolDefinition } from '../types';
+
+/**
+ * Conversion factors to each category's base unit, keyed by normalised unit name
+ */
+const UNIT_FACTORS: Record<string, Record<string, number>> = {
+  length: {
+    m: 1, meter: 1, metre: 1, km: 1000, kilometer: 1000, kilometre: 1000, cm: 0.01, centimeter: 0.01,
+    mm: 0.001, millimeter: 0.001, um: 1e-6, micrometer: 1e-6, nm: 1e-9,
+    mi: 1609.344, mile: 1609.344, yd: 0.9144, yard: 0.9144, ft: 0.3048, foot: 0.3048, feet: 0.3048,
+    in: 0.0254, inch: 0.0254, nmi: 1852, nauticalmile: 1852,
+  },
+  mass: {
+    kg: 1, kilogram: 1, g: 0.001, gram: 0.001, mg: 1e-6, milligram: 1e-6, t: 1000, tonne: 1000,
+    lb: 0.45359237, lbs: 0.45359237, pound: 0.45359237, oz: 0.028349523125, ounce: 0.028349523125,
+    st: 6.35029318, stone: 6.35029318,
+  },
+  volume: {
+    l: 1, liter: 1, litre: 1, ml: 0.001, milliliter: 0.001, millilitre: 0.001, cl: 0.01, dl: 0.1,
+    m3: 1000, cubicmeter: 1000, gal: 3.785411784, gallon: 3.785411784, qt: 0.946352946, quart: 0.946352946,
+    pt: 0.473176473, pint: 0.473176473, cup: 0.2365882365, floz: 0.0295735295625,
+    tbsp: 0.01478676478125, tablespoon: 0.01478676478125, tsp: 0.00492892159375, teaspoon: 0.00492892159375,
+  },
+  area: {
+    m2: 1, sqm: 1, km2: 1e6, sqkm: 1e6, cm2: 1e-4, ha: 10000, hectare: 10000, acre: 4046.8564224,
+    ft2: 0.09290304, sqft: 0.09290304, in2: 0.00064516, sqin: 0.00064516, mi2: 2589988.110336, sqmi: 2589988.110336,
+  },
+  time: {
+    s: 1, sec: 1, second: 1, ms: 0.001, millisecond: 0.001, min: 60, minute: 60, h: 3600, hr: 3600, hour: 3600,
+    d: 86400, day: 86400, wk: 604800, week: 604800, month: 2629800, yr: 31557600, year: 31557600,
+  },
+  speed: {
+    'm/s': 1, mps: 1, 'km/h': 1 / 3.6, kph: 1 / 3.6, kmh: 1 / 3.6, mph: 0.44704, 'mi/h': 0.44704,
+    kn: 0.514444444, knot: 0.514444444, 'ft/s': 0.3048, fps: 0.3048,
+  },
+  data: {
+    bit: 0.125, kbit: 125, mbit: 1.25e5, gbit: 1.25e8, tbit: 1.25e11, pbit: 1.25e14,
+    kilobit: 125, megabit: 1.25e5, gigabit: 1.25e8, terabit: 1.25e11,
+    byte: 1, kb: 1e3, mb: 1e6, gb: 1e9, tb: 1e12, pb: 1e15,
+    kilobyte: 1e3, megabyte: 1e6, gigabyte: 1e9, terabyte: 1e12, petabyte: 1e15,
+    kib: 1024, mib: 1024 ** 2, gib: 1024 ** 3, tib: 1024 ** 4, pib: 1024 ** 5,
+  },
+};
+
+/**
+ * Data size abbreviations, whose case tells bits ("Mb") from bytes ("MB")
+ */
+const DATA_ABBREVIATION = /^([kmgtp]i?)?([bB])$/i;
+
+/**
+ * Temperature scales, converted through Celsius since they don't share a zero point
+ */
+const TEMPERATURES: Record<string, { toCelsius: (value: number) => number; fromCelsius: (value: number) => number }> = {
+  c: { toCelsius: value => value, fromCelsius: value => value },
+  f: { toCelsius: value => (value - 32) * 5 / 9, fromCelsius: value => value * 9 / 5 + 32 },
+  k: { toCelsius: value => value - 273.15, fromCelsius: value => value + 273.15 },
+};
+
+/**
+ * Converts values between units of length, mass, volume, area, time, speed, data size and temperature
+ */
+export class UnitConversionTool implements Tool {
+  readonly definition: ToolDefinition = {
+    name: 'convert_units',
+    description: 'Convert a value between units: length (m, km, mi, ft, in, …), mass (kg, lb, oz, …), ' +
+      'volume (l, ml, gal, cup, …), area (m2, ha, acre, sqft, …), time (s, min, h, day, …), ' +
+      'speed (km/h, mph, m/s, knot), data size (Mb, MB, GiB, …; lowercase b is bits, uppercase B is bytes) and temperature (C, F, K).',
+    parameters: {
+      type: 'object',
+      properties: {
+        value: { type: 'number', description: 'The value to convert' },
+        from: { type: 'string', description: 'Unit of the value, e.g. "mi" or "°F"' },
+        to: { type: 'string', description: 'Unit to convert to, e.g. "km" or "°C"' },
+      },
+      required: ['value', 'from', 'to'],
+    },
+  };
+
+  /**
+   * Converts the value
+   * @param args - Validated arguments
+   * @returns Promise resolving to the converted value, or an error description
+   */
+  async execute(args: Record<string, unknown>): Promise<string> {
+    const value = Number(args.value);
+    const from = this.normalizeUnit(String(args.from));
+    const to = this.normalizeUnit(String(args.to));
+
+    const fromTemperature = TEMPERATURES[from];
+    const toTemperature = TEMPERATURES[to];
+    if (fromTemperature && toTemperature) {
+      return this.describe(value, args.from, toTemperature.fromCelsius(fromTemperature.toCelsius(value)), args.to);
+    }
+
+    for (const [category, factors] of Object.entries(UNIT_FACTORS)) {
+      const fromFactor = factors[from];
+      const toFactor = factors[to];
+      if (fromFactor !== undefined && toFactor !== undefined) {
+        return this.describe(value, args.from, value * fromFactor / toFactor, args.to);
+      }
+      if (fromFactor !== undefined || toFactor !== undefined) {
+        const other = fromFactor !== undefined ? args.to : args.from;
+        return `Error: "${other}" is not a ${category} unit, or the two units measure different things`;
+      }
+    }
+
+    return `Error: unknown unit "${this.isKnown(from) ? args.to : args.from}"`;
+  }
+
+  /**
+   * Normalises a unit name: lowercase, no spaces or degree signs, singular
+   * Data size abbreviations keep the difference between b (bit) and B (byte)
+   */
+  private normalizeUnit(unit: string): string {
+    const data = unit.trim().match(DATA_ABBREVIATION);
+    if (data) {
+      const prefix = data[1]?.toLowerCase() ?? '';
+      return data[2] === 'b' ? `${prefix}bit` : prefix ? `${prefix}b` : 'byte';
+    }
+
+    const compact = unit.trim().toLowerCase().replace(/[°º]/g, '').replace(/\s+/g, '').replace(/\.$/, '')
+      .replace(/^square/, 'sq').replace(/²/g, '2').replace(/³/g, '3')
+      .replace(/^fl\.?oz$/, 'floz').replace(/^(celsius|fahrenheit|kelvin)$/, match => match[0] ?? match);
+
+    // Plurals such as "miles", "inches" or "feet" map to their singular form
+    if (this.isKnown(compact)) return compact;
+    const singular = compact.replace(/(ch|sh|s|x)es$/, '$1').replace(/s$/, '');
+    return this.isKnown(singular) ? singular : compact;
+  }
+
+  /**
+   * Checks whether a normalised unit is known
+   */
+  private isKnown(unit: string): boolean {
+    return unit in TEMPERATURES || Object.values(UNIT_FACTORS).some(factors => unit in factors);
+  }
+
+  /**
+   * Formats a conversion result
+   */
+  private describe(value: number, from: unknown, result: number, to: unknown): string {
+    return `${value} ${from} = ${Number(result.toPrecision(10))} ${to}`;
+  }
+}
@@ -1,7 +1,234 @@
+import type { KnownBlock } from '@slack/bolt';
+
+/**
+ * Kinds of Slack conversation: public channels, private channels, group DMs and 1:1 DMs
+ */
+export type ConversationSurface = 'channel' | 'group' | 'mpim' | 'im';
+
+/**
+ * How Aidan takes part in conversations on a surface
+ */
+export interface SurfacePolicy {
+  /** Answer every message, as in a 1:1 DM */
+  respondToAll: boolean;
+  /** Keep answering in threads Aidan has replied in */
+  followThreads: boolean;
+  /** Consider joining in when Aidan's name comes up */
+  detectName: boolean;
+  /** Reply in a thread under the message rather than in the conversation itself */
+  replyInThread: boolean;
+}
+
+/**
+ * How readily Aidan joins conversations it wasn't @mentioned in
+ */
+export type Chattiness = 'off' | 'quiet' | 'normal' | 'chatty';
+
+/**
+ * What made Aidan consider an unprompted reply
+ */
+export type ParticipationTrigger = 'thread' | 'name';
+
+/**
+ * Outcome of a participation check, with the reason for logging
+ */
+export interface ParticipationDecision {
+  /** Whether Aidan should reply */
+  respond: boolean;
+  /** Why Aidan should or shouldn't reply */
+  reason: string;
+}
+
+/**
+ * Name of a registered LLM provider, e.g. 'ollama', 'docker-model-runner' or 'openai'
+ */
+export type LLMProvider = string;
+
+/**
+ * Connection settings a provider is created with
+ */
+export interface ProviderOptions {
+  /** Registered provider name, used in logs and error messages */
+  name: string;
+  /** Base URL of the server */
+  baseUrl: string;
+  /** Path of the API below the base URL, e.g. "/v1" */
+  apiPath: string;
+  /** Request timeout in milliseconds */
+  timeout: number;
+  /** API key sent as a bearer token, if the server requires one */
+  apiKey?: string | undefined;
+}
+
+/**
+ * Model and sampling settings for a single completion
+ */
+export interface CompletionOptions {
+  /** Model name to use */
+  model: string;
+  /** Temperature for response randomness */
+  temperature?: number | undefined;
+  /** Maximum number of tokens to generate */
+  maxTokens?: number | undefined;
+  /** Nucleus sampling cut-off */
+  topP?: number | undefined;
+  /** Context window to run the model with, for servers that take it per request */
+  contextLength?: number | undefined;
+  /** Receives the token counts and timings the server reports, once the response is complete */
+  onUsage?: ((usage: ProviderUsage) => void) | undefined;
+  /** Aborts the call, e.g. when the user stops the request or its phase runs out of time */
+  signal?: AbortSignal | undefined;
+}
+
+/**
+ * Token counts and timings a server reported for one call; servers report what they can
+ */
+export interface ProviderUsage {
+  /** Tokens in the prompt */
+  promptTokens?: number | undefined;
+  /** Tokens generated */
+  completionTokens?: number | undefined;
+  /** Time the server spent generating the output tokens, in milliseconds */
+  generationMs?: number | undefined;
+}
+
+/**
+ * A backend serving chat completions and embeddings
+ * Implementations live in src/providers and are looked up by name in its registry
+ */
+export interface ModelProvider {
+  /** Registered provider name */
+  readonly name: string;
+  /** Generates a complete response */
+  chat(messages: ChatMessage[], options: CompletionOptions): Promise<string>;
+  /** Generates a response, passing each token to onToken as it arrives */
+  stream(messages: ChatMessage[], options: CompletionOptions, onToken: (token: string) => void): Promise<string>;
+  /** Generates a response that may ask to call some of the given tools instead of answering */
+  chatWithTools(messages: ChatMessage[], options: CompletionOptions, tools: ToolDefinition[]): Promise<ChatMessage>;
+  /** Generates an embedding vector for a text, passing any reported usage to onUsage */
+  embed(text: string, model: string, onUsage?: (usage: ProviderUsage) => void): Promise<number[]>;
+  /** Lists the models the server offers */
+  listModels(): Promise<string[]>;
+  /** Sends a lightweight request, rejecting if the server is unreachable */
+  checkHealth(): Promise<void>;
+  /** Looks up the context window a model runs with, if the server reports it */
+  getContextLength(model: string): Promise<number | undefined>;
+}
+
+/**
+ * Circuit breaker state of an endpoint
+ * - closed: requests are sent
+ * - open: the endpoint failed repeatedly and is skipped
+ * - half-open: the reset time has passed and the next request tries it again
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Health of one endpoint behind a failover provider
+ */
+export interface EndpointStatus {
+  /** Server base URL */
+  baseUrl: string;
+  /** Circuit breaker state */
+  state: CircuitState;
+  /** Failed requests or health checks since the last success */
+  consecutiveFailures: number;
+  /** Message of the most recent failure */
+  lastError?: string | undefined;
+  /** When the endpoint was last checked or used (ms since epoch) */
+  lastCheckedAt?: number | undefined;
+}
+
+/**
+ * Retry, circuit breaker and health check settings for a failover provider
+ */
+export interface FailoverOptions {
+  /** Rounds over all endpoints after the first one fails, for transient errors */
+  maxRetries: number;
+  /** Delay before the first retry round; doubles with each round */
+  retryBaseDelayMs: number;
+  /** Consecutive failures after which an endpoint's circuit opens */
+  failureThreshold: number;
+  /** Time an open circuit waits before letting a request try the endpoint again */
+  resetTimeoutMs: number;
+  /** Interval between background health checks (0 disables them) */
+  healthCheckIntervalMs: number;
+}
+
+/**
+ * A provider implementation and its defaults, as registered in the provider registry
+ */
+export interface ProviderDefinition {
+  /** Base URL used when none is configured */
+  defaultBaseUrl: string;
+  /** API path used when none is configured */
+  defaultApiPath: string;
+  /** Chat model used when none is configured; undefined makes LLM_MODEL required */
+  defaultModel?: string | undefined;
+  /** Embeddings model used when none is configured; undefined makes EMBEDDINGS_MODEL required */
+  defaultEmbeddingsModel?: string | undefined;
+  /** Creates a provider instance */
+  create(options: ProviderOptions): ModelProvider;
+}
+
+/**
+ * What a model is used for
+ * - classifier: bare yes/no gating decisions, no memory
+ * - answer: replies to users
+ * - code: replies to questions that contain code, if a code model is configured
+ */
+export type ModelRole = 'classifier' | 'answer' | 'code';
+
+/**
+ * A model and the generation settings it is run with
+ */
+export interface ModelProfile {
+  /** Model name to use */
+  model: string;
+  /** Temperature for response randomness */
+  temperature: number;
+  /** Maximum number of tokens to generate */
+  maxTokens?: number | undefined;
+  /** Nucleus sampling cut-off */
+  topP?: number | undefined;
+  /** Context window to run the model with (num_ctx), if not the configured or server default */
+  contextLength?: number | undefined;
+}
+
+/**
+ * A named personality: the system prompt and generation settings Aidan answers with
+ * Settings left out fall back to those of the model role answering the question
+ */
+export interface PersonaProfile {
+  /** Name used to assign the persona, e.g. "incident" */
+  name: string;
+  /** Short description shown when listing personas */
+  description?: string | undefined;
+  /** System prompt template replacing the "system" prompt template; takes the same variables */
+  systemPrompt?: string | undefined;
+  /** Temperature for response randomness */
+  temperature?: number | undefined;
+  /** Nucleus sampling cut-off */
+  topP?: number | undefined;
+  /** Maximum number of tokens to generate */
+  maxTokens?: number | undefined;
+  /** Context window to run the model with (num_ctx) */
+  contextLength?: number | undefined;
+}
+
 /**
- * Supported LLM providers
+ * A persona chosen for a channel or for a user's DMs, as stored in the database
  */
-export type LLMProvider = 'ollama' | 'docker-model-runner';
+export interface PersonaAssignment {
+  /** Channel ID, or user ID for a user's DMs with Aidan */
+  scopeId: string;
+  /** Name of the assigned persona */
+  persona: string;
+  /** Slack user ID of whoever made the assignment */
+  assignedBy: string;
+  /** When the assignment was made (ms since epoch) */
+  assignedAt: number;
+}
 
 /**
  * Configuration interface for the Slack bot application
@@ -16,32 +243,112 @@ export interface Config {
   slackAppToken: string;
   /** LLM provider to use */
   llmProvider: LLMProvider;
-  /** Base URL for LLM API */
-  llmBaseUrl: string;
-  /** LLM model name to use */
+  /** Base URLs of the LLM servers, in order of preference */
+  llmBaseUrls: string[];
+  /** API path below the LLM base URL */
+  llmApiPath: string;
+  /** API key for the LLM server, if it requires one */
+  llmApiKey?: string | undefined;
+  /** LLM model name to use for answers */
   llmModel: string;
+  /** Models and generation settings per role */
+  models: {
+    classifier: ModelProfile;
+    answer: ModelProfile;
+    code?: ModelProfile | undefined;
+  };
   /** Request timeout for LLM API calls */
   llmTimeout: number;
+  /** Time one chat request may take across all of its phases; 0 leaves only the per-call timeout */
+  llmRequestTimeout: number;
   /** Embeddings provider to use */
   embeddingsProvider: LLMProvider;
-  /** Base URL for embeddings API */
-  embeddingsBaseUrl: string;
+  /** Base URLs of the embeddings servers, in order of preference */
+  embeddingsBaseUrls: string[];
+  /** API path below the embeddings base URL */
+  embeddingsApiPath: string;
+  /** API key for the embeddings server, if it requires one */
+  embeddingsApiKey?: string | undefined;
   /** Embeddings model name to use */
   embeddingsModel: string;
   /** Request timeout for embeddings API calls */
   embeddingsTimeout: number;
-  /** Bot name for mention detection */
+  /** Bot name for mention detection and persona prompts */
   botName: string;
+  /** Nicknames and common misspellings that also count as the bot's name */
+  botAliases: string[];
+  /** Slash command for memory and administration, e.g. "/aidan" */
+  slashCommand: string;
   /** Port for the application */
   port: number;
-  /** System prompt for LLM personality */
-  systemPrompt: string;
+  /** System prompt for the built-in "default" persona, replacing the "system" prompt template */
+  systemPrompt?: string | undefined;
+  /** Directory of prompt templates */
+  promptsDir: string;
+  /** Whether prompt templates are reloaded when their files change */
+  promptsHotReload: boolean;
+  /** IANA time zone the current time is given to the model in */
+  timezone: string;
+  /** Persona profiles by name, including the built-in "default" */
+  personas: Record<string, PersonaProfile>;
+  /** Persona used where none is assigned */
+  defaultPersona: string;
+  /** Days usage records are kept (0 to keep them forever) */
+  usageRetentionDays: number;
   /** Path to SQLite database file */
   databasePath: string;
   /** Maximum number of memory entries to retrieve */
   maxMemoryResults: number;
   /** Minimum similarity threshold for memory retrieval */
   similarityThreshold: number;
+  /** Maximum number of Slack messages to include as conversation history */
+  maxHistoryMessages: number;
+  /** Idle time in milliseconds after which Aidan stops following a thread */
+  threadExpiryMs: number;
+  /** Whether replies are streamed into Slack as they are generated */
+  streamingEnabled: boolean;
+  /** Minimum interval in milliseconds between streamed Slack message updates */
+  streamUpdateIntervalMs: number;
+  /** Slack user IDs allowed to run administrative commands */
+  adminUserIds: string[];
+  /** Ranking boost (or penalty) applied per net vote of reaction feedback */
+  feedbackWeight: number;
+  /** Net feedback score at or below which a memory is no longer retrieved */
+  feedbackHideThreshold: number;
+  /** Maximum number of LLM calls running at once */
+  llmMaxConcurrency: number;
+  /** Maximum number of LLM calls waiting for a slot before new ones are rejected */
+  llmMaxQueueSize: number;
+  /** How long handled event IDs and messages are remembered for de-duplication */
+  dedupTtlMs: number;
+  /** Reply length in characters above which the reply is uploaded as a file */
+  responseFileThreshold: number;
+  /** Whether editing an answered message regenerates Aidan's reply */
+  regenerateOnEdit: boolean;
+  /** Minimum time in milliseconds between unprompted replies in the same thread */
+  participationCooldownMs: number;
+  /** Maximum number of unprompted replies per thread until Aidan is @mentioned again (0 for no limit) */
+  participationMaxUnprompted: number;
+  /** Chattiness used in channels without their own setting */
+  defaultChattiness: Chattiness;
+  /** Per-channel chattiness, keyed by channel ID */
+  channelChattiness: Record<string, Chattiness>;
+  /** Reasoning pipeline used in channels without their own setting */
+  defaultReasoning: ReasoningMode;
+  /** Per-channel reasoning pipeline, keyed by channel ID */
+  channelReasoning: Record<string, ReasoningMode>;
+  /** Whether the model may call tools (needs a model with tool support) */
+  toolsEnabled: boolean;
+  /** Maximum number of tool-calling rounds per request */
+  toolMaxIterations: number;
+  /** Model context window in tokens (0 to ask the server) */
+  contextWindow: number;
+  /** Tokens kept free in the context window for the model's answer */
+  contextResponseReserve: number;
+  /** Tokenizer used to estimate prompt sizes */
+  tokenizer: string;
+  /** Retries, circuit breaker and health checks for LLM and embeddings endpoints */
+  failover: FailoverOptions;
 }
 
 /**
@@ -49,9 +356,312 @@ export interface Config {
  */
 export interface ChatMessage {
   /** Role of the message sender */
-  role: 'system' | 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
   /** Content of the message */
   content: string;
+  /** Tools the assistant asked to call (assistant messages only) */
+  toolCalls?: ToolCall[] | undefined;
+  /** ID of the call this message answers (tool messages only) */
+  toolCallId?: string | undefined;
+  /** Name of the tool that produced this message (tool messages only) */
+  toolName?: string | undefined;
+}
+
+/**
+ * JSON schema of a single tool parameter
+ */
+export interface ToolParameterSchema {
+  /** JSON type of the value */
+  type: 'string' | 'number' | 'integer' | 'boolean';
+  /** What the parameter means, shown to the model */
+  description: string;
+  /** Allowed values, for string parameters */
+  enum?: string[] | undefined;
+}
+
+/**
+ * Definition of a tool the model can call, with a JSON schema of its arguments
+ */
+export interface ToolDefinition {
+  /** Function name the model calls */
+  name: string;
+  /** What the tool does and when to use it, shown to the model */
+  description: string;
+  /** JSON schema of the arguments object */
+  parameters: {
+    type: 'object';
+    properties: Record<string, ToolParameterSchema>;
+    required?: string[] | undefined;
+  };
+}
+
+/**
+ * A tool call requested by the model
+ */
+export interface ToolCall {
+  /** Call ID, used to match the result to the call */
+  id: string;
+  /** Name of the tool to call */
+  name: string;
+  /** Arguments as parsed from the model's output */
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * Who a tool is running for, so tools can respect privacy boundaries
+ */
+export interface ToolContext {
+  /** Slack user ID the request is for */
+  userId?: string | undefined;
+  /** Slack channel ID the request came from */
+  channelId?: string | undefined;
+}
+
+/**
+ * A tool the model can call while answering
+ */
+export interface Tool {
+  /** Name, description and argument schema */
+  readonly definition: ToolDefinition;
+  /**
+   * Runs the tool
+   * @param args - Arguments, already validated against the schema
+   * @param context - Who the request is for
+   * @returns Promise resolving to the result text passed back to the model
+   */
+  execute(args: Record<string, unknown>, context: ToolContext): Promise<string>;
+}
+
+/**
+ * Tool definition as sent to Ollama and OpenAI-compatible APIs
+ */
+export interface FunctionToolSpec {
+  type: 'function';
+  function: ToolDefinition;
+}
+
+/**
+ * One Slack message of a formatted reply
+ */
+export interface FormattedMessage {
+  /** Plain mrkdwn text, used for notifications and clients without block support */
+  text: string;
+  /** Block Kit blocks holding the rendered reply */
+  blocks: KnownBlock[];
+}
+
+/**
+ * Where a posted reply ended up, so it can be replaced when its question is edited
+ */
+export interface DeliveredReply {
+  /** Timestamp of the first message, or of the streaming placeholder it filled in */
+  replyTs?: string | undefined;
+  /** Timestamps of the messages the reply continued in */
+  followUpTs: string[];
+  /** IDs of the files the reply was uploaded as */
+  fileIds: string[];
+}
+
+/**
+ * How a reply is generated
+ * - direct: a single completion
+ * - structured: planning, reasoning and summary phases
+ * - critique: a draft, then a self-review that produces the final answer
+ */
+export type ReasoningStrategy = 'direct' | 'structured' | 'critique';
+
+/**
+ * Configured reasoning: a fixed strategy, or 'auto' to route each question by its complexity
+ */
+export type ReasoningMode = ReasoningStrategy | 'auto';
+
+/**
+ * Runs one LLM call of a reasoning pipeline, scheduled against other requests
+ * @param messages - Messages for the call
+ * @param phaseName - Phase name shown to the user and logged
+ * @param streamHandlers - Optional callbacks; onPhase fires when the phase starts, onToken streams its response
+ * @param options - Optional phase settings, e.g. whether tools may be called
+ */
+export type PhaseRunner = (
+  messages: ChatMessage[],
+  phaseName: string,
+  streamHandlers?: StreamHandlers,
+  options?: PhaseOptions
+) => Promise<string>;
+
+/**
+ * Options for one phase of a reasoning pipeline
+ */
+export interface PhaseOptions {
+  /** Whether the model may call tools in this phase to gather information */
+  allowTools?: boolean | undefined;
+  /** Whether the phase's output is fed into later phases' prompts, so its length counts against their context budget */
+  intermediate?: boolean | undefined;
+}
+
+/**
+ * Estimates how many tokens a text takes up for a model
+ */
+export interface Tokenizer {
+  /** Counts the tokens in a text */
+  count(text: string): number;
+}
+
+/**
+ * How a request's context window is shared out
+ */
+export interface ContextPlan {
+  /** Model context window in tokens */
+  window: number;
+  /** Tokens left for memories, history and phase outputs once fixed text and the answer are accounted for */
+  available: number;
+  /** Maximum tokens for the retrieved memory block */
+  memoryTokens: number;
+  /** Maximum tokens for conversation history, before any unused memory budget is added */
+  historyTokens: number;
+  /** Maximum tokens each intermediate phase may generate */
+  phaseOutputTokens: number;
+}
+
+/**
+ * A way of turning a question into a reply with one or more LLM calls
+ */
+export interface ReasoningPipeline {
+  /** Number of phases whose output is fed into later prompts */
+  readonly intermediatePhases: number;
+  /**
+   * Generates the reply; only the final phase streams its tokens
+   * @param userMessage - The question, enhanced with memory context
+   * @param conversationHistory - Previous conversation messages
+   * @param runPhase - Runs a single LLM call
+   * @param streamHandlers - Callbacks for phase changes and streamed tokens
+   * @param prompts - The request's system prompt and phase templates
+   */
+  run(
+    userMessage: string,
+    conversationHistory: ChatMessage[],
+    runPhase: PhaseRunner,
+    streamHandlers: StreamHandlers,
+    prompts: RequestPrompts
+  ): Promise<string>;
+}
+
+/**
+ * Prompt templates, each loaded from <name>.md in the prompts directory
+ * - system: the default system prompt
+ * - question: how the user's question is presented, with retrieved memories
+ * - planning, reasoning, summary: the structured pipeline's phases
+ * - review: the critique pipeline's review phase
+ */
+export type PromptName = 'system' | 'question' | 'planning' | 'reasoning' | 'summary' | 'review';
+
+/**
+ * Variables prompt templates can use as {{name}}, or as {{#name}}…{{/name}} to include text only when set
+ */
+export interface PromptVariables {
+  /** The bot's name */
+  botName: string;
+  /** Current date and time in the configured time zone */
+  time: string;
+  /** Display name of the user asking */
+  userName: string;
+  /** Name of the channel, empty in DMs */
+  channelName: string;
+  /** Retrieved memories, formatted for evaluation */
+  memory: string;
+  /** The user's question; in phase templates, as presented to the model with memories */
+  question: string;
+  /** The rendered system prompt */
+  system: string;
+  /** Output of the planning phase */
+  planning: string;
+  /** Output of the reasoning phase */
+  reasoning: string;
+  /** Draft written before the review phase */
+  draft: string;
+}
+
+/**
+ * A loaded prompt template
+ */
+export interface PromptTemplateInfo {
+  /** Template name */
+  name: PromptName;
+  /** Short hash of the template's content, recorded in memory metadata */
+  version: string;
+  /** File the template was loaded from */
+  path: string;
+  /** When the template was loaded (ms since epoch) */
+  loadedAt: number;
+}
+
+/**
+ * Prompts of one request: the system prompt, and templates with the request's variables
+ * (bot, user, channel, time and system prompt) already filled in
+ */
+export interface RequestPrompts {
+  /** The rendered system prompt of the persona answering */
+  readonly system: string;
+  /**
+   * Renders a template
+   * @param name - Template name
+   * @param variables - Variables not already filled in, such as the question and phase outputs
+   */
+  render(name: PromptName, variables?: Partial<PromptVariables>): string;
+}
+
+/**
+ * Scheduling priority of an LLM request
+ * Direct mentions and DMs are high; speculative replies and classification are low
+ */
+export type RequestPriority = 'high' | 'low';
+
+/**
+ * A reply being generated, which the asker can still stop
+ */
+export interface InFlightRequest {
+  /** Slack channel ID the reply is for */
+  channelId: string;
+  /** Timestamp of the message being answered */
+  sourceTs: string;
+  /** Thread the reply goes to, if any */
+  threadTs?: string | undefined;
+  /** Slack user ID of the asker */
+  userId: string;
+  /** Timestamp of the reply placeholder, once posted */
+  replyTs?: string | undefined;
+  /** Whether the request was stopped because its question was deleted */
+  questionDeleted: boolean;
+  /** Aborts the request's LLM calls */
+  controller: AbortController;
+}
+
+/**
+ * Describes who an LLM request is for, for fair scheduling
+ */
+export interface ScheduleContext {
+  /** Slack user ID the request is for */
+  userId?: string | undefined;
+  /** Slack channel ID the request is for */
+  channelId?: string | undefined;
+  /** Scheduling priority */
+  priority: RequestPriority;
+  /** Called with the request's position in line while it waits */
+  onQueued?: ((position: number) => void) | undefined;
+  /** Takes the request out of line when aborted */
+  signal?: AbortSignal | undefined;
+}
+
+/**
+ * Callbacks for following a chat request while it is generated
+ */
+export interface StreamHandlers {
+  /** Called with the request's position in line while it waits for the LLM */
+  onQueued?: ((position: number) => void) | undefined;
+  /** Called when a thinking phase starts */
+  onPhase?: ((phaseName: string) => void) | undefined;
+  /** Called with each token of the final response as it is generated */
+  onToken?: ((token: string) => void) | undefined;
 }
 
 /**
@@ -74,8 +684,61 @@ export interface MemoryEntry {
   userId?: string | undefined;
   /** Display name of the user who initiated the conversation */
   userName?: string | undefined;
+  /** Kind of conversation this happened in; memories from private surfaces stay in their conversation */
+  surface?: ConversationSurface | undefined;
   /** Additional metadata */
   metadata?: Record<string, any> | undefined;
+  /** Net reaction feedback (upvotes minus downvotes) */
+  feedbackScore?: number | undefined;
+}
+
+/**
+ * Thread that Aidan is participating in
+ */
+export interface ActiveThread {
+  /** Slack channel ID containing the thread */
+  channelId: string;
+  /** Timestamp of the thread's parent message */
+  threadTs: string;
+  /** Timestamp of the last activity in the thread (ms since epoch) */
+  lastActivity: number;
+}
+
+/**
+ * A request about Aidan's memory, handled without the answer pipeline
+ * - remember: store a fact the user states
+ * - forget: find memories to delete, after confirmation
+ * - recall: list what Aidan remembers about something
+ */
+export type MemoryIntent =
+  | { kind: 'remember'; fact: string }
+  | { kind: 'forget'; query: string }
+  | { kind: 'recall'; query: string };
+
+/**
+ * Where a memory request was made and by whom
+ */
+export interface MemoryIntentContext {
+  /** Slack channel ID */
+  channelId: string;
+  /** Timestamp of the request message */
+  ts: string;
+  /** Thread to answer in, or undefined to answer in the channel itself */
+  threadTs?: string | undefined;
+  /** Slack user ID of the requester */
+  userId: string;
+  /** Display name of the requester */
+  userName: string;
+  /** Kind of conversation the request was made in */
+  surface: ConversationSurface;
+}
+
+/**
+ * Per-user settings managed from the App Home tab
+ */
+export interface UserPreferences {
+  /** Whether the user's conversations should not be stored as memories */
+  memoryOptOut: boolean;
 }
 
 /**
@@ -86,6 +749,88 @@ export interface MemorySearchResult {
   entry: MemoryEntry;
   /** Similarity score (0-1, higher is more similar) */
   similarity: number;
+  /** Similarity adjusted by reaction feedback, used for ranking */
+  rankScore: number;
+}
+
+/**
+ * Aggregate reaction feedback across all memories
+ */
+export interface FeedbackSummary {
+  /** Total number of 👍 reactions */
+  upvotes: number;
+  /** Total number of 👎 reactions */
+  downvotes: number;
+  /** Number of memories with any feedback */
+  ratedMemories: number;
+  /** Number of memories hidden from retrieval due to negative feedback */
+  hiddenMemories: number;
+}
+
+/**
+ * Kind of model call a usage record is for
+ */
+export type UsageKind = 'chat' | 'embedding';
+
+/**
+ * Token counts and latency of one model call
+ */
+export interface UsageRecord {
+  /** When the call finished (ms since epoch) */
+  timestamp: number;
+  /** Kind of call */
+  kind: UsageKind;
+  /** Pipeline phase (e.g. "Planning", "Answering", "Classification") or "Embedding" */
+  phase: string;
+  /** Model that served the call */
+  model: string;
+  /** Slack user ID the call was made for, if known */
+  userId?: string | undefined;
+  /** Slack channel ID the call was made for, if known */
+  channelId?: string | undefined;
+  /** Tokens in the prompt, if the server reported them */
+  promptTokens?: number | undefined;
+  /** Tokens generated, if the server reported them */
+  completionTokens?: number | undefined;
+  /** Time from sending the request to the complete response, including retries and failover (ms) */
+  latencyMs: number;
+  /** Time the server spent generating the output tokens, if reported (ms) */
+  generationMs?: number | undefined;
+}
+
+/**
+ * Who a model call is made for, recorded with its usage
+ */
+export interface UsageTags {
+  /** Slack user ID */
+  userId?: string | undefined;
+  /** Slack channel ID */
+  channelId?: string | undefined;
+}
+
+/**
+ * What usage reports can be grouped by
+ */
+export type UsageDimension = 'user' | 'channel' | 'model' | 'phase' | 'day';
+
+/**
+ * Usage totals for one user, channel, model, phase or day
+ */
+export interface UsageSummaryRow {
+  /** User ID, channel ID, model, phase or day (YYYY-MM-DD, UTC) */
+  key: string;
+  /** Number of calls */
+  calls: number;
+  /** Prompt tokens, as far as servers reported them */
+  promptTokens: number;
+  /** Generated tokens, as far as servers reported them */
+  completionTokens: number;
+  /** Average latency per call (ms) */
+  averageLatencyMs: number;
+  /** Slowest call (ms) */
+  maxLatencyMs: number;
+  /** Generation speed in tokens per second, where servers reported generation time */
+  tokensPerSecond?: number | undefined;
 }
 
 /**
@@ -126,6 +871,34 @@ export interface EmbeddingsResponse {
   };
 }
 
+/**
+ * Chat message in Ollama's wire format
+ */
+export interface OllamaMessage {
+  /** Role of the message sender */
+  role: string;
+  /** Content of the message */
+  content: string;
+  /** Tools the assistant asked to call */
+  tool_calls?: Array<{ function: { name: string; arguments: Record<string, unknown> } }> | undefined;
+  /** Name of the tool that produced this message */
+  tool_name?: string | undefined;
+}
+
+/**
+ * Chat message in the OpenAI wire format
+ */
+export interface OpenAIMessage {
+  /** Role of the message sender */
+  role: string;
+  /** Content of the message; null when the assistant only calls tools */
+  content: string | null;
+  /** Tools the assistant asked to call; arguments are a JSON string */
+  tool_calls?: Array<{ id: string; type: 'function'; function: { name: string; arguments: string } }> | undefined;
+  /** ID of the call this message answers */
+  tool_call_id?: string | undefined;
+}
+
 /**
  * Request interface for Ollama chat completion
  */
@@ -133,7 +906,9 @@ export interface OllamaChatRequest {
   /** Model name to use */
   model: string;
   /** Array of messages in the conversation */
-  messages: ChatMessage[];
+  messages: OllamaMessage[];
+  /** Tools the model may call */
+  tools?: FunctionToolSpec[];
   /** Whether to stream the response */
   stream?: boolean;
   /** Additional options for the model */
@@ -141,21 +916,33 @@ export interface OllamaChatRequest {
     temperature?: number;
     top_p?: number;
     top_k?: number;
+    /** Maximum number of tokens to generate */
+    num_predict?: number;
+    /** Context window size */
+    num_ctx?: number;
   };
 }
 
 /**
- * Request interface for OpenAI-compatible chat completion (Docker Model Runner)
+ * Request interface for OpenAI-compatible chat completion
  */
 export interface OpenAIChatRequest {
   /** Model name to use for the completion */
   model: string;
   /** Array of messages in the conversation */
-  messages: ChatMessage[];
+  messages: OpenAIMessage[];
+  /** Tools the model may call */
+  tools?: FunctionToolSpec[];
   /** Maximum number of tokens to generate */
   max_tokens?: number;
   /** Temperature for response randomness */
   temperature?: number;
+  /** Nucleus sampling cut-off */
+  top_p?: number;
+  /** Whether to stream the response as server-sent events */
+  stream?: boolean;
+  /** Streaming options; include_usage asks for a final chunk with token counts */
+  stream_options?: { include_usage: boolean };
 }
 
 /**
@@ -163,7 +950,7 @@ export interface OpenAIChatRequest {
  */
 export interface OllamaChatResponse {
   /** The generated message */
-  message: ChatMessage;
+  message: OllamaMessage;
   /** Whether this is the final response */
   done: boolean;
   /** Total duration of the request */
@@ -178,6 +965,8 @@ export interface OllamaChatResponse {
   eval_count?: number;
   /** Evaluation duration */
   eval_duration?: number;
+  /** Error message, reported in-band while streaming */
+  error?: string;
 }
 
 /**
@@ -197,7 +986,7 @@ export interface OpenAIChatResponse {
     /** Index of the choice */
     index: number;
     /** The message generated by the model */
-    message: ChatMessage;
+    message: OpenAIMessage;
     /** Reason the model stopped generating tokens */
     finish_reason: string;
   }>;
@@ -212,6 +1001,34 @@ export interface OpenAIChatResponse {
   };
 }
 
+/**
+ * Streamed chunk from OpenAI-compatible chat completion (server-sent events)
+ */
+export interface OpenAIChatStreamChunk {
+  /** Unique identifier for the chat completion */
+  id: string;
+  /** Object type, always 'chat.completion.chunk' */
+  object: string;
+  /** Array of chat completion deltas */
+  choices: Array<{
+    /** Index of the choice */
+    index: number;
+    /** Partial message generated since the previous chunk */
+    delta: Partial<OpenAIMessage>;
+    /** Reason the model stopped generating tokens, set on the last chunk */
+    finish_reason: string | null;
+  }>;
+  /** Usage statistics, on a final chunk without choices when requested with stream_options */
+  usage?: {
+    /** Number of tokens in the prompt */
+    prompt_tokens: number;
+    /** Number of tokens in the generated completion */
+    completion_tokens: number;
+    /** Total number of tokens used */
+    total_tokens: number;
+  } | null;
+}
+
 /**
  * Error interface for API responses
  */
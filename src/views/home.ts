@@ -0,0 +1,425 @@
+import { App, BlockAction, Button, ButtonAction, CheckboxesAction, KnownBlock, MrkdwnOption } from '@slack/bolt';
+import { LLMService } from '../services/ollama';
+import { MemoryService } from '../services/memory';
+import { UsageService } from '../services/usage';
+import { EndpointStatus, MemoryEntry, UsageSummaryRow } from '../types';
+import { appConfig } from '../config';
+
+type SlackClient = App['client'];
+
+/**
+ * Number of memories shown per page in the memory browser
+ */
+const PAGE_SIZE = 5;
+
+/**
+ * Maximum characters of a memory's input or response shown in the browser
+ */
+const PREVIEW_LENGTH = 150;
+
+/**
+ * Period covered by the usage section, in days
+ */
+const USAGE_DAYS = 7;
+
+/**
+ * Number of phases listed in the admins' usage breakdown
+ */
+const USAGE_PHASE_LIMIT = 6;
+
+/**
+ * Indicator per circuit breaker state
+ */
+const CIRCUIT_ICONS: Record<EndpointStatus['state'], string> = {
+  closed: '🟢',
+  'half-open': '🟡',
+  open: '🔴',
+};
+
+/**
+ * App Home dashboard
+ * Shows provider health, model usage, memory counts, a paginated browser of
+ * the user's own memories and personal settings
+ */
+export class HomeView {
+  private llmService: LLMService;
+  private memoryService: MemoryService;
+  private usageService: UsageService;
+
+  /**
+   * Creates a new HomeView instance
+   * @param llmService - LLM service used for health checks, usage reports and memory access
+   */
+  constructor(llmService: LLMService) {
+    this.llmService = llmService;
+    this.memoryService = llmService.getMemoryService();
+    this.usageService = llmService.getUsageService();
+  }
+
+  /**
+   * Registers the Home tab event and its action handlers with the Slack app
+   * @param app - Bolt app instance
+   */
+  register(app: App): void {
+    // Handle app_home_opened event (when user opens the bot's home tab)
+    app.event('app_home_opened', async ({ event, client }) => {
+      if (event.tab !== 'home') return;
+      await this.publish(client, event.user, 0);
+    });
+
+    // Previous/next page of the memory browser
+    app.action<BlockAction<ButtonAction>>(/^home_memories_page_(prev|next)$/, async ({ ack, body, action, client }) => {
+      await ack();
+      await this.publish(client, body.user.id, Number(action.value) || 0);
+    });
+
+    // Delete one of the user's memories
+    app.action<BlockAction<ButtonAction>>(/^home_delete_memory_\d+$/, async ({ ack, body, action, client }) => {
+      await ack();
+
+      const [idText, pageText] = (action.value || '').split(':');
+      const id = Number(idText);
+      const userId = body.user.id;
+
+      try {
+        const memory = await this.memoryService.getMemory(id);
+        if (memory && memory.userId === userId) {
+          await this.memoryService.deleteMemory(id);
+          console.log(`[HomeView] ${userId} deleted memory ${id}`);
+        } else {
+          console.warn(`[HomeView] ${userId} tried to delete memory ${id} they don't own`);
+        }
+      } catch (error) {
+        console.error(`[HomeView] Error deleting memory ${id}:`, error);
+      }
+
+      await this.publish(client, userId, Number(pageText) || 0);
+    });
+
+    // Personal settings toggles
+    app.action<BlockAction<CheckboxesAction>>('home_preferences', async ({ ack, body, action, client }) => {
+      await ack();
+
+      const userId = body.user.id;
+      const selected = action.selected_options.map(option => option.value);
+
+      try {
+        await this.memoryService.updateUserPreferences(userId, {
+          memoryOptOut: selected.includes('memory_opt_out'),
+        });
+      } catch (error) {
+        console.error(`[HomeView] Error updating preferences for ${userId}:`, error);
+      }
+
+      await this.publish(client, userId, 0);
+    });
+  }
+
+  /**
+   * Builds and publishes the Home tab for a user
+   * @param client - Slack Web API client
+   * @param userId - Slack user ID of the viewer
+   * @param page - Zero-based page of the memory browser
+   */
+  async publish(client: SlackClient, userId: string, page: number): Promise<void> {
+    try {
+      await client.views.publish({
+        user_id: userId,
+        view: {
+          type: 'home',
+          blocks: await this.buildBlocks(userId, page),
+        },
+      });
+    } catch (error) {
+      console.error('[HomeView] Error updating home tab:', error);
+    }
+  }
+
+  /**
+   * Builds all blocks of the Home tab
+   */
+  private async buildBlocks(userId: string, page: number): Promise<KnownBlock[]> {
+    const [statusBlocks, usageBlocks, memoryBlocks, settingsBlocks] = await Promise.all([
+      this.buildStatusBlocks(userId),
+      this.buildUsageBlocks(userId),
+      this.buildMemoryBlocks(userId, page),
+      this.buildSettingsBlocks(userId),
+    ]);
+
+    return [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*Welcome to ${appConfig.botName}! 🤖*\n\nI'm your AI assistant powered by ${appConfig.llmProvider}. Here's how to interact with me:`,
+        },
+      },
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `• *Mention me* in any channel: \`@${appConfig.botName} your question\` (I'll respond in a thread)\n• *Say my name* in conversation: I'll decide if I should join in based on context\n• *Continue the conversation* in threads - I might participate!\n• *Send me a DM* for private conversations\n• *Use \`${appConfig.slashCommand}\`* to search and manage what I remember`,
+        },
+      },
+      { type: 'divider' },
+      ...statusBlocks,
+      { type: 'divider' },
+      ...usageBlocks,
+      { type: 'divider' },
+      ...memoryBlocks,
+      { type: 'divider' },
+      ...settingsBlocks,
+    ];
+  }
+
+  /**
+   * Builds the live status section: provider and endpoint health and memory counts
+   */
+  private async buildStatusBlocks(userId: string): Promise<KnownBlock[]> {
+    const healthy = await this.llmService.isHealthy();
+    const providerStatus = healthy ? '🟢 Online' : '🔴 Unreachable';
+
+    let memoryStatus: string;
+    try {
+      const stats = await this.memoryService.getStats();
+      const userCount = await this.memoryService.getUserMemoryCount(userId);
+      memoryStatus = `${stats.totalMemories} total • ${userCount} yours`;
+    } catch (error) {
+      memoryStatus = '⚠️ Unavailable';
+    }
+
+    return [
+      { type: 'header', text: { type: 'plain_text', text: '📊 Status', emoji: true } },
+      {
+        type: 'section',
+        fields: [
+          { type: 'mrkdwn', text: `*Provider:*\n${providerStatus} (\`${appConfig.llmProvider}\`)` },
+          { type: 'mrkdwn', text: `*Model:*\n\`${appConfig.llmModel}\`${this.describeOtherModels()}` },
+          { type: 'mrkdwn', text: `*Memories:*\n${memoryStatus}` },
+          { type: 'mrkdwn', text: `*Embeddings:*\n\`${appConfig.embeddingsModel}\`` },
+        ],
+      },
+      this.section(this.describeEndpoints()),
+      { type: 'context', elements: [{ type: 'mrkdwn', text: `Checked <!date^${Math.floor(Date.now() / 1000)}^{time}|just now>` }] },
+    ];
+  }
+
+  /**
+   * Builds the usage section: the user's own usage, and for admins everyone's and the time each phase takes
+   */
+  private async buildUsageBlocks(userId: string): Promise<KnownBlock[]> {
+    const blocks: KnownBlock[] = [
+      { type: 'header', text: { type: 'plain_text', text: `⚡ Usage (last ${USAGE_DAYS} days)`, emoji: true } },
+    ];
+
+    try {
+      const isAdmin = appConfig.adminUserIds.includes(userId);
+      const [own, totals, phases] = await Promise.all([
+        this.usageService.getTotals(USAGE_DAYS, userId),
+        isAdmin ? this.usageService.getTotals(USAGE_DAYS) : null,
+        isAdmin ? this.usageService.getSummary('phase', USAGE_DAYS, USAGE_PHASE_LIMIT) : [],
+      ]);
+
+      blocks.push({
+        type: 'section',
+        fields: [
+          { type: 'mrkdwn', text: `*Yours:*\n${this.describeUsage(own)}` },
+          ...(totals ? [{ type: 'mrkdwn' as const, text: `*Everyone:*\n${this.describeUsage(totals)}` }] : []),
+        ],
+      });
+
+      if (phases.length > 0) {
+        const slowestFirst = [...phases].sort((a, b) => b.averageLatencyMs - a.averageLatencyMs);
+        blocks.push(this.section([
+          '*Time per phase:*',
+          ...slowestFirst.map(row => `• ${row.key}: avg ${this.formatDuration(row.averageLatencyMs)}, max ${this.formatDuration(row.maxLatencyMs)} over ${row.calls} call${row.calls === 1 ? '' : 's'}${row.tokensPerSecond ? ` • ${row.tokensPerSecond.toFixed(1)} tok/s` : ''}`),
+        ].join('\n')));
+        blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: `More with \`${appConfig.slashCommand} usage\`` }] });
+      }
+    } catch (error) {
+      console.warn('[HomeView] Could not load usage:', error);
+      blocks.push(this.section('⚠️ Usage is unavailable right now.'));
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Summarizes usage totals: calls, tokens and average latency
+   */
+  private describeUsage(row: UsageSummaryRow): string {
+    if (row.calls === 0) {
+      return 'No model calls';
+    }
+    const tokens = row.promptTokens + row.completionTokens;
+    return `${row.calls} call${row.calls === 1 ? '' : 's'} • ${tokens.toLocaleString('en-US')} tokens • avg ${this.formatDuration(row.averageLatencyMs)}`;
+  }
+
+  /**
+   * Formats a duration in milliseconds (e.g. 850ms, 4.2s)
+   */
+  private formatDuration(ms: number): string {
+    return ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`;
+  }
+
+  /**
+   * Builds one page of the user's own memories with delete buttons
+   */
+  private async buildMemoryBlocks(userId: string, page: number): Promise<KnownBlock[]> {
+    const blocks: KnownBlock[] = [
+      { type: 'header', text: { type: 'plain_text', text: '🧠 Your Memories', emoji: true } },
+    ];
+
+    let total: number;
+    let memories: MemoryEntry[];
+    try {
+      total = await this.memoryService.getUserMemoryCount(userId);
+      const lastPage = Math.max(0, Math.ceil(total / PAGE_SIZE) - 1);
+      page = Math.min(Math.max(0, page), lastPage);
+      memories = await this.memoryService.getRecentMemories(undefined, userId, PAGE_SIZE, page * PAGE_SIZE);
+    } catch (error) {
+      console.warn('[HomeView] Could not load memories:', error);
+      blocks.push(this.section('⚠️ Memory is unavailable right now.'));
+      return blocks;
+    }
+
+    if (memories.length === 0) {
+      blocks.push(this.section('I don\'t remember anything about our conversations yet.'));
+      return blocks;
+    }
+
+    for (const memory of memories) {
+      blocks.push({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: memory.metadata?.userAsserted
+            ? `*You asked me to remember:* ${this.truncate(memory.userInput)}`
+            : `*You:* ${this.truncate(memory.userInput)}\n*${appConfig.botName}:* ${this.truncate(memory.botResponse)}`,
+        },
+        accessory: {
+          type: 'button',
+          action_id: `home_delete_memory_${memory.id}`,
+          text: { type: 'plain_text', text: 'Delete', emoji: true },
+          style: 'danger',
+          value: `${memory.id}:${page}`,
+          confirm: {
+            title: { type: 'plain_text', text: 'Delete memory?' },
+            text: { type: 'mrkdwn', text: 'I will permanently forget this conversation.' },
+            confirm: { type: 'plain_text', text: 'Delete' },
+            deny: { type: 'plain_text', text: 'Keep' },
+          },
+        },
+      });
+      blocks.push({
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: `#${memory.id} • <!date^${Math.floor(memory.timestamp / 1000)}^{date_short_pretty} {time}|${new Date(memory.timestamp).toISOString()}>` }],
+      });
+    }
+
+    const pageCount = Math.ceil(total / PAGE_SIZE);
+    const navigation: Button[] = [];
+    if (page > 0) {
+      navigation.push(this.pageButton('prev', '◀ Newer', page - 1));
+    }
+    if (page < pageCount - 1) {
+      navigation.push(this.pageButton('next', 'Older ▶', page + 1));
+    }
+
+    blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: `Page ${page + 1} of ${pageCount}` }] });
+    if (navigation.length > 0) {
+      blocks.push({ type: 'actions', elements: navigation });
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Builds the personal settings section
+   */
+  private async buildSettingsBlocks(userId: string): Promise<KnownBlock[]> {
+    const preferences = await this.memoryService.getUserPreferences(userId).catch(() => null);
+    if (!preferences) {
+      return [this.section('⚠️ Settings are unavailable right now.')];
+    }
+
+    const optOutOption: MrkdwnOption = {
+      text: { type: 'mrkdwn', text: '*Don\'t remember my conversations*' },
+      description: { type: 'plain_text', text: 'New conversations with you won\'t be stored as memories' },
+      value: 'memory_opt_out',
+    };
+
+    return [
+      { type: 'header', text: { type: 'plain_text', text: '⚙️ Settings', emoji: true } },
+      {
+        type: 'actions',
+        elements: [
+          {
+            type: 'checkboxes',
+            action_id: 'home_preferences',
+            options: [optOutOption],
+            ...(preferences.memoryOptOut && { initial_options: [optOutOption] }),
+          },
+        ],
+      },
+    ];
+  }
+
+  /**
+   * Builds a pagination button
+   */
+  private pageButton(direction: 'prev' | 'next', label: string, targetPage: number): Button {
+    return {
+      type: 'button',
+      action_id: `home_memories_page_${direction}`,
+      text: { type: 'plain_text', text: label, emoji: true },
+      value: String(targetPage),
+    };
+  }
+
+  /**
+   * Lists each LLM and embeddings endpoint with its circuit breaker state
+   */
+  private describeEndpoints(): string {
+    const { llm, embeddings } = this.llmService.getEndpointStatus();
+    const describe = (role: string, endpoint: EndpointStatus): string => {
+      const problem = endpoint.state === 'closed'
+        ? ''
+        : ` – ${endpoint.state}, ${endpoint.consecutiveFailures} failure${endpoint.consecutiveFailures === 1 ? '' : 's'}${endpoint.lastError ? ` (${endpoint.lastError})` : ''}`;
+      return `${CIRCUIT_ICONS[endpoint.state]} ${role} \`${endpoint.baseUrl}\`${problem}`;
+    };
+
+    return [
+      '*Endpoints:*',
+      ...llm.map(endpoint => describe('LLM', endpoint)),
+      ...embeddings.map(endpoint => describe('Embeddings', endpoint)),
+    ].join('\n');
+  }
+
+  /**
+   * Lists the classifier and code models when they differ from the answer model
+   */
+  private describeOtherModels(): string {
+    const { classifier, code } = appConfig.models;
+    const others = [
+      classifier.model !== appConfig.llmModel && `classifier \`${classifier.model}\``,
+      code && `code \`${code.model}\``,
+    ].filter(Boolean);
+    return others.length > 0 ? `\n${others.join(' • ')}` : '';
+  }
+
+  /**
+   * Builds a mrkdwn section block
+   */
+  private section(text: string): KnownBlock {
+    return { type: 'section', text: { type: 'mrkdwn', text } };
+  }
+
+  /**
+   * Shortens text for display, adding an ellipsis when cut
+   */
+  private truncate(text: string): string {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    return singleLine.length > PREVIEW_LENGTH ? `${singleLine.substring(0, PREVIEW_LENGTH - 1)}…` : singleLine;
+  }
+}